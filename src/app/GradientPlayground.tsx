@@ -1,104 +1,96 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
-
-// Type definitions
-interface GradientStop {
-  color: string;
-  pos: number;
-}
-
-interface GradientLayer {
-  id: number;
-  type: "conic" | "linear" | "radial";
-  from: number;
-  at: { x: number; y: number };
-  stops: GradientStop[];
-  enabled: boolean;
-  opacity: number;
-}
-
-interface AppState {
-  layers: GradientLayer[];
-  previewW: number;
-  previewH: number;
-  selectedLayerId: number;
-}
-
-// Helper function to convert hex/rgb/rgba colors to rgba with specified opacity
-function convertToRgba(color: string, opacity: number): string {
-  // If already rgba, extract rgb part and apply new opacity
-  const rgbaMatch = color.match(/rgba?\(([^)]+)\)/);
-  if (rgbaMatch) {
-    const values = rgbaMatch[1].split(",").map((v) => v.trim());
-    if (values.length >= 3) {
-      const r = values[0];
-      const g = values[1];
-      const b = values[2];
-      return `rgba(${r}, ${g}, ${b}, ${opacity})`;
-    }
-  }
-
-  // Handle hex colors
-  if (color.startsWith("#")) {
-    const hex = color.slice(1);
-    let r: number, g: number, b: number;
-
-    if (hex.length === 3) {
-      r = parseInt(hex[0] + hex[0], 16);
-      g = parseInt(hex[1] + hex[1], 16);
-      b = parseInt(hex[2] + hex[2], 16);
-    } else if (hex.length === 6) {
-      r = parseInt(hex.slice(0, 2), 16);
-      g = parseInt(hex.slice(2, 4), 16);
-      b = parseInt(hex.slice(4, 6), 16);
-    } else {
-      return color; // fallback for invalid hex
-    }
-
-    return `rgba(${r}, ${g}, ${b}, ${opacity})`;
-  }
-
-  // For other color formats, return as-is (fallback)
-  return color;
-}
-
-// Helper function to convert any color format to hex for color picker
-function colorToHex(color: string): string {
-  // If already hex, return as-is
-  if (color.startsWith("#")) {
-    return color;
-  }
-
-  // Handle rgba/rgb colors
-  const rgbaMatch = color.match(/rgba?\(([^)]+)\)/);
-  if (rgbaMatch) {
-    const values = rgbaMatch[1].split(",").map((v) => parseInt(v.trim()));
-    if (values.length >= 3) {
-      const r = Math.max(0, Math.min(255, values[0]));
-      const g = Math.max(0, Math.min(255, values[1]));
-      const b = Math.max(0, Math.min(255, values[2]));
-      return `#${r.toString(16).padStart(2, "0")}${g
-        .toString(16)
-        .padStart(2, "0")}${b.toString(16).padStart(2, "0")}`;
-    }
-  }
-
-  // Fallback: return black
-  return "#000000";
-}
-
-// Helper function to extract alpha from rgba color
-function getColorAlpha(color: string): number {
-  const rgbaMatch = color.match(/rgba\(([^)]+)\)/);
-  if (rgbaMatch) {
-    const values = rgbaMatch[1].split(",").map((v) => v.trim());
-    if (values.length >= 4) {
-      return parseFloat(values[3]) || 1;
-    }
-  }
-  return 1; // Default to fully opaque
-}
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
+
+import {
+  COLOR_FORMATS,
+  ColorFormat,
+  colorFormat,
+  colorToHex,
+  formatColor,
+  getColorAlpha,
+  parseColor,
+  setColorAlpha,
+} from "@/lib/color";
+import {
+  CssParseError,
+  parseCssGradient,
+  tailwindClassesToCss,
+} from "@/lib/cssParser";
+import {
+  DEFAULT_ANIMATION,
+  generateAnimationCss,
+  liveTracks,
+  sampleLayers,
+} from "@/lib/animation";
+import {
+  ContrastSettings,
+  checkContrast,
+  defaultContrastSettings,
+} from "@/lib/contrast";
+import { DEFAULT_GENERATOR, generateLayers } from "@/lib/generate";
+import {
+  AppState,
+  GeneratorSettings,
+  GradientAnimation,
+  GradientLayer,
+  GradientStop,
+  BLEND_MODES,
+  BlendMode,
+  GradientType,
+  HUE_INTERPOLATIONS,
+  HueInterpolation,
+  INTERPOLATION_SPACES,
+  InterpolationSpace,
+  RADIAL_EXTENTS,
+  RadialExtent,
+  RadialShape,
+  TAILWIND_FORMATS,
+  TailwindFormat,
+  blendModeList,
+  convertStopsForType,
+  createDefaultLayer,
+  generateCss,
+  generateTailwind,
+  gradientLabel,
+  isPolarSpace,
+  layerName,
+  layerToCss,
+  radialRadii,
+  stopRange,
+  stopUnit,
+  usesAngle,
+  usesPosition,
+} from "@/lib/gradient";
+import {
+  History,
+  HistoryStep,
+  canRedo,
+  canUndo,
+  createHistory,
+  jumpTo,
+  pushHistory,
+} from "@/lib/history";
+import { decodeShareHash, encodeShareHash } from "@/lib/shareUrl";
+import { tokenSlug } from "@/lib/tokens";
+import AnimationPanel from "@/components/AnimationPanel";
+import ContrastOverlay from "@/components/ContrastOverlay";
+import ContrastPanel from "@/components/ContrastPanel";
+import ExportImageDialog from "@/components/ExportImageDialog";
+import GeneratorPanel from "@/components/GeneratorPanel";
+import GradientBar from "@/components/GradientBar";
+import HistoryPanel from "@/components/HistoryPanel";
+import LibraryPanel from "@/components/LibraryPanel";
+import NativeExportControls from "@/components/NativeExportControls";
+import PaletteImportControls from "@/components/PaletteImportControls";
+import PresetGallery from "@/components/PresetGallery";
+import PreviewHandles from "@/components/PreviewHandles";
+import ShaderExportControls from "@/components/ShaderExportControls";
+import StopTools from "@/components/StopTools";
+import SvgExportControls from "@/components/SvgExportControls";
+import SvgImportControls from "@/components/SvgImportControls";
+import TokenExportControls from "@/components/TokenExportControls";
+import TokenImportControls from "@/components/TokenImportControls";
 
 // Default gradient layers parsed from the user's example (kept as structured data)
 const DEFAULT_LAYERS: GradientLayer[] = [
@@ -137,44 +129,30 @@ const DEFAULT_LAYERS: GradientLayer[] = [
   },
 ];
 
-// Hash-based state management functions
-function encodeStateToHash(state: AppState): string {
-  try {
-    const compressed = JSON.stringify(state);
-    return btoa(compressed);
-  } catch (e) {
-    console.error("Failed to encode state:", e);
-    return "";
-  }
-}
-
-function decodeStateFromHash(hash?: string): AppState | null {
-  try {
-    const hashValue = hash || window.location.hash;
-    // Remove the # from the hash
-    const stateParam = hashValue.replace("#", "");
-    if (!stateParam) return null;
-
-    const decoded = atob(stateParam);
-    const state = JSON.parse(decoded) as AppState;
-
-    // Validate the state structure
-    if (
-      !state.layers ||
-      !Array.isArray(state.layers) ||
-      typeof state.previewW !== "number" ||
-      typeof state.previewH !== "number" ||
-      typeof state.selectedLayerId !== "number"
-    ) {
-      return null;
-    }
-
-    return state;
-  } catch (e) {
-    console.error("Failed to decode state from hash:", e);
-    return null;
-  }
-}
+// History labels for single-field layer edits
+const LAYER_FIELD_LABELS: Partial<Record<keyof GradientLayer, string>> = {
+  type: "Change type",
+  from: "Change angle",
+  at: "Move center",
+  shape: "Change shape",
+  size: "Change size",
+  repeating: "Toggle repeating",
+  colorSpace: "Change interpolation",
+  hueInterpolation: "Change hue interpolation",
+  stops: "Edit stops",
+  enabled: "Toggle layer",
+  opacity: "Change opacity",
+  blendMode: "Change blend mode",
+  locked: "Toggle lock",
+  name: "Rename layer",
+};
+
+// Fields that stay editable on a locked layer
+const LOCK_EXEMPT_FIELDS: (keyof GradientLayer)[] = [
+  "locked",
+  "enabled",
+  "name",
+];
 
 export default function GradientPlayground() {
   // Initialize state from hash or defaults (only on first load)
@@ -183,13 +161,56 @@ export default function GradientPlayground() {
   const [previewW, setPreviewW] = useState(300);
   const [previewH, setPreviewH] = useState(180);
   const [selectedLayerId, setSelectedLayerId] = useState(1);
+  // Layers picked with Shift/Cmd-click for bulk actions
+  const [selectedLayerIds, setSelectedLayerIds] = useState<number[]>([]);
+  // Layer shown alone in the preview; a view setting, not part of the state
+  const [soloLayerId, setSoloLayerId] = useState<number | null>(null);
+  // Text box for the WCAG contrast check; null while the check is off
+  const [contrast, setContrast] = useState<ContrastSettings | null>(null);
+  const [renamingLayerId, setRenamingLayerId] = useState<number | null>(null);
+  const [renameText, setRenameText] = useState("");
+  // Layer row being dragged, and the row edge it would drop on
+  const [draggedLayerId, setDraggedLayerId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<{
+    id: number;
+    after: boolean;
+  } | null>(null);
+  const [animation, setAnimation] = useState<GradientAnimation | undefined>(
+    undefined
+  );
+  // Settings of the last generated stack, kept so it can be re-rolled
+  const [generator, setGenerator] = useState<GeneratorSettings | undefined>(
+    undefined
+  );
+  // Seconds into the animation shown in the preview; null shows the layers
+  // as edited
+  const [playhead, setPlayhead] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
   const [cssText, setCssText] = useState("");
+  const [importErrors, setImportErrors] = useState<{
+    text: string;
+    errors: CssParseError[];
+  } | null>(null);
   const [tailwindText, setTailwindText] = useState("");
+  const [tailwindFormat, setTailwindFormat] = useState<TailwindFormat>("class");
+  const [tailwindName, setTailwindName] = useState("brand");
   const [selectedStopIndex, setSelectedStopIndex] = useState(0);
+  // Stops Shift-clicked on the bar, for bulk stop edits on that layer
+  const [stopSelection, setStopSelection] = useState<{
+    layerId: number;
+    indices: number[];
+  } | null>(null);
   const [isDraggingStop, setIsDraggingStop] = useState(false);
   const [previewContainerHeight, setPreviewContainerHeight] = useState(0);
   const updateTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const isUpdatingFromHashRef = useRef(false);
+  const [history, setHistory] = useState<History | null>(null);
+  // Label for the next recorded state change, set by the action causing it
+  const pendingStepRef = useRef<HistoryStep | null>(null);
+  // Why the link in the URL couldn't be opened, shown until dismissed
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [showImageExport, setShowImageExport] = useState(false);
+  const [showPresets, setShowPresets] = useState(false);
 
   const previewContainerRef = useRef<HTMLDivElement>(null);
 
@@ -197,31 +218,49 @@ export default function GradientPlayground() {
   useEffect(() => {
     if (isInitialized) return;
 
-    const hashState = decodeStateFromHash();
-    if (hashState) {
-      setLayers(hashState.layers);
-      setPreviewW(hashState.previewW);
-      setPreviewH(hashState.previewH);
-      setSelectedLayerId(hashState.selectedLayerId);
-    }
-    setIsInitialized(true);
+    let cancelled = false;
+    decodeShareHash(window.location.hash).then((result) => {
+      if (cancelled) return;
+      if (result && "state" in result) {
+        setLayers(result.state.layers);
+        setPreviewW(result.state.previewW);
+        setPreviewH(result.state.previewH);
+        setSelectedLayerId(result.state.selectedLayerId);
+        setAnimation(result.state.animation);
+        setGenerator(result.state.generator);
+      } else if (result) {
+        setLinkError(result.error);
+      }
+      setIsInitialized(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
   }, [isInitialized]);
 
   // Listen for hash changes (for browser back/forward navigation)
   useEffect(() => {
     if (!isInitialized) return;
 
-    const handleHashChange = () => {
-      const hashState = decodeStateFromHash();
-      if (hashState) {
+    const handleHashChange = async () => {
+      const result = await decodeShareHash(window.location.hash);
+      if (result && "error" in result) {
+        setLinkError(result.error);
+      } else if (result) {
+        const hashState = result.state;
+        setLinkError(null);
         // Set flag to prevent hash update loop
         isUpdatingFromHashRef.current = true;
 
         // Update state to match hash without triggering another hash update
+        pendingStepRef.current = { label: "Open link" };
         setLayers(hashState.layers);
         setPreviewW(hashState.previewW);
         setPreviewH(hashState.previewH);
         setSelectedLayerId(hashState.selectedLayerId);
+        setAnimation(hashState.animation);
+        setGenerator(hashState.generator);
 
         // Reset flag after state updates
         setTimeout(() => {
@@ -239,33 +278,94 @@ export default function GradientPlayground() {
 
   // Function to update hash with current state (debounced)
   const updateHashWithState = useCallback((state: AppState) => {
-    try {
-      // Clear existing timeout
-      if (updateTimeoutRef.current) {
-        clearTimeout(updateTimeoutRef.current);
-      }
+    // Clear existing timeout
+    if (updateTimeoutRef.current) {
+      clearTimeout(updateTimeoutRef.current);
+    }
 
-      // Debounce hash updates to prevent too many history entries
-      updateTimeoutRef.current = setTimeout(() => {
-        const encoded = encodeStateToHash(state);
+    // Debounce hash updates while dragging
+    updateTimeoutRef.current = setTimeout(async () => {
+      try {
+        const encoded = await encodeShareHash(state);
 
-        // Use history.pushState to create history entries for undo/redo
-        // This allows back/forward navigation while keeping the hash
+        // The hash only mirrors the current state; undo/redo lives in the
+        // in-app history, so don't add browser history entries
         const newUrl = `${window.location.pathname}${window.location.search}#${encoded}`;
-        history.pushState(null, "", newUrl);
-      }, 300); // 300ms debounce for better responsiveness
-    } catch (e) {
-      console.error("Failed to update hash:", e);
-    }
+        window.history.replaceState(null, "", newUrl);
+      } catch (e) {
+        console.error("Failed to update hash:", e);
+      }
+    }, 300); // 300ms debounce for better responsiveness
   }, []);
 
+  // Record state changes as undo steps. Restoring an entry puts its own
+  // layers back, which is recognised here and not recorded again.
+  useEffect(() => {
+    if (!isInitialized) return;
+
+    const state: AppState = {
+      layers,
+      previewW,
+      previewH,
+      selectedLayerId,
+      animation,
+      generator,
+    };
+    const step = pendingStepRef.current ?? { label: "Edit" };
+    pendingStepRef.current = null;
+
+    setHistory((prev) => {
+      if (!prev) return createHistory(state);
+      const current = prev.entries[prev.index].state;
+      if (
+        current.layers === layers &&
+        current.previewW === previewW &&
+        current.previewH === previewH &&
+        current.animation === animation &&
+        current.generator === generator
+      ) {
+        // Selection alone isn't an undo step
+        return prev;
+      }
+      return pushHistory(prev, step, state);
+    });
+  }, [
+    layers,
+    previewW,
+    previewH,
+    selectedLayerId,
+    animation,
+    generator,
+    isInitialized,
+  ]);
+
+  // Restore the editor to a history entry
+  const goToHistory = useCallback(
+    (index: number) => {
+      if (!history) return;
+      const next = jumpTo(history, index);
+      if (next === history) return;
+
+      const { state } = next.entries[next.index];
+      setHistory(next);
+      setLayers(state.layers);
+      setPreviewW(state.previewW);
+      setPreviewH(state.previewH);
+      setSelectedLayerId(state.selectedLayerId);
+      setAnimation(state.animation);
+      setGenerator(state.generator);
+    },
+    [history]
+  );
+
   // Update CSS when state changes
   useEffect(() => {
     if (!isInitialized) return;
-    setCssText(generateCss());
-    setTailwindText(generateTailwindCss());
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [layers, previewW, previewH, isInitialized]);
+    setCssText(generateCss(layers));
+    setTailwindText(
+      generateTailwind(tailwindFormat, layers, tokenSlug(tailwindName))
+    );
+  }, [layers, isInitialized, tailwindFormat, tailwindName]);
 
   // Update hash when state changes (but not during initial load or hash updates)
   useEffect(() => {
@@ -276,6 +376,8 @@ export default function GradientPlayground() {
       previewW,
       previewH,
       selectedLayerId,
+      animation,
+      generator,
     };
 
     updateHashWithState(state);
@@ -284,10 +386,27 @@ export default function GradientPlayground() {
     previewW,
     previewH,
     selectedLayerId,
+    animation,
+    generator,
     isInitialized,
     updateHashWithState,
   ]);
 
+  // Advance the playhead every frame while the animation plays
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      setPlayhead((time) => (time ?? 0) + (now - last) / 1000);
+      last = now;
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
   // Measure preview container height
   useEffect(() => {
     const measureHeight = () => {
@@ -312,109 +431,66 @@ export default function GradientPlayground() {
 
   // Handle keyboard shortcuts for undo/redo
   useEffect(() => {
+    if (!history) return;
+
     const handleKeyDown = (e: KeyboardEvent) => {
-      // Check for undo/redo shortcuts
-      const isMac = navigator.platform.toUpperCase().indexOf("MAC") >= 0;
+      // Leave text fields their native undo
+      const target = e.target as HTMLElement;
+      if (
+        target.tagName === "TEXTAREA" ||
+        (target.tagName === "INPUT" &&
+          ["text", "search"].includes((target as HTMLInputElement).type))
+      ) {
+        return;
+      }
 
-      if (isMac) {
-        // Mac: Cmd+Z for undo, Cmd+Shift+Z for redo
-        if (e.metaKey && e.key === "z") {
-          e.preventDefault();
-          if (e.shiftKey) {
-            window.history.forward();
-          } else {
-            window.history.back();
-          }
-        }
-        // Mac: Cmd+← for back, Cmd+→ for forward
-        else if (e.metaKey && e.key === "ArrowLeft") {
-          e.preventDefault();
-          window.history.back();
-        } else if (e.metaKey && e.key === "ArrowRight") {
-          e.preventDefault();
-          window.history.forward();
-        }
-      } else {
-        // Windows/Linux: Ctrl+Z for undo, Ctrl+Y for redo
-        if (e.ctrlKey && e.key === "z" && !e.shiftKey) {
-          e.preventDefault();
-          window.history.back();
-        } else if (e.ctrlKey && e.key === "y") {
-          e.preventDefault();
-          window.history.forward();
-        }
-        // Windows/Linux: Alt+← for back, Alt+→ for forward
-        else if (e.altKey && e.key === "ArrowLeft") {
-          e.preventDefault();
-          window.history.back();
-        } else if (e.altKey && e.key === "ArrowRight") {
-          e.preventDefault();
-          window.history.forward();
-        }
+      // Cmd+Z / Cmd+Shift+Z on Mac, Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y elsewhere
+      const isMac = navigator.platform.toUpperCase().indexOf("MAC") >= 0;
+      const mod = isMac ? e.metaKey : e.ctrlKey;
+      if (!mod) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        goToHistory(history.index - 1);
+      } else if ((key === "z" && e.shiftKey) || (!isMac && key === "y")) {
+        e.preventDefault();
+        goToHistory(history.index + 1);
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, []);
-
-  function generateCss() {
-    // Generate each layer CSS with opacity support
-    const layerCss = layers
-      .filter((L) => L.enabled)
-      .map((L) => {
-        const fromPart = L.from != null ? `from ${L.from}deg ` : "";
-        const atPart = L.at ? `at ${L.at.x}% ${L.at.y}%` : "";
-
-        // Convert colors to rgba if opacity is less than 1
-        const stopList = L.stops
-          .map((s) => {
-            if (L.opacity < 1) {
-              const color = convertToRgba(s.color, L.opacity);
-              return `${color} ${formatNumber(s.pos)}deg`;
-            }
-            return `${s.color} ${formatNumber(s.pos)}deg`;
-          })
-          .join(", ");
-
-        return `${L.type}-gradient(${fromPart}${atPart}, ${stopList})`;
-      })
-      .join(",\n");
+  }, [history, goToHistory]);
 
-    return `background: ${layerCss};`;
+  function recordStep(step: HistoryStep) {
+    pendingStepRef.current = step;
   }
 
-  function generateTailwindCss() {
-    // Generate Tailwind CSS class with opacity support
-    const layerCss = layers
-      .filter((L) => L.enabled)
-      .map((L) => {
-        const fromPart = L.from != null ? `from_${L.from}deg_` : "";
-        const atPart = L.at ? `at_${L.at.x}%_${L.at.y}%` : "";
-
-        // Convert colors to rgba if opacity is less than 1
-        const stopList = L.stops
-          .map((s) => {
-            if (L.opacity < 1) {
-              const color = convertToRgba(s.color, L.opacity);
-              // Remove spaces from rgba values for Tailwind format
-              const cleanColor = color.replace(/\s+/g, "");
-              return `${cleanColor}_${formatNumber(s.pos)}deg`;
-            }
-            return `${s.color}_${formatNumber(s.pos)}deg`;
-          })
-          .join(",_");
-
-        const gradientParams =
-          fromPart + (atPart ? `${atPart},_` : "") + stopList;
-        return `${L.type}-gradient(${gradientParams})`;
-      })
-      .join(",");
-
-    return `bg-[${layerCss}]`;
+  function isLocked(id: number) {
+    return layers.some((L) => L.id === id && L.locked);
   }
 
-  function updateLayer(id: number, patch: Partial<GradientLayer>) {
+  // Continuous inputs (numbers, positions, colors) coalesce into one step per
+  // field until another step is recorded
+  function updateLayer(
+    id: number,
+    patch: Partial<GradientLayer>,
+    step?: HistoryStep
+  ) {
+    const fields = Object.keys(patch) as (keyof GradientLayer)[];
+    if (isLocked(id) && fields.some((f) => !LOCK_EXEMPT_FIELDS.includes(f))) {
+      return;
+    }
+    const continuous = fields.every(
+      (f) => typeof patch[f] === "number" || f === "at" || f === "size"
+    );
+    recordStep(
+      step ?? {
+        label: LAYER_FIELD_LABELS[fields[0]] ?? "Edit layer",
+        key: continuous ? `layer-${id}-${fields.join(",")}` : undefined,
+      }
+    );
     setLayers((prev) =>
       prev.map((L) => (L.id === id ? { ...L, ...patch } : L))
     );
@@ -423,8 +499,20 @@ export default function GradientPlayground() {
   function updateStop(
     layerId: number,
     stopIdx: number,
-    patch: Partial<GradientStop>
+    patch: Partial<GradientStop>,
+    step?: HistoryStep
   ) {
+    if (isLocked(layerId)) return;
+    const fields = Object.keys(patch);
+    const moved = fields.some((f) => f !== "color");
+    recordStep(
+      step ?? {
+        label: moved
+          ? `Move stop ${stopIdx + 1}`
+          : `Change stop ${stopIdx + 1} color`,
+        key: `stop-${layerId}-${stopIdx}-${fields.join(",")}`,
+      }
+    );
     setLayers((prev) =>
       prev.map((L) => {
         if (L.id !== layerId) return L;
@@ -437,10 +525,15 @@ export default function GradientPlayground() {
   }
 
   function addStop(layerId: number) {
+    if (isLocked(layerId)) return;
+    recordStep({ label: "Add stop" });
     setLayers((prev) =>
       prev.map((L) => {
         if (L.id === layerId) {
-          const newStops = [...L.stops, { color: "#ffffff", pos: 50 }];
+          const newStops = [
+            ...L.stops,
+            { color: "#ffffff", pos: stopRange(L.type) / 2 },
+          ];
           // Focus the newly created stop
           setSelectedStopIndex(newStops.length - 1);
           return { ...L, stops: newStops };
@@ -450,7 +543,11 @@ export default function GradientPlayground() {
     );
   }
 
+  // A gradient needs two stops, as with drag-to-delete on the bar
   function removeStop(layerId: number, idx: number) {
+    const layer = layers.find((L) => L.id === layerId);
+    if (!layer || layer.locked || layer.stops.length <= 2) return;
+    recordStep({ label: `Remove stop ${idx + 1}` });
     setLayers((prev) =>
       prev.map((L) =>
         L.id === layerId
@@ -462,28 +559,16 @@ export default function GradientPlayground() {
 
   function addLayer() {
     const id = Math.max(...layers.map((l) => l.id)) + 1;
-    setLayers((prev) => [
-      ...prev,
-      {
-        id,
-        type: "conic",
-        from: 0,
-        at: { x: 50, y: 50 },
-        stops: [
-          { color: "#ff0000", pos: 0 },
-          { color: "#0000ff", pos: 360 },
-        ],
-        enabled: true,
-        opacity: 1,
-      },
-    ]);
+    recordStep({ label: "Add layer" });
+    setLayers((prev) => [...prev, createDefaultLayer(id, "conic")]);
     setSelectedLayerId(id);
   }
 
   function removeLayer(id: number) {
-    if (layers.length === 1) return;
+    if (layers.length === 1 || isLocked(id)) return;
 
     const newLayers = layers.filter((l) => l.id !== id);
+    recordStep({ label: "Delete layer" });
     setLayers(newLayers);
 
     // If the removed layer was selected, select the first remaining layer
@@ -492,6 +577,83 @@ export default function GradientPlayground() {
     }
   }
 
+  // The copy goes right below the original and starts out unlocked
+  function duplicateLayer(id: number) {
+    const index = layers.findIndex((l) => l.id === id);
+    const source = layers[index];
+    const copy: GradientLayer = {
+      ...source,
+      id: Math.max(...layers.map((l) => l.id)) + 1,
+      name: source.name ? `${source.name} copy` : undefined,
+      locked: undefined,
+    };
+    recordStep({ label: "Duplicate layer" });
+    setLayers([
+      ...layers.slice(0, index + 1),
+      copy,
+      ...layers.slice(index + 1),
+    ]);
+    setSelectedLayerId(copy.id);
+  }
+
+  // Drop a dragged layer just before or after another one
+  function moveLayer(id: number, targetId: number, after: boolean) {
+    const moving = layers.find((l) => l.id === id);
+    if (!moving || id === targetId) return;
+    const rest = layers.filter((l) => l.id !== id);
+    const index = rest.findIndex((l) => l.id === targetId) + (after ? 1 : 0);
+    const newLayers = [...rest.slice(0, index), moving, ...rest.slice(index)];
+    if (newLayers.every((L, i) => L === layers[i])) return;
+    recordStep({ label: "Reorder layers" });
+    setLayers(newLayers);
+  }
+
+  function setLayersEnabled(ids: number[], enabled: boolean) {
+    recordStep({ label: enabled ? "Show layers" : "Hide layers" });
+    setLayers((prev) =>
+      prev.map((L) => (ids.includes(L.id) ? { ...L, enabled } : L))
+    );
+  }
+
+  // Locked layers are skipped, and the top layer stays if all would go
+  function removeLayers(ids: number[]) {
+    let newLayers = layers.filter((L) => !ids.includes(L.id) || L.locked);
+    if (newLayers.length === 0) newLayers = layers.slice(0, 1);
+    if (newLayers.length === layers.length) return;
+    recordStep({ label: "Delete layers" });
+    setLayers(newLayers);
+    setSelectedLayerIds([]);
+    if (!newLayers.some((L) => L.id === selectedLayerId)) {
+      setSelectedLayerId(newLayers[0].id);
+    }
+  }
+
+  // Shift/Cmd/Ctrl-click adds or removes a layer from the multi-selection;
+  // a plain click selects just that layer
+  function selectLayer(id: number, e: React.MouseEvent) {
+    if (!e.shiftKey && !e.metaKey && !e.ctrlKey) {
+      setSelectedLayerIds([]);
+      setSelectedLayerId(id);
+      return;
+    }
+    const current =
+      selectedLayerIds.length > 0 ? selectedLayerIds : [selectedLayerId];
+    const next = current.includes(id)
+      ? current.filter((x) => x !== id)
+      : [...current, id];
+    setSelectedLayerIds(next);
+    if (next.includes(id)) setSelectedLayerId(id);
+    else if (next.length > 0) setSelectedLayerId(next[next.length - 1]);
+  }
+
+  function commitRename(id: number) {
+    setRenamingLayerId(null);
+    const name = renameText.trim();
+    const layer = layers.find((l) => l.id === id);
+    if (!layer || (layer.name ?? "") === name) return;
+    updateLayer(id, { name: name || undefined });
+  }
+
   function moveLayerUp(id: number) {
     const currentIndex = layers.findIndex((l) => l.id === id);
     if (currentIndex <= 0) return; // Already at top or not found
@@ -500,6 +662,7 @@ export default function GradientPlayground() {
     const temp = newLayers[currentIndex];
     newLayers[currentIndex] = newLayers[currentIndex - 1];
     newLayers[currentIndex - 1] = temp;
+    recordStep({ label: "Move layer up" });
     setLayers(newLayers);
   }
 
@@ -511,133 +674,69 @@ export default function GradientPlayground() {
     const temp = newLayers[currentIndex];
     newLayers[currentIndex] = newLayers[currentIndex + 1];
     newLayers[currentIndex + 1] = temp;
+    recordStep({ label: "Move layer down" });
     setLayers(newLayers);
   }
 
-  function formatNumber(n: number | null | undefined): string {
-    if (n == null) return "0";
-    return Number(n).toFixed(2).replace(/\.00$/, "");
+  function handlePasteCss(pastedText: string) {
+    // Tailwind bg-[...] classes are read as the CSS they stand for
+    const source = tailwindClassesToCss(pastedText) ?? pastedText;
+    const { layers: parsedLayers, errors } = parseCssGradient(source, {
+      width: previewW,
+      height: previewH,
+    });
+    if (parsedLayers.length > 0) {
+      recordStep({ label: "Import CSS" });
+      setLayers(parsedLayers);
+      setSelectedLayerId(parsedLayers[0].id);
+    }
+    // Gradients that failed to parse are reported next to the import box
+    setImportErrors(errors.length > 0 ? { text: source, errors } : null);
   }
 
-  // Function to parse CSS gradients from pasted text (e.g., from Figma)
-  function parseCssGradient(cssText: string): GradientLayer[] {
-    // Clean up the CSS text and extract background properties
-    const cleanCss = cssText.replace(/\s+/g, " ").trim();
-
-    // Try to extract from background property first
-    const backgroundMatch = cleanCss.match(/background\s*:\s*([^;]+)/i);
-    const gradientText = backgroundMatch ? backgroundMatch[1] : cleanCss;
-
-    const gradientRegex =
-      /(conic-gradient|linear-gradient|radial-gradient)\s*\([^)]+\)/gi;
-    const matches = gradientText.match(gradientRegex);
-
-    if (!matches) return [];
-
-    return matches.map((match, index) => {
-      const type =
-        (match.match(/^(conic|linear|radial)/i)?.[1].toLowerCase() as
-          | "conic"
-          | "linear"
-          | "radial") || "conic";
-
-      // Extract parameters
-      const paramsMatch = match.match(/\(([^)]+)\)/);
-      if (!paramsMatch) return createDefaultLayer(Date.now() + index, type);
-
-      const params = paramsMatch[1];
-
-      // Parse stops - improved regex to handle various color formats
-      const stopRegex =
-        /(#[0-9a-fA-F]{3,8}|rgba?\([^)]+\)|hsla?\([^)]+\))\s*([0-9.-]+(?:deg|%|px)?)?/g;
-      const stops: GradientStop[] = [];
-      let stopMatch;
-      let currentPos = 0;
-
-      while ((stopMatch = stopRegex.exec(params)) !== null) {
-        const color = stopMatch[1];
-        const posStr = stopMatch[2];
-        let pos = currentPos;
-
-        if (posStr) {
-          pos = parseFloat(posStr);
-          // Convert percentage to degrees for conic gradients
-          if (type === "conic" && posStr.includes("%")) {
-            pos = pos * 3.6; // 100% = 360deg
-          } else if (type === "conic" && !posStr.includes("deg")) {
-            // If no unit specified for conic, assume degrees
-            pos = parseFloat(posStr);
-          }
-        }
-
-        stops.push({ color, pos });
-        currentPos = pos + 45; // Default increment for next stop if no position specified
-      }
-
-      // Parse from angle for conic gradients
-      let from = 0;
-      const fromMatch = params.match(/from\s+([0-9.-]+)deg/i);
-      if (fromMatch) {
-        from = parseFloat(fromMatch[1]);
-      }
-
-      // Parse at position
-      let at = { x: 50, y: 50 };
-      const atMatch = params.match(/at\s+([0-9.-]+)%\s+([0-9.-]+)%/i);
-      if (atMatch) {
-        at = { x: parseFloat(atMatch[1]), y: parseFloat(atMatch[2]) };
-      }
+  function handleImportSvg(importedLayers: GradientLayer[]) {
+    recordStep({ label: "Import SVG" });
+    setLayers(importedLayers);
+    setSelectedLayerId(importedLayers[0].id);
+  }
 
-      // Ensure we have at least 2 stops
-      if (stops.length === 0) {
-        stops.push(
-          { color: "#ff0000", pos: 0 },
-          { color: "#0000ff", pos: type === "conic" ? 360 : 100 }
-        );
-      } else if (stops.length === 1) {
-        stops.push({ color: "#0000ff", pos: type === "conic" ? 360 : 100 });
-      }
+  function handleImportPalette(importedLayers: GradientLayer[], name: string) {
+    recordStep({ label: `Palette: ${name}` });
+    setLayers(importedLayers);
+    setSelectedLayerId(importedLayers[0].id);
+    setSelectedStopIndex(0);
+  }
 
-      return {
-        id: Date.now() + index,
-        type,
-        from,
-        at,
-        stops,
-        enabled: true,
-        opacity: 1,
-      };
-    });
+  function handleGenerate(settings: GeneratorSettings) {
+    recordStep({ label: `Generate (seed ${settings.seed})` });
+    const generated = generateLayers(settings, layers);
+    setLayers(generated);
+    setGenerator(settings);
+    if (!generated.some((L) => L.id === selectedLayerId)) {
+      setSelectedLayerId(generated[0].id);
+      setSelectedStopIndex(0);
+    }
   }
 
-  function createDefaultLayer(
-    id: number,
-    type: "conic" | "linear" | "radial"
-  ): GradientLayer {
-    return {
-      id,
-      type,
-      from: 0,
-      at: { x: 50, y: 50 },
-      stops: [
-        { color: "#ff0000", pos: 0 },
-        { color: "#0000ff", pos: 360 },
-      ],
-      enabled: true,
-      opacity: 1,
-    };
+  // Preset layers go below the current stack, renumbered to keep ids unique
+  function appendPresetLayers(presetLayers: GradientLayer[], name: string) {
+    recordStep({ label: `Append "${name}"` });
+    const firstId = Math.max(...layers.map((L) => L.id)) + 1;
+    const appended = presetLayers.map((L, i) => ({ ...L, id: firstId + i }));
+    setLayers([...layers, ...appended]);
+    setSelectedLayerId(appended[0].id);
+    setSelectedStopIndex(0);
   }
 
-  function handlePasteCss(pastedText: string) {
-    const parsedLayers = parseCssGradient(pastedText);
-    if (parsedLayers.length > 0) {
-      setLayers(parsedLayers);
-      setSelectedLayerId(parsedLayers[0].id);
-    } else {
-      alert(
-        "No valid gradients found in the pasted CSS. Please paste CSS containing conic-gradient, linear-gradient, or radial-gradient."
-      );
-    }
+  function openSavedState(state: AppState, name: string) {
+    recordStep({ label: `Open "${name}"` });
+    setLayers(state.layers);
+    setPreviewW(state.previewW);
+    setPreviewH(state.previewH);
+    setSelectedLayerId(state.selectedLayerId);
+    setAnimation(state.animation);
+    setGenerator(state.generator);
+    setSelectedStopIndex(0);
   }
 
   async function copyToClipboard() {
@@ -658,119 +757,73 @@ export default function GradientPlayground() {
     }
   }
 
+  async function copyAnimationToClipboard() {
+    try {
+      await navigator.clipboard.writeText(animationCss ?? "");
+    } catch (e) {
+      console.error(e);
+      alert("Copy failed — please select & copy manually.");
+    }
+  }
+
   const selectedLayer =
     layers.find((l) => l.id === selectedLayerId) || layers[0];
 
-  // Figma-style gradient bar component
-  function GradientBar({ layer }: { layer: GradientLayer }) {
-    const sortedStops = [...layer.stops].sort((a, b) => a.pos - b.pos);
-    const minPos = Math.min(...sortedStops.map((s) => s.pos));
-    const maxPos = Math.max(...sortedStops.map((s) => s.pos));
-    const range = maxPos - minPos || 360;
-
-    const handleBarClick = (e: React.MouseEvent<HTMLDivElement>) => {
-      const rect = e.currentTarget.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const percentage = (x / rect.width) * 100;
-      const newPos = minPos + (percentage / 100) * range;
-
-      // Add new stop at clicked position
-      const newStop = { color: "#ffffff", pos: newPos };
-      const newStops = [...layer.stops, newStop];
-
-      // Update the layer with the new stop
-      updateLayer(layer.id, { stops: newStops });
-
-      // Focus the newly created stop
-      setSelectedStopIndex(newStops.length - 1);
-    };
-
-    const handleStopDrag = (
-      index: number,
-      e: React.MouseEvent<HTMLDivElement>
-    ) => {
-      e.preventDefault();
-      e.stopPropagation();
-      setSelectedStopIndex(index);
-      setIsDraggingStop(true);
-
-      const startX = e.clientX;
-      const barRect = e.currentTarget.parentElement!.getBoundingClientRect();
-      const startPos = layer.stops[index].pos;
-
-      const handleMouseMove = (moveEvent: MouseEvent) => {
-        const deltaX = moveEvent.clientX - startX;
-        const deltaPercentage = (deltaX / barRect.width) * 100;
-        const deltaPos = (deltaPercentage / 100) * range;
-        const newPos = startPos + deltaPos;
-
-        updateStop(layer.id, index, { pos: newPos });
-      };
-
-      const handleMouseUp = () => {
-        setIsDraggingStop(false);
-        document.removeEventListener("mousemove", handleMouseMove);
-        document.removeEventListener("mouseup", handleMouseUp);
-      };
-
-      document.addEventListener("mousemove", handleMouseMove);
-      document.addEventListener("mouseup", handleMouseUp);
-    };
-
-    return (
-      <div
-        className="relative h-8 bg-gray-100 rounded overflow-hidden cursor-crosshair"
-        onClick={handleBarClick}
-      >
-        {/* Gradient preview */}
-        <div
-          className="absolute inset-0 rounded pointer-events-none"
-          style={{
-            background: `${layer.type}-gradient(${
-              layer.from != null ? `from ${layer.from}deg ` : ""
-            }${
-              layer.at ? `at ${layer.at.x}% ${layer.at.y}%` : ""
-            }, ${sortedStops
-              .map((s) => {
-                if (layer.opacity < 1) {
-                  const color = convertToRgba(s.color, layer.opacity);
-                  return `${color} ${formatNumber(s.pos)}deg`;
-                }
-                return `${s.color} ${formatNumber(s.pos)}deg`;
-              })
-              .join(", ")})`,
-          }}
-        />
+  const multiSelectedIds = selectedLayerIds.filter((id) =>
+    layers.some((L) => L.id === id)
+  );
+  const selectedStopIndices =
+    stopSelection?.layerId === selectedLayer.id
+      ? stopSelection.indices.filter((i) => i < selectedLayer.stops.length)
+      : [];
+
+  // Shift-click on the bar; the single selected stop joins the selection
+  function toggleStopSelection(index: number) {
+    const current =
+      selectedStopIndices.length > 0
+        ? selectedStopIndices
+        : [selectedStopIndex];
+    const indices = current.includes(index)
+      ? current.filter((i) => i !== index)
+      : [...current, index];
+    setStopSelection({ layerId: selectedLayer.id, indices });
+    if (indices.includes(index)) setSelectedStopIndex(index);
+  }
 
-        {/* Stop handles */}
-        {layer.stops.map((stop, index) => {
-          const percentage = ((stop.pos - minPos) / range) * 100;
-          return (
-            <div
-              key={index}
-              className="absolute top-0 h-full w-3 cursor-grab active:cursor-grabbing transform -translate-x-1/2 group z-10"
-              style={{ left: `${Math.max(6, Math.min(94, percentage))}%` }}
-              onMouseDown={(e) => handleStopDrag(index, e)}
-            >
-              <div
-                className={`w-3 h-full border-2 rounded-sm shadow-sm transition-colors ${
-                  selectedStopIndex === index
-                    ? "border-blue-500"
-                    : "border-white bg-gray-300"
-                } group-hover:border-blue-400`}
-              >
-                <div
-                  className="w-full h-full rounded-sm"
-                  style={{ backgroundColor: stop.color }}
-                />
-              </div>
-            </div>
-          );
-        })}
-      </div>
-    );
+  function changeStopsInBulk(
+    stops: GradientStop[],
+    step: HistoryStep,
+    reordered: boolean
+  ) {
+    updateLayer(selectedLayer.id, { stops }, step);
+    if (reordered) {
+      setStopSelection(null);
+      setSelectedStopIndex(0);
+    }
   }
 
+  // The preview shows the animation frame under the playhead, if any, and
+  // only the soloed layer while one is soloed
+  const previewLayers = useMemo(() => {
+    const sampledLayers =
+      animation && playhead != null
+        ? sampleLayers(layers, animation, playhead)
+        : layers;
+    const soloLayer = sampledLayers.find((L) => L.id === soloLayerId);
+    return soloLayer ? [{ ...soloLayer, enabled: true }] : sampledLayers;
+  }, [layers, animation, playhead, soloLayerId]);
+  // Checked against what the preview shows, inside its 1px border
+  const contrastReport = useMemo(
+    () =>
+      contrast &&
+      checkContrast(previewLayers, previewW - 2, previewH - 2, contrast),
+    [previewLayers, previewW, previewH, contrast]
+  );
+  const animationCss =
+    animation && liveTracks(layers, animation).length > 0
+      ? generateAnimationCss(layers, animation)
+      : null;
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -781,17 +834,29 @@ export default function GradientPlayground() {
               CSS Gradient Playground
             </h1>
             <div className="text-xs text-gray-500 hidden sm:block">
-              Undo/Redo: Cmd+Z/Cmd+Shift+Z (Mac) or Ctrl+Z/Ctrl+Y (Windows) •
-              Browser back/forward also works
+              Undo/Redo: Cmd+Z/Cmd+Shift+Z (Mac) or Ctrl+Z/Ctrl+Y (Windows)
             </div>
             <div className="flex items-center gap-2">
+              <button
+                className="px-3 py-1.5 text-sm bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 cursor-pointer"
+                onClick={() => setShowPresets(true)}
+              >
+                Presets
+              </button>
               <button
                 className="px-3 py-1.5 text-sm bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 cursor-pointer"
                 onClick={() => {
+                  recordStep({ label: "Reset" });
                   setLayers(DEFAULT_LAYERS);
                   setPreviewW(300);
                   setPreviewH(180);
                   setSelectedLayerId(DEFAULT_LAYERS[0].id);
+                  setAnimation(undefined);
+                  setGenerator(undefined);
+                  setSelectedLayerIds([]);
+                  setSoloLayerId(null);
+                  setPlayhead(null);
+                  setIsPlaying(false);
                 }}
               >
                 Reset
@@ -800,7 +865,16 @@ export default function GradientPlayground() {
                 className="px-3 py-1.5 text-sm text-white bg-[conic-gradient(from_252.02deg_at_54%_278.75%,_#152275_-193.01deg,_#E33B94_18.24deg,_#B61B6D_31.32deg,_#E33B94_55.63deg,_#152275_85.18deg,_#152275_94.34deg,_#144B8C_110.28deg,_#007BA7_130.18deg,_#007BA7_134.69deg,_#152275_166.99deg,_#E33B94_378.24deg),conic-gradient(from_103.86deg_at_-4.6%_50%,_#152275_0deg,_#152275_360deg)] rounded-md cursor-pointer"
                 onClick={async () => {
                   try {
-                    const url = window.location.href;
+                    // Encode now rather than waiting for the debounced hash
+                    const encoded = await encodeShareHash({
+                      layers,
+                      previewW,
+                      previewH,
+                      selectedLayerId,
+                      animation,
+                      generator,
+                    });
+                    const url = `${window.location.origin}${window.location.pathname}#${encoded}`;
                     await navigator.clipboard.writeText(url);
                     alert("Share URL copied to clipboard!");
                   } catch (e) {
@@ -817,6 +891,27 @@ export default function GradientPlayground() {
       </div>
 
       <div className="px-4 pt-4 max-w-7xl mx-auto">
+        {/* Corrupt share link */}
+        {linkError && (
+          <div className="mb-4 p-3 flex items-start justify-between gap-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+            <div>
+              <div className="font-medium">
+                This share link couldn&apos;t be opened
+              </div>
+              <div className="text-xs">
+                {linkError}. The editor kept its current gradient; ask for a
+                fresh link or rebuild it from the exported CSS.
+              </div>
+            </div>
+            <button
+              onClick={() => setLinkError(null)}
+              className="text-xs text-amber-700 hover:text-amber-900 cursor-pointer"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
         {/* Sticky Preview Section */}
         <div
           ref={previewContainerRef}
@@ -830,9 +925,10 @@ export default function GradientPlayground() {
                   type="number"
                   min={1}
                   value={previewW}
-                  onChange={(e) =>
-                    setPreviewW(Math.max(1, Number(e.target.value) || 1))
-                  }
+                  onChange={(e) => {
+                    recordStep({ label: "Resize preview", key: "preview-w" });
+                    setPreviewW(Math.max(1, Number(e.target.value) || 1));
+                  }}
                   className="w-16 px-2 py-1 text-xs border border-gray-300 rounded"
                 />
                 <span className="text-xs text-gray-400">×</span>
@@ -840,9 +936,10 @@ export default function GradientPlayground() {
                   type="number"
                   min={1}
                   value={previewH}
-                  onChange={(e) =>
-                    setPreviewH(Math.max(1, Number(e.target.value) || 1))
-                  }
+                  onChange={(e) => {
+                    recordStep({ label: "Resize preview", key: "preview-h" });
+                    setPreviewH(Math.max(1, Number(e.target.value) || 1));
+                  }}
                   className="w-16 px-2 py-1 text-xs border border-gray-300 rounded"
                 />
                 <span className="text-xs text-gray-500">px</span>
@@ -858,15 +955,12 @@ export default function GradientPlayground() {
                     background: layers
                       .filter((L) => L.enabled)
                       .map((L) => {
-                        const fromPart =
-                          L.from != null ? `from ${L.from}deg ` : "";
-
                         // Calculate the overlay container dimensions (full container minus padding)
                         const overlayContainer = document.querySelector(
                           ".bg-gray-100.p-3.rounded-lg"
                         );
 
-                        let atPart = "at 50% 50%"; // fallback
+                        let at = { x: "50%", y: "50%" }; // fallback
 
                         if (overlayContainer && L.at) {
                           const overlayRect =
@@ -892,58 +986,71 @@ export default function GradientPlayground() {
                           const overlayAtY =
                             (gradientCenterY / overlayHeight) * 100;
 
-                          atPart = `at ${overlayAtX.toFixed(
-                            2
-                          )}% ${overlayAtY.toFixed(2)}%`;
+                          at = {
+                            x: `${overlayAtX.toFixed(2)}%`,
+                            y: `${overlayAtY.toFixed(2)}%`,
+                          };
                         } else if (L.at) {
                           // Fallback: use the original at position if we can't calculate
-                          atPart = `at ${L.at.x}% ${L.at.y}%`;
+                          at = { x: `${L.at.x}%`, y: `${L.at.y}%` };
                         }
 
-                        const stopList = L.stops
-                          .map((s) => {
-                            if (L.opacity < 1) {
-                              const color = convertToRgba(s.color, L.opacity);
-                              return `${color} ${formatNumber(s.pos)}deg`;
-                            }
-                            return `${s.color} ${formatNumber(s.pos)}deg`;
-                          })
-                          .join(", ");
-                        return `${L.type}-gradient(${fromPart}${atPart}, ${stopList})`;
+                        return layerToCss(L, { at });
                       })
                       .join(", "),
+                    backgroundBlendMode: blendModeList(layers)?.join(", "),
                     opacity: 0.7,
                   }}
                 />
               )}
 
               <div
-                className="rounded-lg shadow-inner border border-gray-200 overflow-hidden relative z-20"
+                className="relative z-20"
                 style={{ width: previewW, height: previewH }}
               >
-                <div
-                  className="w-full h-full"
-                  style={{
-                    background: layers
-                      .filter((L) => L.enabled)
-                      .map((L) => {
-                        const fromPart =
-                          L.from != null ? `from ${L.from}deg ` : "";
-                        const atPart = L.at ? `at ${L.at.x}% ${L.at.y}%` : "";
-                        const stopList = L.stops
-                          .map((s) => {
-                            if (L.opacity < 1) {
-                              const color = convertToRgba(s.color, L.opacity);
-                              return `${color} ${formatNumber(s.pos)}deg`;
-                            }
-                            return `${s.color} ${formatNumber(s.pos)}deg`;
-                          })
-                          .join(", ");
-                        return `${L.type}-gradient(${fromPart}${atPart}, ${stopList})`;
-                      })
-                      .join(", "),
-                  }}
-                />
+                <div className="w-full h-full rounded-lg shadow-inner border border-gray-200 overflow-hidden">
+                  <div
+                    className="w-full h-full"
+                    style={{
+                      background: previewLayers
+                        .filter((L) => L.enabled)
+                        .map((L) => layerToCss(L))
+                        .join(", "),
+                      backgroundBlendMode:
+                        blendModeList(previewLayers)?.join(", "),
+                    }}
+                  />
+                </div>
+
+                {/* Contrast check text box and heatmap */}
+                {contrast && (
+                  <ContrastOverlay
+                    settings={contrast}
+                    report={contrastReport}
+                    width={previewW - 2}
+                    height={previewH - 2}
+                    onChangeBox={(box) =>
+                      setContrast((c) => c && { ...c, box })
+                    }
+                  />
+                )}
+
+                {/* Center, angle, radius and stop handles */}
+                {selectedLayer.enabled && !selectedLayer.locked && (
+                  <PreviewHandles
+                    layer={selectedLayer}
+                    width={previewW - 2}
+                    height={previewH - 2}
+                    selectedStopIndex={selectedStopIndex}
+                    onSelectStop={setSelectedStopIndex}
+                    onChangeLayer={(patch, step) =>
+                      updateLayer(selectedLayer.id, patch, step)
+                    }
+                    onChangeStop={(index, patch, step) =>
+                      updateStop(selectedLayer.id, index, patch, step)
+                    }
+                  />
+                )}
               </div>
             </div>
           </div>
@@ -964,15 +1071,13 @@ export default function GradientPlayground() {
             {/* Import */}
             <div className="bg-white rounded-lg shadow">
               <div className="p-3 border-b border-gray-100">
-                <h3 className="text-sm font-medium text-gray-700">
-                  Import CSS
-                </h3>
+                <h3 className="text-sm font-medium text-gray-700">Import</h3>
               </div>
               <div className="p-3">
                 <div className="space-y-3">
                   <textarea
                     id="css-input"
-                    placeholder="Paste CSS gradient here, e.g. from Figma..."
+                    placeholder="Paste a CSS gradient (e.g. from Figma) or Tailwind bg-[...] classes..."
                     rows={3}
                     className="w-full p-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     onPaste={(e) => {
@@ -988,6 +1093,33 @@ export default function GradientPlayground() {
                       }, 10);
                     }}
                   />
+                  {importErrors && (
+                    <div className="p-2 border border-red-200 bg-red-50 rounded text-xs text-red-700 space-y-2">
+                      {importErrors.errors.map((error, i) => {
+                        // Show the text around the failure with a caret under it
+                        const start = Math.max(0, error.offset - 30);
+                        const before = importErrors.text
+                          .slice(start, error.offset)
+                          .replace(/\s/g, " ");
+                        const after = importErrors.text
+                          .slice(error.offset, error.offset + 30)
+                          .replace(/\s/g, " ");
+                        return (
+                          <div key={i}>
+                            <div>
+                              {error.message} (character {error.offset})
+                            </div>
+                            <pre className="mt-1 font-mono text-[11px] text-red-900 overflow-x-auto">
+                              {before}
+                              {after}
+                              {"\n"}
+                              {" ".repeat(before.length)}^
+                            </pre>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
                   <div className="flex justify-end">
                     <button
                       className="px-3 py-1.5 text-sm text-white bg-[conic-gradient(from_252.02deg_at_54%_278.75%,_#152275_-193.01deg,_#E33B94_18.24deg,_#B61B6D_31.32deg,_#E33B94_55.63deg,_#152275_85.18deg,_#152275_94.34deg,_#144B8C_110.28deg,_#007BA7_130.18deg,_#007BA7_134.69deg,_#152275_166.99deg,_#E33B94_378.24deg),conic-gradient(from_103.86deg_at_-4.6%_50%,_#152275_0deg,_#152275_360deg)] rounded-md cursor-pointer"
@@ -1004,9 +1136,20 @@ export default function GradientPlayground() {
                         }
                       }}
                     >
-                      Import
+                      Import CSS
                     </button>
                   </div>
+                  <SvgImportControls
+                    previewW={previewW}
+                    previewH={previewH}
+                    onImport={handleImportSvg}
+                  />
+                  <TokenImportControls
+                    previewW={previewW}
+                    previewH={previewH}
+                    onOpen={openSavedState}
+                  />
+                  <PaletteImportControls onImport={handleImportPalette} />
                 </div>
               </div>
             </div>
@@ -1014,9 +1157,17 @@ export default function GradientPlayground() {
             {/* Export */}
             <div className="bg-white rounded-lg shadow">
               <div className="p-3 border-b border-gray-100">
-                <h3 className="text-sm font-medium text-gray-700">
-                  Export Code
-                </h3>
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-medium text-gray-700">
+                    Export Code
+                  </h3>
+                  <button
+                    onClick={() => setShowImageExport(true)}
+                    className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+                  >
+                    Export image…
+                  </button>
+                </div>
               </div>
               <div className="p-3 space-y-3">
                 {/* CSS */}
@@ -1043,9 +1194,34 @@ export default function GradientPlayground() {
                 {/* Tailwind */}
                 <div>
                   <div className="flex items-center justify-between mb-1">
-                    <label className="text-xs font-medium text-gray-600">
-                      Tailwind CSS
-                    </label>
+                    <div className="flex items-center gap-2">
+                      <label className="text-xs font-medium text-gray-600">
+                        Tailwind CSS
+                      </label>
+                      <select
+                        value={tailwindFormat}
+                        onChange={(e) =>
+                          setTailwindFormat(e.target.value as TailwindFormat)
+                        }
+                        className="px-1 py-0.5 text-xs border border-gray-300 rounded"
+                      >
+                        {TAILWIND_FORMATS.map((f) => (
+                          <option key={f.value} value={f.value}>
+                            {f.label}
+                          </option>
+                        ))}
+                      </select>
+                      {tailwindFormat !== "class" && (
+                        <input
+                          type="text"
+                          value={tailwindName}
+                          onChange={(e) => setTailwindName(e.target.value)}
+                          placeholder="Utility name"
+                          title={`Utility: bg-${tokenSlug(tailwindName)}`}
+                          className="w-24 px-1 py-0.5 text-xs border border-gray-300 rounded"
+                        />
+                      )}
+                    </div>
                     <button
                       onClick={copyTailwindToClipboard}
                       className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
@@ -1056,10 +1232,62 @@ export default function GradientPlayground() {
                   <textarea
                     readOnly
                     value={tailwindText}
-                    rows={2}
+                    rows={tailwindFormat === "class" ? 2 : 6}
                     className="w-full p-2 border border-gray-300 rounded font-mono text-xs bg-gray-50"
                   />
                 </div>
+
+                {/* Animated CSS */}
+                {animationCss && (
+                  <div>
+                    <div className="flex items-center justify-between mb-1">
+                      <label className="text-xs font-medium text-gray-600">
+                        Animated CSS
+                      </label>
+                      <button
+                        onClick={copyAnimationToClipboard}
+                        className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+                      >
+                        Copy
+                      </button>
+                    </div>
+                    <textarea
+                      readOnly
+                      value={animationCss}
+                      rows={6}
+                      className="w-full p-2 border border-gray-300 rounded font-mono text-xs bg-gray-50"
+                    />
+                  </div>
+                )}
+
+                {/* SwiftUI, Compose, Flutter */}
+                <NativeExportControls
+                  layers={layers}
+                  previewW={previewW}
+                  previewH={previewH}
+                />
+
+                {/* GLSL, WGSL */}
+                <ShaderExportControls layers={layers} previewW={previewW} />
+
+                {/* Design tokens */}
+                <TokenExportControls
+                  state={{
+                    layers,
+                    previewW,
+                    previewH,
+                    selectedLayerId,
+                    animation,
+                    generator,
+                  }}
+                />
+
+                {/* SVG */}
+                <SvgExportControls
+                  layers={layers}
+                  previewW={previewW}
+                  previewH={previewH}
+                />
               </div>
             </div>
           </div>
@@ -1078,16 +1306,115 @@ export default function GradientPlayground() {
               </div>
             </div>
             <div className="p-3 space-y-2">
+              {multiSelectedIds.length > 1 && (
+                <div className="flex items-center justify-between gap-2 px-2 py-1 text-xs bg-gray-50 border border-gray-200 rounded">
+                  <span className="text-gray-600">
+                    {multiSelectedIds.length} layers selected
+                  </span>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={() => setLayersEnabled(multiSelectedIds, true)}
+                      className="text-blue-600 hover:text-blue-700 cursor-pointer"
+                    >
+                      Show
+                    </button>
+                    <button
+                      onClick={() => setLayersEnabled(multiSelectedIds, false)}
+                      className="text-blue-600 hover:text-blue-700 cursor-pointer"
+                    >
+                      Hide
+                    </button>
+                    <button
+                      onClick={() => removeLayers(multiSelectedIds)}
+                      className="text-red-600 hover:text-red-700 cursor-pointer"
+                      title="Locked layers are kept"
+                    >
+                      Delete
+                    </button>
+                    <button
+                      onClick={() => setSelectedLayerIds([])}
+                      className="text-gray-500 hover:text-gray-700 cursor-pointer"
+                    >
+                      Clear
+                    </button>
+                  </div>
+                </div>
+              )}
               {layers.map((layer, index) => (
                 <div
                   key={layer.id}
-                  className={`flex items-center gap-3 p-2 rounded border cursor-pointer transition-colors ${
+                  data-layer-row
+                  className={`relative flex items-center gap-3 p-2 rounded border cursor-pointer transition-colors ${
                     selectedLayerId === layer.id
                       ? "border-blue-300 bg-blue-50"
-                      : "border-gray-200 hover:border-gray-300"
-                  }`}
-                  onClick={() => setSelectedLayerId(layer.id)}
+                      : multiSelectedIds.includes(layer.id)
+                        ? "border-blue-200 bg-blue-50/50"
+                        : "border-gray-200 hover:border-gray-300"
+                  } ${draggedLayerId === layer.id ? "opacity-50" : ""}`}
+                  onClick={(e) => selectLayer(layer.id, e)}
+                  title="Shift/Cmd-click to select several layers"
+                  onDragOver={(e) => {
+                    if (draggedLayerId == null) return;
+                    e.preventDefault();
+                    const rect = e.currentTarget.getBoundingClientRect();
+                    setDropTarget({
+                      id: layer.id,
+                      after: e.clientY > rect.top + rect.height / 2,
+                    });
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    if (draggedLayerId != null && dropTarget) {
+                      moveLayer(
+                        draggedLayerId,
+                        dropTarget.id,
+                        dropTarget.after
+                      );
+                    }
+                    setDraggedLayerId(null);
+                    setDropTarget(null);
+                  }}
                 >
+                  {/* Drop indicator */}
+                  {dropTarget?.id === layer.id &&
+                    draggedLayerId !== layer.id && (
+                      <div
+                        className={`absolute left-0 right-0 h-0.5 bg-blue-500 pointer-events-none ${
+                          dropTarget.after ? "-bottom-[5px]" : "-top-[5px]"
+                        }`}
+                      />
+                    )}
+
+                  {/* Drag handle; the whole row is the drag image */}
+                  <div
+                    draggable
+                    onDragStart={(e) => {
+                      const row = e.currentTarget.closest("[data-layer-row]");
+                      if (row) e.dataTransfer.setDragImage(row, 0, 0);
+                      e.dataTransfer.effectAllowed = "move";
+                      setDraggedLayerId(layer.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedLayerId(null);
+                      setDropTarget(null);
+                    }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="text-gray-300 hover:text-gray-500 cursor-grab active:cursor-grabbing"
+                    title="Drag to reorder"
+                  >
+                    <svg
+                      className="w-2 h-4"
+                      fill="currentColor"
+                      viewBox="0 0 8 16"
+                    >
+                      <circle cx="2" cy="3" r="1.2" />
+                      <circle cx="6" cy="3" r="1.2" />
+                      <circle cx="2" cy="8" r="1.2" />
+                      <circle cx="6" cy="8" r="1.2" />
+                      <circle cx="2" cy="13" r="1.2" />
+                      <circle cx="6" cy="13" r="1.2" />
+                    </svg>
+                  </div>
                   <input
                     type="checkbox"
                     checked={layer.enabled}
@@ -1100,34 +1427,71 @@ export default function GradientPlayground() {
                   <div
                     className="w-12 h-6 rounded border border-gray-300"
                     style={{
-                      background: `${layer.type}-gradient(${
-                        layer.from != null ? `from ${layer.from}deg ` : ""
-                      }${
-                        layer.at ? `at ${layer.at.x}% ${layer.at.y}%` : ""
-                      }, ${layer.stops
-                        .map((s) => {
-                          if (layer.opacity < 1) {
-                            const color = convertToRgba(s.color, layer.opacity);
-                            return `${color} ${formatNumber(s.pos)}deg`;
-                          }
-                          return `${s.color} ${formatNumber(s.pos)}deg`;
-                        })
-                        .join(", ")})`,
+                      background: layerToCss(layer),
                     }}
                   />
-                  <div className="flex-1">
-                    <div className="text-sm font-medium text-gray-900">
-                      {layer.type.charAt(0).toUpperCase() + layer.type.slice(1)}{" "}
-                      Gradient
-                    </div>
+                  <div className="flex-1 min-w-0">
+                    {renamingLayerId === layer.id ? (
+                      <input
+                        type="text"
+                        autoFocus
+                        value={renameText}
+                        placeholder={`${gradientLabel(layer)} Gradient`}
+                        onChange={(e) => setRenameText(e.target.value)}
+                        onBlur={() => commitRename(layer.id)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") commitRename(layer.id);
+                          if (e.key === "Escape") setRenamingLayerId(null);
+                        }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="w-full px-1 py-0.5 text-sm border border-gray-300 rounded"
+                      />
+                    ) : (
+                      <div
+                        className="text-sm font-medium text-gray-900 truncate"
+                        title="Double-click to rename"
+                        onDoubleClick={(e) => {
+                          e.stopPropagation();
+                          setRenamingLayerId(layer.id);
+                          setRenameText(layer.name ?? "");
+                        }}
+                      >
+                        {layerName(layer)}
+                      </div>
+                    )}
                     <div className="text-xs text-gray-500">
+                      {layer.name && `${gradientLabel(layer)} • `}
                       {layer.stops.length} stops •{" "}
                       {Math.round(layer.opacity * 100)}% opacity
+                      {layer.blendMode &&
+                        layer.blendMode !== "normal" &&
+                        ` • ${layer.blendMode}`}
                     </div>
                   </div>
 
                   {/* Layer Controls */}
                   <div className="flex items-center gap-1">
+                    {/* Blend Mode */}
+                    <select
+                      value={layer.blendMode ?? "normal"}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={(e) => {
+                        e.stopPropagation();
+                        const mode = e.target.value as BlendMode;
+                        updateLayer(layer.id, {
+                          blendMode: mode === "normal" ? undefined : mode,
+                        });
+                      }}
+                      className="w-24 px-1 py-0.5 text-xs border border-gray-300 rounded"
+                      title="Blend mode"
+                    >
+                      {BLEND_MODES.map((mode) => (
+                        <option key={mode} value={mode}>
+                          {mode}
+                        </option>
+                      ))}
+                    </select>
+
                     {/* Opacity Control */}
                     <div className="flex items-center gap-1">
                       <input
@@ -1164,6 +1528,92 @@ export default function GradientPlayground() {
                       <span className="text-xs text-gray-500">%</span>
                     </div>
 
+                    {/* Solo in the preview */}
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setSoloLayerId(
+                          soloLayerId === layer.id ? null : layer.id
+                        );
+                      }}
+                      className={`px-1 text-[10px] font-semibold rounded cursor-pointer ${
+                        soloLayerId === layer.id
+                          ? "bg-amber-400 text-white"
+                          : "text-gray-400 hover:text-gray-600"
+                      }`}
+                      title={
+                        soloLayerId === layer.id
+                          ? "Show all layers"
+                          : "Show only this layer in the preview"
+                      }
+                      aria-pressed={soloLayerId === layer.id}
+                    >
+                      S
+                    </button>
+
+                    {/* Lock against edits and re-rolls */}
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        updateLayer(layer.id, {
+                          locked: layer.locked ? undefined : true,
+                        });
+                      }}
+                      className={`p-1 cursor-pointer ${
+                        layer.locked
+                          ? "text-blue-600 hover:text-blue-700"
+                          : "text-gray-400 hover:text-gray-600"
+                      }`}
+                      title={
+                        layer.locked
+                          ? "Unlock layer"
+                          : "Lock layer against edits and re-rolls"
+                      }
+                      aria-pressed={Boolean(layer.locked)}
+                    >
+                      <svg
+                        className="w-3 h-3"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d={
+                            layer.locked
+                              ? "M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+                              : "M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z"
+                          }
+                        />
+                      </svg>
+                    </button>
+
+                    {/* Duplicate Button */}
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        duplicateLayer(layer.id);
+                      }}
+                      className="p-1 text-gray-400 hover:text-gray-600 cursor-pointer"
+                      title="Duplicate layer"
+                    >
+                      <svg
+                        className="w-3 h-3"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+                        />
+                      </svg>
+                    </button>
+
                     {/* Reorder Buttons */}
                     <button
                       onClick={(e) => {
@@ -1218,8 +1668,9 @@ export default function GradientPlayground() {
                         e.stopPropagation();
                         removeLayer(layer.id);
                       }}
-                      className="p-1 text-gray-400 hover:text-red-500 cursor-pointer"
-                      title="Delete layer"
+                      disabled={layer.locked}
+                      className="p-1 text-gray-400 hover:text-red-500 cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+                      title={layer.locked ? "Unlock to delete" : "Delete layer"}
                     >
                       <svg
                         className="w-4 h-4"
@@ -1245,15 +1696,28 @@ export default function GradientPlayground() {
           {selectedLayer && (
             <div className="bg-white rounded-lg shadow">
               <div className="p-3 border-b border-gray-100">
-                <h3 className="text-sm font-medium text-gray-700">
-                  Edit{" "}
-                  {selectedLayer.type.charAt(0).toUpperCase() +
-                    selectedLayer.type.slice(1)}{" "}
-                  Gradient
-                </h3>
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-medium text-gray-700 truncate">
+                    Edit {layerName(selectedLayer)}
+                  </h3>
+                  {selectedLayer.locked && (
+                    <button
+                      onClick={() =>
+                        updateLayer(selectedLayer.id, { locked: undefined })
+                      }
+                      className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer shrink-0"
+                    >
+                      Locked · Unlock
+                    </button>
+                  )}
+                </div>
               </div>
 
-              <div className="p-3 space-y-4">
+              {/* A locked layer's controls are shown but can't be used */}
+              <fieldset
+                disabled={selectedLayer.locked}
+                className="p-3 space-y-4 disabled:opacity-60 disabled:pointer-events-none"
+              >
                 {/* Gradient Controls */}
                 <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
                   <div>
@@ -1261,70 +1725,253 @@ export default function GradientPlayground() {
                       Type
                     </label>
                     <select
-                      value={selectedLayer.type}
-                      onChange={(e) =>
+                      value={`${selectedLayer.repeating ? "repeating-" : ""}${
+                        selectedLayer.type
+                      }`}
+                      onChange={(e) => {
+                        const repeating =
+                          e.target.value.startsWith("repeating-");
+                        const type = e.target.value.replace(
+                          "repeating-",
+                          ""
+                        ) as GradientType;
                         updateLayer(selectedLayer.id, {
-                          type: e.target.value as "conic" | "linear" | "radial",
-                        })
-                      }
+                          type,
+                          repeating,
+                          stops: convertStopsForType(
+                            selectedLayer.stops,
+                            selectedLayer.type,
+                            type
+                          ),
+                        });
+                      }}
                       className="w-full p-1.5 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     >
                       <option value="linear">Linear</option>
                       <option value="radial">Radial</option>
                       <option value="conic">Conic</option>
+                      <option value="repeating-linear">Repeating Linear</option>
+                      <option value="repeating-radial">Repeating Radial</option>
+                      <option value="repeating-conic">Repeating Conic</option>
                     </select>
                   </div>
+                  {usesAngle(selectedLayer.type) && (
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">
+                        Angle (°)
+                      </label>
+                      <input
+                        type="number"
+                        value={selectedLayer.from}
+                        onChange={(e) =>
+                          updateLayer(selectedLayer.id, {
+                            from: Number(e.target.value),
+                          })
+                        }
+                        className="w-full p-1.5 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                  )}
+                  {usesPosition(selectedLayer.type) && (
+                    <>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">
+                          Position X (%)
+                        </label>
+                        <input
+                          type="number"
+                          value={selectedLayer.at.x}
+                          onChange={(e) =>
+                            updateLayer(selectedLayer.id, {
+                              at: {
+                                ...selectedLayer.at,
+                                x: Number(e.target.value),
+                              },
+                            })
+                          }
+                          className="w-full p-1.5 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">
+                          Position Y (%)
+                        </label>
+                        <input
+                          type="number"
+                          value={selectedLayer.at.y}
+                          onChange={(e) =>
+                            updateLayer(selectedLayer.id, {
+                              at: {
+                                ...selectedLayer.at,
+                                y: Number(e.target.value),
+                              },
+                            })
+                          }
+                          className="w-full p-1.5 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                    </>
+                  )}
+                  {selectedLayer.type === "radial" && (
+                    <>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">
+                          Shape
+                        </label>
+                        <select
+                          value={selectedLayer.shape ?? "ellipse"}
+                          onChange={(e) =>
+                            updateLayer(selectedLayer.id, {
+                              shape: e.target.value as RadialShape,
+                            })
+                          }
+                          className="w-full p-1.5 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          <option value="ellipse">Ellipse</option>
+                          <option value="circle">Circle</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">
+                          Size
+                        </label>
+                        <select
+                          value={
+                            selectedLayer.size?.kind === "length"
+                              ? "length"
+                              : (selectedLayer.size?.extent ??
+                                "farthest-corner")
+                          }
+                          onChange={(e) => {
+                            if (e.target.value === "length") {
+                              // Start from the radii the keyword resolves to
+                              const radii = radialRadii(
+                                selectedLayer,
+                                previewW,
+                                previewH
+                              );
+                              updateLayer(selectedLayer.id, {
+                                size: {
+                                  kind: "length",
+                                  x: Math.round(radii.x),
+                                  y: Math.round(radii.y),
+                                },
+                              });
+                            } else {
+                              updateLayer(selectedLayer.id, {
+                                size: {
+                                  kind: "extent",
+                                  extent: e.target.value as RadialExtent,
+                                },
+                              });
+                            }
+                          }}
+                          className="w-full p-1.5 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          {RADIAL_EXTENTS.map((extent) => (
+                            <option key={extent} value={extent}>
+                              {extent}
+                            </option>
+                          ))}
+                          <option value="length">Custom radius</option>
+                        </select>
+                      </div>
+                      {selectedLayer.size?.kind === "length" && (
+                        <>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-700 mb-1">
+                              {selectedLayer.shape === "circle"
+                                ? "Radius (px)"
+                                : "Radius X (px)"}
+                            </label>
+                            <input
+                              type="number"
+                              min={0}
+                              value={selectedLayer.size.x}
+                              onChange={(e) =>
+                                selectedLayer.size?.kind === "length" &&
+                                updateLayer(selectedLayer.id, {
+                                  size: {
+                                    ...selectedLayer.size,
+                                    x: Math.max(0, Number(e.target.value)),
+                                  },
+                                })
+                              }
+                              className="w-full p-1.5 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                          </div>
+                          {selectedLayer.shape !== "circle" && (
+                            <div>
+                              <label className="block text-xs font-medium text-gray-700 mb-1">
+                                Radius Y (px)
+                              </label>
+                              <input
+                                type="number"
+                                min={0}
+                                value={selectedLayer.size.y}
+                                onChange={(e) =>
+                                  selectedLayer.size?.kind === "length" &&
+                                  updateLayer(selectedLayer.id, {
+                                    size: {
+                                      ...selectedLayer.size,
+                                      y: Math.max(0, Number(e.target.value)),
+                                    },
+                                  })
+                                }
+                                className="w-full p-1.5 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                          )}
+                        </>
+                      )}
+                    </>
+                  )}
                   <div>
                     <label className="block text-xs font-medium text-gray-700 mb-1">
-                      Angle (°)
-                    </label>
-                    <input
-                      type="number"
-                      value={selectedLayer.from}
-                      onChange={(e) =>
-                        updateLayer(selectedLayer.id, {
-                          from: Number(e.target.value),
-                        })
-                      }
-                      className="w-full p-1.5 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-gray-700 mb-1">
-                      Position X (%)
-                    </label>
-                    <input
-                      type="number"
-                      value={selectedLayer.at.x}
-                      onChange={(e) =>
-                        updateLayer(selectedLayer.id, {
-                          at: {
-                            ...selectedLayer.at,
-                            x: Number(e.target.value),
-                          },
-                        })
-                      }
-                      className="w-full p-1.5 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-gray-700 mb-1">
-                      Position Y (%)
+                      Interpolation
                     </label>
-                    <input
-                      type="number"
-                      value={selectedLayer.at.y}
+                    <select
+                      value={selectedLayer.colorSpace ?? ""}
                       onChange={(e) =>
                         updateLayer(selectedLayer.id, {
-                          at: {
-                            ...selectedLayer.at,
-                            y: Number(e.target.value),
-                          },
+                          colorSpace:
+                            (e.target.value as InterpolationSpace) || undefined,
                         })
                       }
                       className="w-full p-1.5 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    />
+                    >
+                      <option value="">Default (sRGB)</option>
+                      {INTERPOLATION_SPACES.map((space) => (
+                        <option key={space} value={space}>
+                          {space}
+                        </option>
+                      ))}
+                    </select>
                   </div>
+                  {selectedLayer.colorSpace &&
+                    isPolarSpace(selectedLayer.colorSpace) && (
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">
+                          Hue
+                        </label>
+                        <select
+                          value={selectedLayer.hueInterpolation ?? "shorter"}
+                          onChange={(e) =>
+                            updateLayer(selectedLayer.id, {
+                              hueInterpolation: e.target
+                                .value as HueInterpolation,
+                            })
+                          }
+                          className="w-full p-1.5 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          {HUE_INTERPOLATIONS.map((hue) => (
+                            <option key={hue} value={hue}>
+                              {hue} hue
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
                   <div>
                     <label className="block text-xs font-medium text-gray-700 mb-1">
                       Opacity (%)
@@ -1359,7 +2006,28 @@ export default function GradientPlayground() {
                       Add
                     </button>
                   </div>
-                  <GradientBar layer={selectedLayer} />
+                  <GradientBar
+                    layer={selectedLayer}
+                    selectedStopIndex={selectedStopIndex}
+                    selectedStopIndices={selectedStopIndices}
+                    onSelectStop={(index) => {
+                      setSelectedStopIndex(index);
+                      setStopSelection(null);
+                    }}
+                    onToggleStop={toggleStopSelection}
+                    onChangeStop={(index, patch, step) =>
+                      updateStop(selectedLayer.id, index, patch, step)
+                    }
+                    onChangeStops={(stops, step) =>
+                      updateLayer(selectedLayer.id, { stops }, step)
+                    }
+                    onDragChange={setIsDraggingStop}
+                  />
+                  <StopTools
+                    layer={selectedLayer}
+                    selectedIndices={selectedStopIndices}
+                    onChangeStops={changeStopsInBulk}
+                  />
                 </div>
 
                 {/* Selected Stop Controls */}
@@ -1383,31 +2051,20 @@ export default function GradientPlayground() {
                               onChange={(e) => {
                                 const currentColor =
                                   selectedLayer.stops[selectedStopIndex].color;
-                                const alpha = getColorAlpha(currentColor);
-
-                                // If alpha is less than 1, convert to rgba
-                                if (alpha < 1) {
-                                  const hex = e.target.value;
-                                  const r = parseInt(hex.slice(1, 3), 16);
-                                  const g = parseInt(hex.slice(3, 5), 16);
-                                  const b = parseInt(hex.slice(5, 7), 16);
-                                  const newColor = `rgba(${r}, ${g}, ${b}, ${alpha})`;
-                                  updateStop(
-                                    selectedLayer.id,
-                                    selectedStopIndex,
-                                    {
-                                      color: newColor,
-                                    }
-                                  );
-                                } else {
-                                  updateStop(
-                                    selectedLayer.id,
-                                    selectedStopIndex,
-                                    {
-                                      color: e.target.value,
-                                    }
-                                  );
-                                }
+                                const picked = parseColor(e.target.value)!;
+
+                                // Keep the stop's notation and alpha
+                                const newColor = formatColor(
+                                  { ...picked, a: getColorAlpha(currentColor) },
+                                  colorFormat(currentColor) ?? "hex"
+                                );
+                                updateStop(
+                                  selectedLayer.id,
+                                  selectedStopIndex,
+                                  {
+                                    color: newColor,
+                                  }
+                                );
                               }}
                               className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
                             />
@@ -1426,7 +2083,7 @@ export default function GradientPlayground() {
                                 )
                               }
                               className="flex-1 p-1.5 border border-gray-300 rounded text-xs font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                              placeholder="e.g. #ff0000, rgba(255,0,0,0.5)"
+                              placeholder="e.g. #ff0000, oklch(0.7 0.15 30)"
                             />
                           </div>
 
@@ -1448,16 +2105,10 @@ export default function GradientPlayground() {
                                   selectedLayer.stops[selectedStopIndex].color;
                                 const alpha = parseFloat(e.target.value);
 
-                                // Convert to rgba format
-                                const hex = colorToHex(currentColor);
-                                const r = parseInt(hex.slice(1, 3), 16);
-                                const g = parseInt(hex.slice(3, 5), 16);
-                                const b = parseInt(hex.slice(5, 7), 16);
-
-                                const newColor =
-                                  alpha === 1
-                                    ? hex
-                                    : `rgba(${r}, ${g}, ${b}, ${alpha})`;
+                                const newColor = setColorAlpha(
+                                  currentColor,
+                                  alpha
+                                );
                                 updateStop(
                                   selectedLayer.id,
                                   selectedStopIndex,
@@ -1486,16 +2137,10 @@ export default function GradientPlayground() {
                                     Math.min(100, Number(e.target.value) || 0)
                                   ) / 100;
 
-                                // Convert to rgba format
-                                const hex = colorToHex(currentColor);
-                                const r = parseInt(hex.slice(1, 3), 16);
-                                const g = parseInt(hex.slice(3, 5), 16);
-                                const b = parseInt(hex.slice(5, 7), 16);
-
-                                const newColor =
-                                  alpha === 1
-                                    ? hex
-                                    : `rgba(${r}, ${g}, ${b}, ${alpha})`;
+                                const newColor = setColorAlpha(
+                                  currentColor,
+                                  alpha
+                                );
                                 updateStop(
                                   selectedLayer.id,
                                   selectedStopIndex,
@@ -1508,11 +2153,57 @@ export default function GradientPlayground() {
                             />
                             <span className="text-xs text-gray-500">%</span>
                           </div>
+
+                          {/* Rewrite the stop color in another notation */}
+                          <div className="flex items-center gap-2">
+                            <label className="text-xs text-gray-600 w-12">
+                              Format:
+                            </label>
+                            <select
+                              value={
+                                colorFormat(
+                                  selectedLayer.stops[selectedStopIndex].color
+                                ) ?? ""
+                              }
+                              disabled={
+                                !parseColor(
+                                  selectedLayer.stops[selectedStopIndex].color
+                                )
+                              }
+                              onChange={(e) => {
+                                const parsed = parseColor(
+                                  selectedLayer.stops[selectedStopIndex].color
+                                );
+                                if (!parsed) return;
+                                updateStop(
+                                  selectedLayer.id,
+                                  selectedStopIndex,
+                                  {
+                                    color: formatColor(
+                                      parsed,
+                                      e.target.value as ColorFormat
+                                    ),
+                                  }
+                                );
+                              }}
+                              className="flex-1 p-1 border border-gray-300 rounded text-xs disabled:opacity-50"
+                            >
+                              <option value="" disabled>
+                                Keyword
+                              </option>
+                              {COLOR_FORMATS.map((format) => (
+                                <option key={format} value={format}>
+                                  {format}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
                         </div>
                       </div>
                       <div>
                         <label className="block text-xs font-medium text-gray-700 mb-1">
-                          Position (°)
+                          Position (
+                          {stopUnit(selectedLayer.type) === "deg" ? "°" : "%"})
                         </label>
                         <input
                           type="number"
@@ -1525,13 +2216,87 @@ export default function GradientPlayground() {
                           className="w-full p-1.5 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                           step="0.1"
                         />
+
+                        {/* Double-position stop for hard edges */}
+                        <label className="flex items-center gap-2 mt-2 text-xs text-gray-600">
+                          <input
+                            type="checkbox"
+                            checked={
+                              selectedLayer.stops[selectedStopIndex].pos2 !=
+                              null
+                            }
+                            onChange={(e) => {
+                              const stop =
+                                selectedLayer.stops[selectedStopIndex];
+                              updateStop(selectedLayer.id, selectedStopIndex, {
+                                pos2: e.target.checked
+                                  ? stop.pos +
+                                    stopRange(selectedLayer.type) / 10
+                                  : undefined,
+                              });
+                            }}
+                            className="rounded"
+                          />
+                          Split (second position)
+                        </label>
+                        {selectedLayer.stops[selectedStopIndex].pos2 !=
+                          null && (
+                          <input
+                            type="number"
+                            value={selectedLayer.stops[selectedStopIndex].pos2}
+                            onChange={(e) =>
+                              updateStop(selectedLayer.id, selectedStopIndex, {
+                                pos2: Number(e.target.value),
+                              })
+                            }
+                            className="w-full mt-1 p-1.5 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            step="0.1"
+                          />
+                        )}
+
+                        {/* Transition hint towards the next stop */}
+                        {selectedStopIndex < selectedLayer.stops.length - 1 && (
+                          <div className="flex items-center gap-2 mt-2">
+                            <label className="text-xs text-gray-600 shrink-0">
+                              Hint:
+                            </label>
+                            <input
+                              type="number"
+                              value={
+                                selectedLayer.stops[selectedStopIndex].hint ??
+                                ""
+                              }
+                              placeholder="midpoint"
+                              onChange={(e) =>
+                                updateStop(
+                                  selectedLayer.id,
+                                  selectedStopIndex,
+                                  {
+                                    hint:
+                                      e.target.value === ""
+                                        ? undefined
+                                        : Number(e.target.value),
+                                  }
+                                )
+                              }
+                              className="w-full p-1 border border-gray-300 rounded text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              step="0.1"
+                            />
+                          </div>
+                        )}
                       </div>
                       <div className="flex items-end">
                         <button
                           onClick={() =>
                             removeStop(selectedLayer.id, selectedStopIndex)
                           }
-                          className="w-full px-2 py-1.5 text-xs border border-red-300 text-red-600 rounded hover:bg-red-50 cursor-pointer"
+                          disabled={selectedLayer.stops.length <= 2}
+                          className="w-full px-2 py-1.5 text-xs border border-red-300 text-red-600 rounded hover:bg-red-50 cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+                          title={
+                            selectedLayer.stops.length <= 2
+                              ? "A gradient needs at least two stops"
+                              : undefined
+                          }
                         >
                           Remove Stop
                         </button>
@@ -1539,11 +2304,99 @@ export default function GradientPlayground() {
                     </div>
                   </div>
                 )}
-              </div>
+              </fieldset>
             </div>
           )}
+
+          {/* Contrast Panel */}
+          <ContrastPanel
+            settings={contrast}
+            report={contrastReport}
+            onToggle={() =>
+              setContrast(
+                contrast
+                  ? null
+                  : defaultContrastSettings(previewW - 2, previewH - 2)
+              )
+            }
+            onChange={(patch) =>
+              contrast && setContrast({ ...contrast, ...patch })
+            }
+          />
+
+          {/* Generator Panel; remounted with the stored settings whenever
+              they change (generate, undo, open) so its draft follows them */}
+          <GeneratorPanel
+            key={JSON.stringify(generator ?? null)}
+            settings={generator ?? DEFAULT_GENERATOR}
+            lockedCount={layers.filter((L) => L.locked).length}
+            onGenerate={handleGenerate}
+          />
+
+          {/* Animation Panel */}
+          <AnimationPanel
+            layers={layers}
+            selectedLayer={selectedLayer}
+            selectedStopIndex={selectedStopIndex}
+            animation={animation ?? DEFAULT_ANIMATION}
+            onChange={(next, step) => {
+              recordStep(step);
+              setAnimation(next);
+            }}
+            playhead={playhead}
+            isPlaying={isPlaying}
+            onPlayheadChange={setPlayhead}
+            onPlayingChange={setIsPlaying}
+          />
+
+          {/* Library Panel */}
+          <LibraryPanel
+            state={{
+              layers,
+              previewW,
+              previewH,
+              selectedLayerId,
+              animation,
+              generator,
+            }}
+            onOpen={openSavedState}
+          />
+
+          {/* History Panel */}
+          {history && (
+            <HistoryPanel
+              entries={history.entries}
+              index={history.index}
+              canUndo={canUndo(history)}
+              canRedo={canRedo(history)}
+              onJump={goToHistory}
+            />
+          )}
         </div>
       </div>
+
+      {showImageExport && (
+        <ExportImageDialog
+          layers={layers}
+          previewW={previewW}
+          previewH={previewH}
+          onClose={() => setShowImageExport(false)}
+        />
+      )}
+
+      {showPresets && (
+        <PresetGallery
+          onApply={(state, name) => {
+            openSavedState(state, name);
+            setShowPresets(false);
+          }}
+          onAppend={(presetLayers, name) => {
+            appendPresetLayers(presetLayers, name);
+            setShowPresets(false);
+          }}
+          onClose={() => setShowPresets(false)}
+        />
+      )}
     </div>
   );
 }
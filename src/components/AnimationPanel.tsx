@@ -0,0 +1,461 @@
+"use client";
+
+import { useState } from "react";
+
+import {
+  animatableProperties,
+  animationOffset,
+  liveTracks,
+  propertyLabel,
+  propertyUnit,
+  readProperty,
+  setKeyframe,
+  sortedKeyframes,
+  trackLabel,
+  trackValueAt,
+} from "@/lib/animation";
+import { colorToHex } from "@/lib/color";
+import {
+  AnimatableProperty,
+  AnimationTrack,
+  EASINGS,
+  Easing,
+  GradientAnimation,
+  GradientLayer,
+  Keyframe,
+} from "@/lib/gradient";
+import { HistoryStep } from "@/lib/history";
+
+interface AnimationPanelProps {
+  layers: GradientLayer[];
+  selectedLayer: GradientLayer;
+  selectedStopIndex: number;
+  animation: GradientAnimation;
+  onChange: (animation: GradientAnimation, step: HistoryStep) => void;
+  // Seconds into the animation, or null when the preview shows the layers
+  playhead: number | null;
+  isPlaying: boolean;
+  onPlayheadChange: (time: number | null) => void;
+  onPlayingChange: (isPlaying: boolean) => void;
+}
+
+// "stop:color" / "layer:from" option values for the add-track menu
+function targetKey(property: AnimatableProperty, isStop: boolean): string {
+  return `${isStop ? "stop" : "layer"}:${property}`;
+}
+
+// Keyframe timeline: tracks of keyframed properties with easing, playback
+// and scrubbing of the preview
+export default function AnimationPanel({
+  layers,
+  selectedLayer,
+  selectedStopIndex,
+  animation,
+  onChange,
+  playhead,
+  isPlaying,
+  onPlayheadChange,
+  onPlayingChange,
+}: AnimationPanelProps) {
+  const [newTarget, setNewTarget] = useState("");
+  const offset = animationOffset(animation, playhead ?? 0);
+  const tracks = liveTracks(layers, animation);
+
+  // Properties of the selected layer and stop that have no track yet
+  const hasTrack = (property: AnimatableProperty, stopIndex?: number) =>
+    animation.tracks.some(
+      (t) =>
+        t.layerId === selectedLayer.id &&
+        t.property === property &&
+        t.stopIndex === stopIndex
+    );
+  const targets = [
+    ...animatableProperties(selectedLayer)
+      .filter((p) => !hasTrack(p))
+      .map((p) => ({ key: targetKey(p, false), label: propertyLabel(p) })),
+    ...animatableProperties(selectedLayer, selectedStopIndex)
+      .filter((p) => !hasTrack(p, selectedStopIndex))
+      .map((p) => ({
+        key: targetKey(p, true),
+        label: `Stop ${selectedStopIndex + 1} ${propertyLabel(p).toLowerCase()}`,
+      })),
+  ];
+  const target = targets.some((t) => t.key === newTarget)
+    ? newTarget
+    : targets[0]?.key;
+
+  function updateTrack(
+    id: number,
+    fn: (track: AnimationTrack) => AnimationTrack,
+    step: HistoryStep
+  ) {
+    onChange(
+      {
+        ...animation,
+        tracks: animation.tracks.map((t) => (t.id === id ? fn(t) : t)),
+      },
+      step
+    );
+  }
+
+  function updateKeyframe(
+    track: AnimationTrack,
+    index: number,
+    patch: Partial<Keyframe>,
+    field: string
+  ) {
+    updateTrack(
+      track.id,
+      (t) => ({
+        ...t,
+        keyframes: t.keyframes.map((k, i) =>
+          i === index ? { ...k, ...patch } : k
+        ),
+      }),
+      { label: "Edit keyframe", key: `keyframe-${track.id}-${index}-${field}` }
+    );
+  }
+
+  function addTrack() {
+    if (!target) return;
+    const [kind, property] = target.split(":") as [
+      "layer" | "stop",
+      AnimatableProperty,
+    ];
+    const stopIndex = kind === "stop" ? selectedStopIndex : undefined;
+    const value = readProperty(selectedLayer, { property, stopIndex });
+    if (value == null) return;
+
+    // Angles default to one full turn; everything else starts flat
+    const end =
+      property === "from" && typeof value === "number" ? value + 360 : value;
+    const track: AnimationTrack = {
+      id: Math.max(0, ...animation.tracks.map((t) => t.id)) + 1,
+      layerId: selectedLayer.id,
+      ...(stopIndex != null && { stopIndex }),
+      property,
+      keyframes: [
+        { offset: 0, value, easing: "ease-in-out" },
+        { offset: 100, value: end, easing: "ease-in-out" },
+      ],
+    };
+    onChange(
+      { ...animation, tracks: [...animation.tracks, track] },
+      { label: "Add animation track" }
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-3 border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-gray-700">Animation</h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => {
+                if (playhead == null) onPlayheadChange(0);
+                onPlayingChange(!isPlaying);
+              }}
+              disabled={tracks.length === 0}
+              className="px-3 py-1.5 text-sm bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              {isPlaying ? "Pause" : "Play"}
+            </button>
+            <button
+              onClick={() => {
+                onPlayingChange(false);
+                onPlayheadChange(null);
+              }}
+              disabled={playhead == null}
+              title="Show the layers as edited"
+              className="px-3 py-1.5 text-sm bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              Stop
+            </button>
+          </div>
+        </div>
+      </div>
+      <div className="p-3 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            Duration
+            <input
+              type="number"
+              min={0.1}
+              step={0.1}
+              value={animation.duration}
+              onChange={(e) => {
+                const duration = Number(e.target.value);
+                if (!(duration > 0)) return;
+                onChange(
+                  { ...animation, duration },
+                  { label: "Animation duration", key: "animation-duration" }
+                );
+              }}
+              className="w-16 px-2 py-1 text-xs border border-gray-300 rounded"
+            />
+            s
+          </label>
+          <select
+            value={animation.direction}
+            onChange={(e) =>
+              onChange(
+                {
+                  ...animation,
+                  direction: e.target.value as GradientAnimation["direction"],
+                },
+                { label: "Animation direction" }
+              )
+            }
+            className="px-2 py-1 text-xs border border-gray-300 rounded"
+          >
+            <option value="normal">Loop</option>
+            <option value="alternate">Alternate</option>
+          </select>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={0.1}
+            value={offset}
+            onChange={(e) => {
+              // Scrubbing pauses and shows that frame in the preview
+              onPlayingChange(false);
+              onPlayheadChange(
+                (Number(e.target.value) / 100) * animation.duration
+              );
+            }}
+            className="flex-1 min-w-32"
+          />
+          <span className="w-12 text-right text-xs font-mono text-gray-500">
+            {offset.toFixed(1)}%
+          </span>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <select
+            value={target ?? ""}
+            onChange={(e) => setNewTarget(e.target.value)}
+            disabled={targets.length === 0}
+            className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded"
+          >
+            {targets.length === 0 && <option value="">All animated</option>}
+            {targets.map((t) => (
+              <option key={t.key} value={t.key}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={addTrack}
+            disabled={!target}
+            className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            Add track
+          </button>
+        </div>
+
+        {tracks.length === 0 && (
+          <p className="text-xs text-gray-400">
+            Add a track to keyframe the selected layer or stop.
+          </p>
+        )}
+
+        {tracks.map(({ track, layer, index: layerIndex }) => {
+          const unit = propertyUnit(track.property, layer);
+          const keyframes = track.keyframes;
+          return (
+            <div
+              key={track.id}
+              className="p-2 border border-gray-200 rounded space-y-2"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-medium text-gray-700 truncate">
+                  {trackLabel(track, layerIndex)}
+                </span>
+                <div className="flex items-center gap-3 shrink-0">
+                  <button
+                    onClick={() =>
+                      updateTrack(
+                        track.id,
+                        (t) =>
+                          setKeyframe(t, {
+                            offset: Number(offset.toFixed(1)),
+                            value: trackValueAt(t, offset),
+                            easing: "ease-in-out",
+                          }),
+                        { label: "Add keyframe" }
+                      )
+                    }
+                    title="Add a keyframe at the playhead"
+                    className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+                  >
+                    + Keyframe
+                  </button>
+                  <button
+                    onClick={() =>
+                      onChange(
+                        {
+                          ...animation,
+                          tracks: animation.tracks.filter(
+                            (t) => t.id !== track.id
+                          ),
+                        },
+                        { label: "Remove animation track" }
+                      )
+                    }
+                    className="text-xs text-red-600 hover:text-red-700 cursor-pointer"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+
+              {/* Keyframes and playhead along the duration */}
+              <div className="relative h-3 bg-gray-100 rounded">
+                {keyframes.map((k, i) => (
+                  <div
+                    key={i}
+                    className="absolute top-1/2 w-2 h-2 -ml-1 -mt-1 rotate-45 bg-blue-500"
+                    style={{ left: `${k.offset}%` }}
+                  />
+                ))}
+                {playhead != null && (
+                  <div
+                    className="absolute inset-y-0 w-px bg-red-500"
+                    style={{ left: `${offset}%` }}
+                  />
+                )}
+              </div>
+
+              {keyframes.map((k, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={1}
+                    value={k.offset}
+                    onChange={(e) =>
+                      updateKeyframe(
+                        track,
+                        i,
+                        {
+                          offset: Math.max(
+                            0,
+                            Math.min(100, Number(e.target.value) || 0)
+                          ),
+                        },
+                        "offset"
+                      )
+                    }
+                    // Re-sort once the edit is done so rows don't jump
+                    onBlur={() => {
+                      const sorted = sortedKeyframes(track);
+                      if (sorted.every((s, j) => s === keyframes[j])) return;
+                      updateTrack(
+                        track.id,
+                        (t) => ({ ...t, keyframes: sorted }),
+                        {
+                          label: "Edit keyframe",
+                          key: `keyframe-${track.id}-${i}-offset`,
+                        }
+                      );
+                    }}
+                    title="Time, in percent of the duration"
+                    className="w-16 px-2 py-1 text-xs border border-gray-300 rounded"
+                  />
+                  <span className="text-xs text-gray-400">%</span>
+                  {typeof k.value === "string" ? (
+                    <>
+                      <input
+                        type="color"
+                        value={colorToHex(k.value)}
+                        onChange={(e) =>
+                          updateKeyframe(
+                            track,
+                            i,
+                            { value: e.target.value },
+                            "value"
+                          )
+                        }
+                        className="w-6 h-6 border border-gray-300 rounded cursor-pointer"
+                      />
+                      <input
+                        type="text"
+                        value={k.value}
+                        onChange={(e) =>
+                          updateKeyframe(
+                            track,
+                            i,
+                            { value: e.target.value },
+                            "value"
+                          )
+                        }
+                        className="flex-1 min-w-0 px-2 py-1 text-xs font-mono border border-gray-300 rounded"
+                      />
+                    </>
+                  ) : (
+                    <label className="flex flex-1 items-center gap-1 text-xs text-gray-400">
+                      <input
+                        type="number"
+                        step={track.property === "opacity" ? 0.05 : 1}
+                        value={Number(k.value.toFixed(3))}
+                        onChange={(e) =>
+                          updateKeyframe(
+                            track,
+                            i,
+                            { value: Number(e.target.value) || 0 },
+                            "value"
+                          )
+                        }
+                        className="flex-1 min-w-0 px-2 py-1 text-xs text-gray-900 border border-gray-300 rounded"
+                      />
+                      {unit}
+                    </label>
+                  )}
+                  <select
+                    value={k.easing}
+                    onChange={(e) =>
+                      updateKeyframe(
+                        track,
+                        i,
+                        { easing: e.target.value as Easing },
+                        "easing"
+                      )
+                    }
+                    title="Easing towards the next keyframe"
+                    className="px-1 py-1 text-xs border border-gray-300 rounded"
+                  >
+                    {EASINGS.map((easing) => (
+                      <option key={easing} value={easing}>
+                        {easing}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() =>
+                      updateTrack(
+                        track.id,
+                        (t) => ({
+                          ...t,
+                          keyframes: t.keyframes.filter((_, j) => j !== i),
+                        }),
+                        { label: "Remove keyframe" }
+                      )
+                    }
+                    disabled={keyframes.length === 1}
+                    title="Remove keyframe"
+                    className="text-xs text-red-600 hover:text-red-700 cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+import {
+  ContrastReport,
+  ContrastSettings,
+  TextBox,
+  clampBox,
+} from "@/lib/contrast";
+
+interface ContrastOverlayProps {
+  settings: ContrastSettings;
+  report: ContrastReport | null;
+  // Size of the gradient area: the preview inside its 1px border
+  width: number;
+  height: number;
+  onChangeBox: (box: TextBox) => void;
+}
+
+// The contrast checker's text box on the preview, draggable and resizable,
+// over a heatmap of where that text would fail
+export default function ContrastOverlay({
+  settings,
+  report,
+  width,
+  height,
+  onChangeBox,
+}: ContrastOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const box = clampBox(settings.box, width, height);
+  const heatmap = report?.heatmap;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !heatmap) return;
+    canvas.width = heatmap.width;
+    canvas.height = heatmap.height;
+    const data = new Uint8ClampedArray(heatmap.data);
+    canvas
+      .getContext("2d")
+      ?.putImageData(new ImageData(data, heatmap.width, heatmap.height), 0, 0);
+  }, [heatmap]);
+
+  // Move or resize by the pointer's offset; the pointer is captured so touch
+  // and pen drags keep reaching the box
+  function startDrag(
+    e: React.PointerEvent<HTMLDivElement>,
+    mode: "move" | "resize"
+  ) {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const target = e.currentTarget;
+    const { pointerId } = e;
+    const startX = e.clientX;
+    const startY = e.clientY;
+    target.setPointerCapture(pointerId);
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      if (moveEvent.pointerId !== pointerId) return;
+      const dx = Math.round(moveEvent.clientX - startX);
+      const dy = Math.round(moveEvent.clientY - startY);
+      onChangeBox(
+        clampBox(
+          mode === "move"
+            ? { ...box, x: box.x + dx, y: box.y + dy }
+            : { ...box, width: box.width + dx, height: box.height + dy },
+          width,
+          height
+        )
+      );
+    };
+    const handleUp = (upEvent: PointerEvent) => {
+      if (upEvent.pointerId !== pointerId) return;
+      target.removeEventListener("pointermove", handleMove);
+      target.removeEventListener("pointerup", handleUp);
+      target.removeEventListener("pointercancel", handleUp);
+    };
+
+    target.addEventListener("pointermove", handleMove);
+    target.addEventListener("pointerup", handleUp);
+    target.addEventListener("pointercancel", handleUp);
+  }
+
+  const badgeClass = !report
+    ? "bg-gray-500"
+    : report.aaa
+      ? "bg-green-600"
+      : report.aa
+        ? "bg-amber-500"
+        : "bg-red-600";
+
+  return (
+    <div className="absolute inset-px pointer-events-none overflow-hidden rounded-lg">
+      {heatmap && (
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      )}
+
+      <div
+        className="absolute border border-dashed border-white/80 outline outline-1 outline-black/30 pointer-events-auto touch-none cursor-move flex items-center justify-center text-center overflow-hidden select-none"
+        style={{
+          left: box.x,
+          top: box.y,
+          width: box.width,
+          height: box.height,
+          color: settings.color,
+          fontSize: settings.fontSize,
+          fontWeight: settings.bold ? 700 : 400,
+          lineHeight: 1.2,
+        }}
+        title="Drag to move the text"
+        onPointerDown={(e) => startDrag(e, "move")}
+      >
+        {settings.text}
+        <div
+          className="absolute right-0 bottom-0 w-2.5 h-2.5 bg-white border border-gray-500 cursor-nwse-resize touch-none"
+          title="Drag to resize"
+          onPointerDown={(e) => startDrag(e, "resize")}
+        />
+      </div>
+
+      <div
+        className={`absolute px-1 py-px text-[10px] font-medium text-white rounded ${badgeClass}`}
+        // Above the box, or inside its corner when there's no room above
+        style={
+          box.y >= 16
+            ? { left: box.x, top: box.y - 16 }
+            : { left: box.x + 2, top: box.y + 2 }
+        }
+      >
+        {report ? `${report.worst.toFixed(2)}:1` : "Unreadable color"}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { colorToHex } from "@/lib/color";
+import { ContrastReport, ContrastSettings } from "@/lib/contrast";
+
+interface ContrastPanelProps {
+  // null while the checker is off
+  settings: ContrastSettings | null;
+  report: ContrastReport | null;
+  onToggle: () => void;
+  onChange: (patch: Partial<ContrastSettings>) => void;
+}
+
+function Verdict({ label, pass }: { label: string; pass: boolean }) {
+  return (
+    <span
+      className={`px-1.5 py-0.5 rounded text-xs font-medium ${
+        pass ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"
+      }`}
+    >
+      {label} {pass ? "pass" : "fail"}
+    </span>
+  );
+}
+
+// Settings and WCAG results for the text box shown on the preview
+export default function ContrastPanel({
+  settings,
+  report,
+  onToggle,
+  onChange,
+}: ContrastPanelProps) {
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-3 border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-gray-700">Text contrast</h3>
+          <button
+            onClick={onToggle}
+            className="px-3 py-1.5 text-sm bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 cursor-pointer"
+          >
+            {settings ? "Stop checking" : "Check contrast"}
+          </button>
+        </div>
+      </div>
+
+      {settings ? (
+        <div className="p-3 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="col-span-2 flex items-center justify-between gap-2 text-xs text-gray-600">
+              Text
+              <input
+                type="text"
+                value={settings.text}
+                onChange={(e) => onChange({ text: e.target.value })}
+                className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded"
+              />
+            </label>
+            <label className="flex items-center justify-between gap-2 text-xs text-gray-600">
+              Color
+              <span className="flex items-center gap-1">
+                <input
+                  type="color"
+                  value={colorToHex(settings.color)}
+                  onChange={(e) => onChange({ color: e.target.value })}
+                  className="w-7 h-7 border border-gray-300 rounded cursor-pointer"
+                />
+                <input
+                  type="text"
+                  value={settings.color}
+                  onChange={(e) => onChange({ color: e.target.value })}
+                  className="w-24 px-2 py-1 text-xs font-mono border border-gray-300 rounded"
+                />
+              </span>
+            </label>
+            <label className="flex items-center justify-between gap-2 text-xs text-gray-600">
+              Size
+              <span className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={6}
+                  max={200}
+                  value={settings.fontSize}
+                  onChange={(e) =>
+                    onChange({
+                      fontSize: Math.max(
+                        6,
+                        Math.min(200, Number(e.target.value) || 6)
+                      ),
+                    })
+                  }
+                  className="w-16 px-2 py-1 text-xs border border-gray-300 rounded"
+                />
+                px
+              </span>
+            </label>
+            <label className="flex items-center gap-1 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={settings.bold}
+                onChange={(e) => onChange({ bold: e.target.checked })}
+                className="rounded"
+              />
+              Bold
+            </label>
+            <label className="flex items-center gap-1 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={settings.heatmap}
+                onChange={(e) => onChange({ heatmap: e.target.checked })}
+                className="rounded"
+              />
+              Heatmap of failing areas
+            </label>
+          </div>
+
+          {report ? (
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium text-gray-800">
+                  {report.worst.toFixed(2)}:1
+                </span>
+                <span className="text-xs text-gray-500">
+                  worst case (best {report.best.toFixed(2)}:1)
+                </span>
+                <Verdict
+                  label={`AA ${report.thresholds.aa}:1`}
+                  pass={report.aa}
+                />
+                <Verdict
+                  label={`AAA ${report.thresholds.aaa}:1`}
+                  pass={report.aaa}
+                />
+              </div>
+              <p className="text-xs text-gray-400">
+                {report.large ? "Large" : "Normal"} text under WCAG 2 (large is
+                24px, or 18.66px bold). Drag the box on the preview to move it,
+                or its corner to resize; the heatmap marks AA failures in red
+                and AAA-only failures in amber. Transparent areas are checked
+                against a white page.
+              </p>
+            </div>
+          ) : (
+            <p className="text-xs text-red-600">
+              Pick a text color the checker can read (var() and keywords like
+              currentcolor can&apos;t be resolved here).
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="p-3 text-xs text-gray-400">
+          Place sample text on the preview and see whether it meets WCAG AA and
+          AAA anywhere under it.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+
+import { GradientLayer } from "@/lib/gradient";
+import { rasterizeLayers } from "@/lib/raster";
+
+type ImageFormat = "png" | "webp";
+
+interface ExportImageDialogProps {
+  layers: GradientLayer[];
+  previewW: number;
+  previewH: number;
+  onClose: () => void;
+}
+
+const SIZE_PRESETS = [
+  { label: "Social card", width: 1200, height: 630 },
+  { label: "Full HD", width: 1920, height: 1080 },
+  { label: "4K", width: 3840, height: 2160 },
+];
+
+// Largest side we render; bigger canvases fail in most browsers
+const MAX_SIDE = 8192;
+
+// Render the layer stack at any size and download it as PNG or WebP
+export default function ExportImageDialog({
+  layers,
+  previewW,
+  previewH,
+  onClose,
+}: ExportImageDialogProps) {
+  const [width, setWidth] = useState(previewW);
+  const [height, setHeight] = useState(previewH);
+  const [format, setFormat] = useState<ImageFormat>("png");
+  const [quality, setQuality] = useState(0.92);
+  const [dither, setDither] = useState(true);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clampSide = (value: string) =>
+    Math.max(1, Math.min(MAX_SIDE, Math.round(Number(value)) || 1));
+
+  function handleExport() {
+    setIsRendering(true);
+    setError(null);
+
+    // Let the "Rendering…" state paint before the synchronous render
+    setTimeout(() => {
+      try {
+        const image = rasterizeLayers(layers, width, height, {
+          // Explicit radii were drawn against the preview width
+          lengthScale: width / previewW,
+          dither,
+        });
+
+        const canvas = document.createElement("canvas");
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) throw new Error("Canvas is not available");
+        ctx.putImageData(new ImageData(image.data, width, height), 0, 0);
+
+        const type = `image/${format}`;
+        canvas.toBlob(
+          (blob) => {
+            setIsRendering(false);
+            if (!blob) {
+              setError("The browser couldn't encode the image.");
+              return;
+            }
+            // Browsers without a WebP encoder silently fall back to PNG
+            const extension = blob.type === "image/webp" ? "webp" : "png";
+            if (blob.type !== type) {
+              setError(
+                `This browser can't encode ${format.toUpperCase()}; saved a PNG instead.`
+              );
+            }
+
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement("a");
+            a.href = url;
+            a.download = `gradient-${width}x${height}.${extension}`;
+            a.click();
+            URL.revokeObjectURL(url);
+          },
+          type,
+          quality
+        );
+      } catch (e) {
+        console.error(e);
+        setIsRendering(false);
+        setError("Rendering the image failed.");
+      }
+    }, 0);
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md bg-white rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-3 border-b border-gray-100 flex items-center justify-between">
+          <h3 className="text-sm font-medium text-gray-700">Export Image</h3>
+          <button
+            onClick={onClose}
+            className="text-xs text-gray-500 hover:text-gray-700 cursor-pointer"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="p-3 space-y-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Size
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                max={MAX_SIDE}
+                value={width}
+                onChange={(e) => setWidth(clampSide(e.target.value))}
+                className="w-20 px-2 py-1 text-xs border border-gray-300 rounded"
+              />
+              <span className="text-xs text-gray-400">×</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_SIDE}
+                value={height}
+                onChange={(e) => setHeight(clampSide(e.target.value))}
+                className="w-20 px-2 py-1 text-xs border border-gray-300 rounded"
+              />
+              <span className="text-xs text-gray-500">px</span>
+            </div>
+            <div className="flex flex-wrap gap-1 mt-2">
+              {[
+                { label: "Preview", width: previewW, height: previewH },
+                ...SIZE_PRESETS,
+              ].map((preset) => (
+                <button
+                  key={preset.label}
+                  onClick={() => {
+                    setWidth(preset.width);
+                    setHeight(preset.height);
+                  }}
+                  className="px-2 py-0.5 text-xs bg-gray-100 border border-gray-300 rounded hover:bg-gray-200 cursor-pointer"
+                >
+                  {preset.label} ({preset.width}×{preset.height})
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                Format
+              </label>
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as ImageFormat)}
+                className="w-full p-1.5 border border-gray-300 rounded text-sm"
+              >
+                <option value="png">PNG</option>
+                <option value="webp">WebP</option>
+              </select>
+            </div>
+            {format === "webp" && (
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">
+                  Quality
+                </label>
+                <input
+                  type="range"
+                  min="0.5"
+                  max="1"
+                  step="0.01"
+                  value={quality}
+                  onChange={(e) => setQuality(parseFloat(e.target.value))}
+                  className="w-full"
+                  title={`${Math.round(quality * 100)}%`}
+                />
+              </div>
+            )}
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={dither}
+              onChange={(e) => setDither(e.target.checked)}
+              className="rounded"
+            />
+            Dither to reduce banding
+          </label>
+
+          {error && (
+            <div className="p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded">
+              {error}
+            </div>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={isRendering}
+            className="w-full px-3 py-1.5 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 cursor-pointer disabled:opacity-50 disabled:cursor-wait"
+          >
+            {isRendering ? "Rendering…" : "Download"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+
+import {
+  MAX_GENERATED_LAYERS,
+  MAX_GENERATED_STOPS,
+  randomSeed,
+} from "@/lib/generate";
+import {
+  GeneratorSettings,
+  GradientType,
+  HARMONIES,
+  Harmony,
+} from "@/lib/gradient";
+
+interface GeneratorPanelProps {
+  // Settings of the current stack, or the defaults before anything was
+  // generated; edits stay local until Generate or Re-roll
+  settings: GeneratorSettings;
+  lockedCount: number;
+  onGenerate: (settings: GeneratorSettings) => void;
+}
+
+const TYPES: GradientType[] = ["linear", "radial", "conic"];
+
+const clampInt = (value: string, min: number, max: number) =>
+  Math.max(min, Math.min(max, Math.round(Number(value) || min)));
+
+// Seeded random layer stacks from harmony, count, lightness and type rules;
+// locked layers survive a re-roll
+export default function GeneratorPanel({
+  settings,
+  lockedCount,
+  onGenerate,
+}: GeneratorPanelProps) {
+  const [draft, setDraft] = useState(settings);
+
+  const update = (patch: Partial<GeneratorSettings>) =>
+    setDraft((prev) => ({ ...prev, ...patch }));
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-3 border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-gray-700">Generate</h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onGenerate(draft)}
+              className="px-3 py-1.5 text-sm bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 cursor-pointer"
+              title="Build the stack from this seed"
+            >
+              Generate
+            </button>
+            <button
+              onClick={() => onGenerate({ ...draft, seed: randomSeed() })}
+              className="px-3 py-1.5 text-sm bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 cursor-pointer"
+              title="Pick a new seed and regenerate the unlocked layers"
+            >
+              Re-roll
+            </button>
+          </div>
+        </div>
+      </div>
+      <div className="p-3 space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <label className="flex items-center justify-between gap-2 text-xs text-gray-600">
+            Seed
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={draft.seed}
+              onChange={(e) =>
+                update({
+                  seed: Math.max(0, Math.round(Number(e.target.value))),
+                })
+              }
+              className="w-28 px-2 py-1 text-xs font-mono border border-gray-300 rounded"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2 text-xs text-gray-600">
+            Harmony
+            <select
+              value={draft.harmony}
+              onChange={(e) => update({ harmony: e.target.value as Harmony })}
+              className="w-28 px-2 py-1 text-xs border border-gray-300 rounded"
+            >
+              {HARMONIES.map((harmony) => (
+                <option key={harmony} value={harmony}>
+                  {harmony}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2 text-xs text-gray-600">
+            Layers
+            <input
+              type="number"
+              min={1}
+              max={MAX_GENERATED_LAYERS}
+              value={draft.layerCount}
+              onChange={(e) =>
+                update({
+                  layerCount: clampInt(e.target.value, 1, MAX_GENERATED_LAYERS),
+                })
+              }
+              className="w-16 px-2 py-1 text-xs border border-gray-300 rounded"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2 text-xs text-gray-600">
+            Stops
+            <input
+              type="number"
+              min={2}
+              max={MAX_GENERATED_STOPS}
+              value={draft.stopCount}
+              onChange={(e) =>
+                update({
+                  stopCount: clampInt(e.target.value, 2, MAX_GENERATED_STOPS),
+                })
+              }
+              className="w-16 px-2 py-1 text-xs border border-gray-300 rounded"
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center gap-2 text-xs text-gray-600">
+          Lightness
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={draft.lightness.min}
+            onChange={(e) =>
+              update({
+                lightness: {
+                  ...draft.lightness,
+                  min: clampInt(e.target.value, 0, 100),
+                },
+              })
+            }
+            className="w-16 px-2 py-1 text-xs border border-gray-300 rounded"
+            title="Darkest stop (OKLCH lightness %)"
+          />
+          to
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={draft.lightness.max}
+            onChange={(e) =>
+              update({
+                lightness: {
+                  ...draft.lightness,
+                  max: clampInt(e.target.value, 0, 100),
+                },
+              })
+            }
+            className="w-16 px-2 py-1 text-xs border border-gray-300 rounded"
+            title="Lightest stop (OKLCH lightness %)"
+          />
+          %
+        </div>
+
+        <div className="flex items-center gap-3 text-xs text-gray-600">
+          Types
+          {TYPES.map((type) => (
+            <label key={type} className="flex items-center gap-1 capitalize">
+              <input
+                type="checkbox"
+                checked={draft.types.includes(type)}
+                onChange={(e) =>
+                  update({
+                    types: e.target.checked
+                      ? TYPES.filter(
+                          (t) => t === type || draft.types.includes(t)
+                        )
+                      : draft.types.filter((t) => t !== type),
+                  })
+                }
+                className="rounded"
+              />
+              {type}
+            </label>
+          ))}
+        </div>
+
+        <p className="text-xs text-gray-400">
+          {lockedCount > 0
+            ? `${lockedCount} locked layer${lockedCount === 1 ? "" : "s"} will be kept.`
+            : "Lock layers in the Layers panel to keep them when re-rolling."}
+        </p>
+      </div>
+    </div>
+  );
+}
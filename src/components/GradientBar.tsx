@@ -0,0 +1,370 @@
+"use client";
+
+import { useRef, useState } from "react";
+
+import {
+  GradientLayer,
+  GradientStop,
+  layerToCss,
+  mapStopPositions,
+  stopRange,
+} from "@/lib/gradient";
+import { HistoryStep, gestureKey } from "@/lib/history";
+
+type StopField = "pos" | "pos2" | "hint";
+
+interface GradientBarProps {
+  layer: GradientLayer;
+  selectedStopIndex: number;
+  // Stops picked with Shift-click for bulk edits
+  selectedStopIndices: number[];
+  onSelectStop: (index: number) => void;
+  onToggleStop: (index: number) => void;
+  onChangeStop: (
+    index: number,
+    patch: Partial<GradientStop>,
+    step?: HistoryStep
+  ) => void;
+  onChangeStops: (stops: GradientStop[], step: HistoryStep) => void;
+  // Lets the preview show its enlarged overlay while a stop moves
+  onDragChange: (isDragging: boolean) => void;
+}
+
+interface DragState {
+  pointerId: number;
+  index: number;
+  field: StopField;
+  startX: number;
+  startPos: number;
+  // Bar width and stop range when the drag began; the bar rescales as
+  // stops move past its ends, so the mapping is frozen for the gesture
+  width: number;
+  range: number;
+  step: HistoryStep;
+}
+
+// Pointer distance (px) at which a stop snaps to a neighbour or round value
+const SNAP_DISTANCE = 6;
+// Pointer distance (px) above or below the bar that removes the dragged stop
+const REMOVE_DISTANCE = 32;
+// Arrow-key nudges, in stop units (% or deg); Shift moves further
+const NUDGE = 1;
+const NUDGE_LARGE = 10;
+
+// Figma-style gradient bar: stop handles (with a second handle for split
+// stops) and transition hint diamonds over a flat rendering of the stops
+export default function GradientBar({
+  layer,
+  selectedStopIndex,
+  selectedStopIndices,
+  onSelectStop,
+  onToggleStop,
+  onChangeStop,
+  onChangeStops,
+  onDragChange,
+}: GradientBarProps) {
+  const barRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  // Handle being dragged off the bar, shown faded until released
+  const [removing, setRemoving] = useState<string | null>(null);
+
+  const allPositions = layer.stops.flatMap((s) =>
+    s.pos2 != null ? [s.pos, s.pos2] : [s.pos]
+  );
+  // Repeating layers show a full sweep so the tiled period stays visible
+  const minPos = Math.min(...allPositions, ...(layer.repeating ? [0] : []));
+  const maxPos = Math.max(
+    ...allPositions,
+    ...(layer.repeating ? [stopRange(layer.type)] : [])
+  );
+  const range = maxPos - minPos || stopRange(layer.type);
+  const toPercentage = (pos: number) => ((pos - minPos) / range) * 100;
+  // Round values to snap to: 5% steps, or 15deg for conic layers
+  const roundStep = layer.type === "conic" ? 15 : 5;
+
+  // Midpoint between a stop and the next one, where an unset hint sits
+  const hintPosition = (index: number) => {
+    const stop = layer.stops[index];
+    if (stop.hint != null) return stop.hint;
+    return ((stop.pos2 ?? stop.pos) + layer.stops[index + 1].pos) / 2;
+  };
+
+  const fieldPosition = (index: number, field: StopField) =>
+    field === "hint"
+      ? hintPosition(index)
+      : (layer.stops[index][field] ?? layer.stops[index].pos);
+
+  const handleBarClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const percentage = (x / rect.width) * 100;
+    const newPos = minPos + (percentage / 100) * range;
+
+    // Add new stop at clicked position and focus it
+    const newStops = [...layer.stops, { color: "#ffffff", pos: newPos }];
+    onChangeStops(newStops, { label: "Add stop" });
+    onSelectStop(newStops.length - 1);
+  };
+
+  // Snap to another stop's position first, then to a round value, when
+  // within SNAP_DISTANCE of the pointer
+  const snapPosition = (pos: number, drag: DragState) => {
+    const threshold = (SNAP_DISTANCE / drag.width) * drag.range;
+    const neighbours = layer.stops.flatMap((s, i) =>
+      i === drag.index ? [] : s.pos2 != null ? [s.pos, s.pos2] : [s.pos]
+    );
+    const candidates = [neighbours, [Math.round(pos / roundStep) * roundStep]];
+    for (const group of candidates) {
+      const nearest = group.reduce(
+        (best, p) => (Math.abs(p - pos) < Math.abs(best - pos) ? p : best),
+        Infinity
+      );
+      if (Math.abs(nearest - pos) <= threshold) return nearest;
+    }
+    return pos;
+  };
+
+  const isOffBar = (e: React.PointerEvent) => {
+    const rect = barRef.current!.getBoundingClientRect();
+    return (
+      e.clientY < rect.top - REMOVE_DISTANCE ||
+      e.clientY > rect.bottom + REMOVE_DISTANCE
+    );
+  };
+
+  // Dragging off the bar removes a stop (keeping at least two), a split
+  // stop's second position, or a hint
+  const canRemove = (index: number, field: StopField) => {
+    if (field === "pos") return layer.stops.length > 2;
+    if (field === "hint") return layer.stops[index]?.hint != null;
+    return true;
+  };
+
+  const handlePointerDown = (
+    index: number,
+    field: StopField,
+    e: React.PointerEvent<HTMLDivElement>
+  ) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    // Shift-click adds the stop to (or takes it out of) the multi-selection
+    if (e.shiftKey && field !== "hint") {
+      onToggleStop(index);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    e.currentTarget.focus();
+
+    // The whole drag is one undo step
+    const step = {
+      label:
+        field === "hint"
+          ? `Move hint after stop ${index + 1}`
+          : `Move stop ${index + 1}`,
+      key: gestureKey(),
+    };
+
+    // Alt-drag leaves the stop in place and drags a copy of it; the copy
+    // takes over the hint towards the next stop
+    let dragIndex = index;
+    if (e.altKey && field === "pos") {
+      const stop = layer.stops[index];
+      const stops = [...layer.stops];
+      stops.splice(index, 1, { ...stop, hint: undefined }, stop);
+      step.label = `Duplicate stop ${index + 1}`;
+      onChangeStops(stops, step);
+      dragIndex = index + 1;
+    }
+
+    onSelectStop(dragIndex);
+    onDragChange(true);
+    dragRef.current = {
+      pointerId: e.pointerId,
+      index: dragIndex,
+      field,
+      startX: e.clientX,
+      startPos: fieldPosition(index, field),
+      width: barRef.current!.getBoundingClientRect().width,
+      range,
+      step,
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+
+    // Off the bar the stop stays where it was, ready to be removed
+    if (isOffBar(e) && canRemove(drag.index, drag.field)) {
+      setRemoving(`${drag.index}-${drag.field}`);
+      return;
+    }
+    setRemoving(null);
+
+    const deltaPos = ((e.clientX - drag.startX) / drag.width) * drag.range;
+    let newPos = drag.startPos + deltaPos;
+    // Ctrl/Cmd drags freely
+    if (!e.ctrlKey && !e.metaKey) newPos = snapPosition(newPos, drag);
+
+    onChangeStop(drag.index, { [drag.field]: newPos }, drag.step);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    dragRef.current = null;
+    setRemoving(null);
+    onDragChange(false);
+
+    const { index, field } = drag;
+    if (e.type !== "pointerup" || !isOffBar(e) || !canRemove(index, field)) {
+      return;
+    }
+    if (field === "pos") {
+      onChangeStops(
+        layer.stops.filter((_, i) => i !== index),
+        { label: `Remove stop ${index + 1}` }
+      );
+      onSelectStop(Math.max(0, index - 1));
+    } else if (field === "pos2") {
+      onChangeStop(
+        index,
+        { pos2: undefined },
+        { label: `Merge stop ${index + 1}` }
+      );
+    } else {
+      onChangeStop(
+        index,
+        { hint: undefined },
+        { label: `Remove hint after stop ${index + 1}` }
+      );
+    }
+  };
+
+  const handleKeyDown = (
+    index: number,
+    field: StopField,
+    e: React.KeyboardEvent<HTMLDivElement>
+  ) => {
+    if (e.key !== "ArrowLeft" && e.key !== "ArrowRight") return;
+    e.preventDefault();
+    const delta =
+      (e.key === "ArrowLeft" ? -1 : 1) * (e.shiftKey ? NUDGE_LARGE : NUDGE);
+    const pos = Number((fieldPosition(index, field) + delta).toFixed(2));
+    onChangeStop(
+      index,
+      { [field]: pos },
+      field === "hint"
+        ? {
+            label: `Move hint after stop ${index + 1}`,
+            key: `hint-${layer.id}-${index}`,
+          }
+        : undefined
+    );
+  };
+
+  // Pointer and keyboard handlers shared by stop handles and hint diamonds
+  const handleProps = (index: number, field: StopField) => ({
+    tabIndex: 0,
+    onPointerDown: (e: React.PointerEvent<HTMLDivElement>) =>
+      handlePointerDown(index, field, e),
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+    onKeyDown: (e: React.KeyboardEvent<HTMLDivElement>) =>
+      handleKeyDown(index, field, e),
+    onClick: (e: React.MouseEvent) => e.stopPropagation(),
+  });
+
+  return (
+    <div
+      ref={barRef}
+      // Margins leave room for handles at the very ends
+      className="relative h-8 mx-1.5 bg-gray-100 rounded cursor-crosshair"
+      onClick={handleBarClick}
+    >
+      {/* Gradient preview */}
+      <div
+        className="absolute inset-0 rounded pointer-events-none"
+        style={{
+          // Lay the stops out flat along the bar, matching the handles
+          background: layerToCss({
+            ...layer,
+            type: "linear",
+            from: 90,
+            stops: mapStopPositions(layer.stops, toPercentage),
+          }),
+        }}
+      />
+
+      {/* Stop handles; split stops get a second handle for pos2 */}
+      {layer.stops.flatMap((stop, index) =>
+        (stop.pos2 != null
+          ? (["pos", "pos2"] as const)
+          : (["pos"] as const)
+        ).map((field) => (
+          <div
+            key={`${index}-${field}`}
+            {...handleProps(index, field)}
+            className={`absolute top-0 h-full w-3 cursor-grab active:cursor-grabbing transform -translate-x-1/2 group z-10 touch-none outline-none ${
+              removing === `${index}-${field}` ? "opacity-30" : ""
+            }`}
+            style={{ left: `${toPercentage(stop[field] ?? stop.pos)}%` }}
+            title={
+              field === "pos2"
+                ? "Second position"
+                : "Drag to move (Alt copies, Ctrl/Cmd skips snapping), drag off to remove, arrow keys to nudge, Shift-click to select several"
+            }
+            aria-label={`Stop ${index + 1}${field === "pos2" ? " second position" : ""}`}
+          >
+            <div
+              className={`w-3 h-full border-2 rounded-sm shadow-sm transition-colors ${
+                selectedStopIndex === index
+                  ? "border-blue-500"
+                  : selectedStopIndices.includes(index)
+                    ? "border-blue-300"
+                    : "border-white bg-gray-300"
+              } ${field === "pos2" ? "border-dashed" : ""} group-hover:border-blue-400 group-focus-visible:ring-2 group-focus-visible:ring-blue-400`}
+            >
+              <div
+                className="w-full h-full rounded-sm"
+                style={{ backgroundColor: stop.color }}
+              />
+            </div>
+          </div>
+        ))
+      )}
+
+      {/* Transition hint diamonds between consecutive stops */}
+      {layer.stops.slice(0, -1).map((stop, index) => (
+        <div
+          key={`hint-${index}`}
+          {...handleProps(index, "hint")}
+          className={`absolute bottom-0.5 w-2.5 h-2.5 -ml-[5px] rotate-45 border border-gray-700 bg-white cursor-ew-resize z-20 touch-none outline-none focus-visible:ring-2 focus-visible:ring-blue-400 ${
+            removing === `${index}-hint`
+              ? "opacity-30"
+              : stop.hint != null
+                ? ""
+                : "opacity-40 hover:opacity-100"
+          }`}
+          style={{ left: `${toPercentage(hintPosition(index))}%` }}
+          title={
+            stop.hint != null
+              ? "Transition hint (double-click or drag off to remove)"
+              : "Drag to add a transition hint"
+          }
+          aria-label={`Hint after stop ${index + 1}`}
+          onDoubleClick={(e) => {
+            e.stopPropagation();
+            onChangeStop(
+              index,
+              { hint: undefined },
+              { label: `Remove hint after stop ${index + 1}` }
+            );
+          }}
+        />
+      ))}
+    </div>
+  );
+}
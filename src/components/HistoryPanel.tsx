@@ -0,0 +1,64 @@
+"use client";
+
+import { HistoryEntry } from "@/lib/history";
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onJump: (index: number) => void;
+}
+
+// List of undo steps; clicking a step restores the editor to it
+export default function HistoryPanel({
+  entries,
+  index,
+  canUndo,
+  canRedo,
+  onJump,
+}: HistoryPanelProps) {
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-3 border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-gray-700">History</h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onJump(index - 1)}
+              disabled={!canUndo}
+              className="px-3 py-1.5 text-sm bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              Undo
+            </button>
+            <button
+              onClick={() => onJump(index + 1)}
+              disabled={!canRedo}
+              className="px-3 py-1.5 text-sm bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              Redo
+            </button>
+          </div>
+        </div>
+      </div>
+      <ol className="p-3 space-y-1 max-h-64 overflow-y-auto">
+        {entries.map((entry, i) => (
+          <li key={i}>
+            <button
+              onClick={() => onJump(i)}
+              className={`w-full px-2 py-1 text-left text-xs rounded border cursor-pointer transition-colors ${
+                i === index
+                  ? "border-blue-300 bg-blue-50 text-gray-900"
+                  : i > index
+                    ? "border-transparent text-gray-400 hover:border-gray-200"
+                    : "border-transparent text-gray-700 hover:border-gray-200"
+              }`}
+            >
+              {entry.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { AppState } from "@/lib/gradient";
+import {
+  LibraryEntry,
+  createLibraryEntry,
+  deleteLibraryEntry,
+  duplicateLibraryEntry,
+  listLibrary,
+  parseTags,
+  putLibraryEntry,
+  searchLibrary,
+} from "@/lib/library";
+import { restoreState } from "@/lib/shareUrl";
+
+interface LibraryPanelProps {
+  // Editor state to save
+  state: AppState;
+  onOpen: (state: AppState, name: string) => void;
+}
+
+// Saved gradients stored locally in IndexedDB
+export default function LibraryPanel({ state, onOpen }: LibraryPanelProps) {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [tags, setTags] = useState("");
+  const [query, setQuery] = useState("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState("");
+
+  async function refresh() {
+    try {
+      setEntries(await listLibrary());
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError("The library couldn't be loaded from browser storage.");
+    }
+  }
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // Run a storage operation, then reload the list
+  async function update(operation: () => Promise<void>) {
+    try {
+      await operation();
+    } catch (e) {
+      console.error(e);
+      setError("Saving to browser storage failed.");
+      return;
+    }
+    await refresh();
+  }
+
+  function handleSave() {
+    const entry = createLibraryEntry(
+      name.trim() || "Untitled gradient",
+      parseTags(tags),
+      state
+    );
+    update(() => putLibraryEntry(entry));
+    setName("");
+    setTags("");
+  }
+
+  function handleRename(entry: LibraryEntry) {
+    const newName = renameText.trim();
+    setRenamingId(null);
+    if (!newName || newName === entry.name) return;
+    update(() =>
+      putLibraryEntry({ ...entry, name: newName, updatedAt: Date.now() })
+    );
+  }
+
+  function handleOpen(entry: LibraryEntry) {
+    const result = restoreState(entry.state, entry.version);
+    if ("error" in result) {
+      setError(`"${entry.name}" couldn't be opened: ${result.error}.`);
+      return;
+    }
+    onOpen(result.state, entry.name);
+  }
+
+  const visible = searchLibrary(entries, query);
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-3 border-b border-gray-100">
+        <h3 className="text-sm font-medium text-gray-700">Library</h3>
+      </div>
+
+      <div className="p-3 space-y-3">
+        {/* Save current gradient */}
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name"
+            className="flex-1 min-w-32 px-2 py-1 text-sm border border-gray-300 rounded"
+          />
+          <input
+            type="text"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="Tags, comma separated"
+            className="flex-1 min-w-32 px-2 py-1 text-sm border border-gray-300 rounded"
+          />
+          <button
+            onClick={handleSave}
+            className="px-3 py-1.5 text-sm bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 cursor-pointer"
+          >
+            Save current
+          </button>
+        </div>
+
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by name or tag"
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+        />
+
+        {error && (
+          <div className="p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded">
+            {error}
+          </div>
+        )}
+
+        {visible.length === 0 ? (
+          <div className="text-xs text-gray-500">
+            {entries.length === 0
+              ? "No saved gradients yet."
+              : "No gradients match your search."}
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {visible.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex items-center gap-3 p-2 rounded border border-gray-200"
+              >
+                <div
+                  className="w-16 h-10 shrink-0 rounded border border-gray-300"
+                  style={{
+                    background: entry.thumbnail.background,
+                    backgroundBlendMode: entry.thumbnail.blendMode,
+                  }}
+                />
+                <div className="flex-1 min-w-0">
+                  {renamingId === entry.id ? (
+                    <input
+                      type="text"
+                      autoFocus
+                      value={renameText}
+                      onChange={(e) => setRenameText(e.target.value)}
+                      onBlur={() => handleRename(entry)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleRename(entry);
+                        if (e.key === "Escape") setRenamingId(null);
+                      }}
+                      className="w-full px-1 py-0.5 text-sm border border-gray-300 rounded"
+                    />
+                  ) : (
+                    <div className="text-sm font-medium text-gray-900 truncate">
+                      {entry.name}
+                    </div>
+                  )}
+                  <div className="flex flex-wrap gap-1 mt-0.5">
+                    {entry.tags.map((tag) => (
+                      <button
+                        key={tag}
+                        onClick={() => setQuery(tag)}
+                        className="px-1.5 text-xs text-gray-600 bg-gray-100 rounded cursor-pointer hover:bg-gray-200"
+                      >
+                        {tag}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 text-xs">
+                  <button
+                    onClick={() => handleOpen(entry)}
+                    className="text-blue-600 hover:text-blue-700 cursor-pointer"
+                  >
+                    Open
+                  </button>
+                  <button
+                    onClick={() => {
+                      setRenamingId(entry.id);
+                      setRenameText(entry.name);
+                    }}
+                    className="text-gray-600 hover:text-gray-800 cursor-pointer"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={() =>
+                      update(() =>
+                        putLibraryEntry(duplicateLibraryEntry(entry))
+                      )
+                    }
+                    className="text-gray-600 hover:text-gray-800 cursor-pointer"
+                  >
+                    Duplicate
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm(`Delete "${entry.name}"?`)) {
+                        update(() => deleteLibraryEntry(entry.id));
+                      }
+                    }}
+                    className="text-red-600 hover:text-red-700 cursor-pointer"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
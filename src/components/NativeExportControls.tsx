@@ -0,0 +1,72 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { GradientLayer } from "@/lib/gradient";
+import {
+  NATIVE_PLATFORMS,
+  NativePlatform,
+  generateNativeCode,
+} from "@/lib/nativeExport";
+
+interface NativeExportControlsProps {
+  layers: GradientLayer[];
+  previewW: number;
+  previewH: number;
+}
+
+// SwiftUI / Compose / Flutter code for the layer stack with a copy button
+export default function NativeExportControls({
+  layers,
+  previewW,
+  previewH,
+}: NativeExportControlsProps) {
+  const [platform, setPlatform] = useState<NativePlatform>("swiftui");
+
+  const code = useMemo(
+    () => generateNativeCode(platform, layers, previewW, previewH),
+    [platform, layers, previewW, previewH]
+  );
+
+  async function copyCode() {
+    try {
+      await navigator.clipboard.writeText(code);
+    } catch (e) {
+      console.error(e);
+      alert("Copy failed — please select & copy manually.");
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-2">
+          <label className="text-xs font-medium text-gray-600">Native</label>
+          <select
+            value={platform}
+            onChange={(e) => setPlatform(e.target.value as NativePlatform)}
+            className="px-1 py-0.5 text-xs border border-gray-300 rounded"
+          >
+            {NATIVE_PLATFORMS.map((p) => (
+              <option key={p.value} value={p.value}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={copyCode}
+          className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+        >
+          Copy
+        </button>
+      </div>
+      <textarea
+        readOnly
+        value={code}
+        rows={6}
+        className="w-full p-2 border border-gray-300 rounded font-mono text-xs bg-gray-50"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+
+import { formatColor } from "@/lib/color";
+import { GradientLayer, layerToCss } from "@/lib/gradient";
+import {
+  PaletteColor,
+  PaletteProposal,
+  extractPalette,
+  paletteProposals,
+} from "@/lib/palette";
+
+interface PaletteImportControlsProps {
+  onImport: (layers: GradientLayer[], name: string) => void;
+}
+
+// Images are scaled down to this many pixels on the long side before the
+// palette is extracted; plenty for a handful of colors
+const SAMPLE_SIZE = 128;
+const COLOR_COUNTS = [3, 4, 5, 6, 8];
+
+// Decode an image file and read back its (downscaled) pixels
+async function readPixels(file: File): Promise<Uint8ClampedArray> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(
+    1,
+    SAMPLE_SIZE / Math.max(bitmap.width, bitmap.height)
+  );
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+}
+
+// Drop or pick an image, extract its palette and pick one of the gradient
+// stacks proposed from it. Nothing leaves the browser.
+export default function PaletteImportControls({
+  onImport,
+}: PaletteImportControlsProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [pixels, setPixels] = useState<Uint8ClampedArray | null>(null);
+  const [colorCount, setColorCount] = useState(5);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // k-means over a few thousand pixels; only rerun when the input changes
+  const palette: PaletteColor[] = useMemo(
+    () => (pixels ? extractPalette(pixels, colorCount) : []),
+    [pixels, colorCount]
+  );
+  const proposals: PaletteProposal[] = useMemo(
+    () => paletteProposals(palette, { firstId: Date.now() }),
+    [palette]
+  );
+
+  async function readFile(file: File | undefined) {
+    if (!file) return;
+    setFileName(file.name);
+    setPixels(null);
+    setError(null);
+    try {
+      const data = await readPixels(file);
+      if (extractPalette(data, 1).length === 0) {
+        setError(`${file.name} has no opaque pixels`);
+      } else {
+        setPixels(data);
+      }
+    } catch (e) {
+      console.error(e);
+      setError(`Couldn't read ${file.name} as an image`);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragOver(true);
+        }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragOver(false);
+          readFile(e.dataTransfer.files[0]);
+        }}
+        className={`flex items-center justify-between gap-2 p-2 border border-dashed rounded ${
+          isDragOver ? "border-blue-500 bg-blue-50" : "border-gray-300"
+        }`}
+      >
+        <span className="text-xs text-gray-500 truncate">
+          {fileName ?? "Drop an image to build gradients from its colors"}
+        </span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            readFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer shrink-0"
+        >
+          Choose image…
+        </button>
+      </div>
+      {error && (
+        <div className="p-2 border rounded text-xs border-red-200 bg-red-50 text-red-700">
+          {error}
+        </div>
+      )}
+      {palette.length > 0 && (
+        <>
+          <div className="flex items-center gap-2">
+            <div className="flex flex-1 h-5 rounded overflow-hidden border border-gray-300">
+              {palette.map((p, i) => {
+                const hex = formatColor(p.color, "hex");
+                return (
+                  <div
+                    key={i}
+                    style={{ backgroundColor: hex, flexGrow: p.weight }}
+                    title={`${hex} (${Math.round(p.weight * 100)}%)`}
+                  />
+                );
+              })}
+            </div>
+            <select
+              value={colorCount}
+              onChange={(e) => setColorCount(Number(e.target.value))}
+              className="p-1 border border-gray-300 rounded text-xs"
+              title="Colors to extract"
+            >
+              {COLOR_COUNTS.map((n) => (
+                <option key={n} value={n}>
+                  {n} colors
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {proposals.map((proposal) => (
+              <button
+                key={proposal.name}
+                onClick={() => onImport(proposal.layers, proposal.name)}
+                className="group text-left cursor-pointer"
+                title={`Use the ${proposal.name.toLowerCase()} arrangement`}
+              >
+                <div
+                  className="h-12 rounded border border-gray-300 group-hover:border-blue-500"
+                  style={{
+                    background: proposal.layers
+                      .map((L) => layerToCss(L))
+                      .join(", "),
+                  }}
+                />
+                <div className="mt-0.5 text-[11px] text-gray-500 group-hover:text-blue-600">
+                  {proposal.name}
+                </div>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+
+import {
+  AppState,
+  GradientLayer,
+  blendModeList,
+  layerToCss,
+} from "@/lib/gradient";
+import {
+  PRESETS,
+  PRESET_CATEGORIES,
+  Preset,
+  PresetCategory,
+  searchPresets,
+} from "@/lib/presets";
+
+interface PresetGalleryProps {
+  onApply: (state: AppState, name: string) => void;
+  onAppend: (layers: GradientLayer[], name: string) => void;
+  onClose: () => void;
+}
+
+function presetBackground(preset: Preset) {
+  const { layers } = preset.state;
+  const modes = blendModeList(layers);
+  return {
+    background: layers.map((L) => layerToCss(L)).join(", "),
+    ...(modes && { backgroundBlendMode: modes.join(", ") }),
+  };
+}
+
+// Browse the bundled presets by category, search them by name or color,
+// and apply one in place of the current stack or below its layers
+export default function PresetGallery({
+  onApply,
+  onAppend,
+  onClose,
+}: PresetGalleryProps) {
+  const [query, setQuery] = useState("");
+  const [category, setCategory] = useState<PresetCategory | null>(null);
+  const [hovered, setHovered] = useState<Preset | null>(null);
+
+  const visible = searchPresets(query).filter(
+    (p) => !category || p.category === category
+  );
+  const shown = hovered ?? visible[0] ?? null;
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-white rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-3 border-b border-gray-100 flex items-center justify-between">
+          <h3 className="text-sm font-medium text-gray-700">Presets</h3>
+          <button
+            onClick={onClose}
+            className="text-xs text-gray-500 hover:text-gray-700 cursor-pointer"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="p-3 space-y-3 overflow-y-auto">
+          {/* Large preview of the hovered preset */}
+          <div
+            className="h-40 rounded border border-gray-300 flex items-end p-2"
+            style={shown ? presetBackground(shown) : undefined}
+          >
+            {shown && (
+              <span className="px-1.5 py-0.5 text-xs bg-white/80 rounded text-gray-700">
+                {shown.name} · {shown.category}
+              </span>
+            )}
+          </div>
+
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by name or color (e.g. aurora, pink, #ff6b6b)"
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+            autoFocus
+          />
+
+          <div className="flex flex-wrap gap-1">
+            {[null, ...PRESET_CATEGORIES].map((c) => (
+              <button
+                key={c ?? "all"}
+                onClick={() => setCategory(c)}
+                className={`px-2 py-0.5 text-xs rounded-full border cursor-pointer ${
+                  category === c
+                    ? "border-blue-300 bg-blue-50 text-blue-700"
+                    : "border-gray-200 text-gray-600 hover:border-gray-300"
+                }`}
+              >
+                {c ?? `All (${PRESETS.length})`}
+              </button>
+            ))}
+          </div>
+
+          {visible.length === 0 ? (
+            <div className="p-4 text-center text-xs text-gray-500">
+              No presets match your search.
+            </div>
+          ) : (
+            PRESET_CATEGORIES.map((c) => {
+              const presets = visible.filter((p) => p.category === c);
+              if (presets.length === 0) return null;
+              return (
+                <div key={c}>
+                  <div className="mb-1 text-xs font-medium text-gray-500">
+                    {c}
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    {presets.map((p) => (
+                      <div
+                        key={p.id}
+                        className="group"
+                        onMouseEnter={() => setHovered(p)}
+                        onMouseLeave={() => setHovered(null)}
+                      >
+                        <button
+                          onClick={() => onApply(p.state, p.name)}
+                          onFocus={() => setHovered(p)}
+                          className="block w-full h-16 rounded border border-gray-300 group-hover:border-blue-500 cursor-pointer"
+                          style={presetBackground(p)}
+                          title={`Replace the current gradient with ${p.name}`}
+                        />
+                        <div className="mt-0.5 flex items-center justify-between gap-1">
+                          <span className="text-[11px] text-gray-600 truncate">
+                            {p.name}
+                          </span>
+                          <button
+                            onClick={() => onAppend(p.state.layers, p.name)}
+                            className="text-[11px] text-blue-600 hover:text-blue-700 cursor-pointer shrink-0"
+                            title="Add these layers below the current ones"
+                          >
+                            + Append
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
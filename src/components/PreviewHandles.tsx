@@ -0,0 +1,377 @@
+"use client";
+
+import { useRef } from "react";
+
+import {
+  GradientLayer,
+  GradientStop,
+  gradientLine,
+  radialRadii,
+  usesAngle,
+  usesPosition,
+} from "@/lib/gradient";
+import { HistoryStep, gestureKey } from "@/lib/history";
+
+interface PreviewHandlesProps {
+  layer: GradientLayer;
+  // Size of the area under the handles: the preview inside its 1px border
+  width: number;
+  height: number;
+  selectedStopIndex: number;
+  onSelectStop: (index: number) => void;
+  onChangeLayer: (patch: Partial<GradientLayer>, step: HistoryStep) => void;
+  onChangeStop: (
+    index: number,
+    patch: Partial<GradientStop>,
+    step: HistoryStep
+  ) => void;
+}
+
+// How far handles may sit outside the box; points beyond it are pinned to
+// this margin (inside the preview padding) and still drag by offset
+const PIN_MARGIN = 10;
+// Distance of the rotation handle, and of conic stop markers, from the center
+const ROTATE_RADIUS = 40;
+const SWEEP_RADIUS = 28;
+
+// Shift-drag snapping increments
+const ANGLE_SNAP = 15;
+const PERCENT_SNAP = 5;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function snap(value: number, increment: number, enabled: boolean): number {
+  return enabled ? Math.round(value / increment) * increment : round2(value);
+}
+
+// CSS angle (0deg up, clockwise) of the direction from one point to another
+function cssAngle(dx: number, dy: number): number {
+  const deg = (Math.atan2(dx, -dy) * 180) / Math.PI;
+  return (deg + 360) % 360;
+}
+
+// Point at a CSS angle and distance from a center
+function polar(cx: number, cy: number, deg: number, r: number) {
+  const rad = (deg * Math.PI) / 180;
+  return { x: cx + Math.sin(rad) * r, y: cy - Math.cos(rad) * r };
+}
+
+// Off-canvas points are drawn faded at the margin
+function pinStyle(p: { x: number; y: number; pinned: boolean }) {
+  return { left: p.x, top: p.y, ...(p.pinned && { opacity: 0.7 }) };
+}
+
+// Whichever of angle + k*360 lies closest to `near`, so drags can wind past
+// 0deg/360deg without the value jumping
+function unwrapAngle(angle: number, near: number): number {
+  return angle + Math.round((near - angle) / 360) * 360;
+}
+
+// On-canvas handles for the selected layer: center, rotation, radii and
+// stop markers laid along the gradient line, sweep or radius
+export default function PreviewHandles({
+  layer,
+  width,
+  height,
+  selectedStopIndex,
+  onSelectStop,
+  onChangeLayer,
+  onChangeStop,
+}: PreviewHandlesProps) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  const pin = (p: { x: number; y: number }) => {
+    const x = Math.max(-PIN_MARGIN, Math.min(width + PIN_MARGIN, p.x));
+    const y = Math.max(-PIN_MARGIN, Math.min(height + PIN_MARGIN, p.y));
+    return { x, y, pinned: x !== p.x || y !== p.y };
+  };
+
+  // Geometry in overlay pixels
+  const center = usesPosition(layer.type)
+    ? { x: (layer.at.x / 100) * width, y: (layer.at.y / 100) * height }
+    : { x: width / 2, y: height / 2 };
+  const shownCenter = pin(center);
+  const radii =
+    layer.type === "radial" ? radialRadii(layer, width, height) : null;
+  const line =
+    layer.type === "linear" ? gradientLine(layer.from, width, height) : null;
+
+  // Where a stop position lands on the canvas
+  const stopPoint = (pos: number) => {
+    if (line) {
+      const t = pos / 100;
+      return pin({
+        x: line.x1 + (line.x2 - line.x1) * t,
+        y: line.y1 + (line.y2 - line.y1) * t,
+      });
+    }
+    if (radii) return pin({ x: center.x + (radii.x * pos) / 100, y: center.y });
+    // Angles read the same around any point, so the sweep follows the
+    // pinned center when the real one is off-canvas
+    return pin(
+      polar(shownCenter.x, shownCenter.y, layer.from + pos, SWEEP_RADIUS)
+    );
+  };
+
+  // Pointer position in overlay pixels
+  const toLocal = (e: PointerEvent) => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  // Capture the pointer on the handle, so mouse, touch and pen drags keep
+  // reaching it wherever they go until released
+  function startDrag(
+    e: React.PointerEvent<HTMLDivElement>,
+    onMove: (moveEvent: PointerEvent) => void
+  ) {
+    e.preventDefault();
+    e.stopPropagation();
+    const handle = e.currentTarget;
+    const { pointerId } = e;
+    handle.setPointerCapture(pointerId);
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      if (moveEvent.pointerId === pointerId) onMove(moveEvent);
+    };
+    const handleUp = (upEvent: PointerEvent) => {
+      if (upEvent.pointerId !== pointerId) return;
+      handle.removeEventListener("pointermove", handleMove);
+      handle.removeEventListener("pointerup", handleUp);
+      handle.removeEventListener("pointercancel", handleUp);
+    };
+
+    handle.addEventListener("pointermove", handleMove);
+    handle.addEventListener("pointerup", handleUp);
+    handle.addEventListener("pointercancel", handleUp);
+  }
+
+  // The center moves by the pointer's offset, so a pinned handle can bring
+  // it back into (or further out of) the box
+  function handleCenterDrag(e: React.PointerEvent<HTMLDivElement>) {
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const startAt = layer.at;
+    const step = { label: "Move center", key: gestureKey() };
+
+    startDrag(e, (moveEvent) => {
+      const x = startAt.x + ((moveEvent.clientX - startX) / width) * 100;
+      const y = startAt.y + ((moveEvent.clientY - startY) / height) * 100;
+      onChangeLayer(
+        {
+          at: {
+            x: snap(x, PERCENT_SNAP, moveEvent.shiftKey),
+            y: snap(y, PERCENT_SNAP, moveEvent.shiftKey),
+          },
+        },
+        step
+      );
+    });
+  }
+
+  function handleRotateDrag(e: React.PointerEvent<HTMLDivElement>) {
+    const step = { label: "Rotate", key: gestureKey() };
+
+    startDrag(e, (moveEvent) => {
+      const p = toLocal(moveEvent);
+      const angle = cssAngle(p.x - shownCenter.x, p.y - shownCenter.y);
+      onChangeLayer(
+        { from: snap(angle, ANGLE_SNAP, moveEvent.shiftKey) % 360 },
+        step
+      );
+    });
+  }
+
+  function handleStopDrag(
+    index: number,
+    field: "pos" | "pos2",
+    e: React.PointerEvent<HTMLDivElement>
+  ) {
+    onSelectStop(index);
+    let last = layer.stops[index][field] ?? layer.stops[index].pos;
+    const step = { label: `Move stop ${index + 1}`, key: gestureKey() };
+
+    startDrag(e, (moveEvent) => {
+      const p = toLocal(moveEvent);
+      let pos: number;
+      if (line) {
+        // Project onto the gradient line
+        const dx = line.x2 - line.x1;
+        const dy = line.y2 - line.y1;
+        const t =
+          ((p.x - line.x1) * dx + (p.y - line.y1) * dy) / (dx * dx + dy * dy);
+        pos = snap(t * 100, PERCENT_SNAP, moveEvent.shiftKey);
+      } else if (radii) {
+        const t = (p.x - center.x) / Math.max(radii.x, 1e-6);
+        pos = snap(t * 100, PERCENT_SNAP, moveEvent.shiftKey);
+      } else {
+        const angle = cssAngle(p.x - shownCenter.x, p.y - shownCenter.y);
+        pos = snap(
+          unwrapAngle(angle - layer.from, last),
+          ANGLE_SNAP,
+          moveEvent.shiftKey
+        );
+      }
+      last = pos;
+      onChangeStop(index, { [field]: pos }, step);
+    });
+  }
+
+  // Drag a radius handle; switches the layer to explicit radii
+  function handleRadiusDrag(
+    axis: "x" | "y",
+    e: React.PointerEvent<HTMLDivElement>
+  ) {
+    const startRadii = radii!;
+    const step = { label: "Resize radius", key: gestureKey() };
+
+    startDrag(e, (moveEvent) => {
+      const p = toLocal(moveEvent);
+      const dx = Math.abs(p.x - center.x);
+      const dy = Math.abs(p.y - center.y);
+
+      if (layer.shape === "circle") {
+        const r = Math.round(Math.hypot(dx, dy));
+        onChangeLayer({ size: { kind: "length", x: r, y: r } }, step);
+      } else {
+        onChangeLayer(
+          {
+            size: {
+              kind: "length",
+              x: Math.round(axis === "x" ? dx : startRadii.x),
+              y: Math.round(axis === "y" ? dy : startRadii.y),
+            },
+          },
+          step
+        );
+      }
+    });
+  }
+
+  const handleClass =
+    "absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-white border-2 border-blue-500 shadow pointer-events-auto touch-none cursor-grab active:cursor-grabbing";
+  const rotation = polar(
+    shownCenter.x,
+    shownCenter.y,
+    layer.from,
+    ROTATE_RADIUS
+  );
+
+  return (
+    <div ref={overlayRef} className="absolute inset-px pointer-events-none">
+      {/* Guides: gradient line, conic sweep, radial ending shape */}
+      <svg className="absolute inset-0 w-full h-full overflow-visible">
+        {line && (
+          <line
+            x1={line.x1}
+            y1={line.y1}
+            x2={line.x2}
+            y2={line.y2}
+            stroke="white"
+            strokeOpacity={0.8}
+            strokeDasharray="4 3"
+          />
+        )}
+        {layer.type === "conic" && (
+          <circle
+            cx={shownCenter.x}
+            cy={shownCenter.y}
+            r={SWEEP_RADIUS}
+            fill="none"
+            stroke="white"
+            strokeOpacity={0.8}
+            strokeDasharray="4 3"
+          />
+        )}
+        {radii && (
+          <ellipse
+            cx={center.x}
+            cy={center.y}
+            rx={radii.x}
+            ry={radii.y}
+            fill="none"
+            stroke="white"
+            strokeOpacity={0.8}
+            strokeDasharray="4 3"
+          />
+        )}
+        {usesAngle(layer.type) && (
+          <line
+            x1={shownCenter.x}
+            y1={shownCenter.y}
+            x2={rotation.x}
+            y2={rotation.y}
+            stroke="#3b82f6"
+          />
+        )}
+      </svg>
+
+      {/* Radius handles */}
+      {radii && (
+        <>
+          <div
+            className={handleClass}
+            style={pinStyle(pin({ x: center.x + radii.x, y: center.y }))}
+            title="Drag to resize"
+            onPointerDown={(e) => handleRadiusDrag("x", e)}
+          />
+          {layer.shape !== "circle" && (
+            <div
+              className={handleClass}
+              style={pinStyle(pin({ x: center.x, y: center.y + radii.y }))}
+              title="Drag to resize"
+              onPointerDown={(e) => handleRadiusDrag("y", e)}
+            />
+          )}
+        </>
+      )}
+
+      {/* Stop markers */}
+      {layer.stops.flatMap((stop, index) =>
+        (stop.pos2 != null
+          ? (["pos", "pos2"] as const)
+          : (["pos"] as const)
+        ).map((field) => {
+          const point = stopPoint(stop[field] ?? stop.pos);
+          return (
+            <div
+              key={`${index}-${field}`}
+              className={`absolute w-3.5 h-3.5 -ml-[7px] -mt-[7px] rounded-full border-2 shadow pointer-events-auto touch-none cursor-grab active:cursor-grabbing ${
+                selectedStopIndex === index ? "border-blue-500" : "border-white"
+              } ${field === "pos2" ? "border-dashed" : ""}`}
+              style={{ ...pinStyle(point), backgroundColor: stop.color }}
+              title={`Stop ${index + 1} (Shift to snap)`}
+              onPointerDown={(e) => handleStopDrag(index, field, e)}
+            />
+          );
+        })
+      )}
+
+      {/* Rotation handle */}
+      {usesAngle(layer.type) && (
+        <div
+          className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-blue-500 border-2 border-white shadow pointer-events-auto touch-none cursor-grab active:cursor-grabbing"
+          style={{ left: rotation.x, top: rotation.y }}
+          title={`Angle ${Math.round(layer.from)}° (Shift snaps to ${ANGLE_SNAP}°)`}
+          onPointerDown={handleRotateDrag}
+        />
+      )}
+
+      {/* Center handle */}
+      {usesPosition(layer.type) && (
+        <div
+          className={`absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-blue-500 shadow pointer-events-auto touch-none cursor-move ${
+            shownCenter.pinned ? "bg-blue-100 border-dashed" : "bg-white"
+          }`}
+          style={pinStyle(shownCenter)}
+          title={
+            shownCenter.pinned
+              ? `Center ${round2(layer.at.x)}% ${round2(layer.at.y)}% is outside the box; drag to move it`
+              : `Center (Shift snaps to ${PERCENT_SNAP}%)`
+          }
+          onPointerDown={handleCenterDrag}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { GradientLayer } from "@/lib/gradient";
+import {
+  SHADER_LANGUAGES,
+  ShaderLanguage,
+  generateShader,
+  generateShaderHarness,
+} from "@/lib/shaderExport";
+
+interface ShaderExportControlsProps {
+  layers: GradientLayer[];
+  previewW: number;
+}
+
+// Fragment shader source with copy, plus a WebGL harness page download
+export default function ShaderExportControls({
+  layers,
+  previewW,
+}: ShaderExportControlsProps) {
+  const [language, setLanguage] = useState<ShaderLanguage>("glsl");
+
+  const shader = useMemo(
+    () => generateShader(language, layers, previewW),
+    [language, layers, previewW]
+  );
+
+  async function copyShader() {
+    try {
+      await navigator.clipboard.writeText(shader);
+    } catch (e) {
+      console.error(e);
+      alert("Copy failed — please select & copy manually.");
+    }
+  }
+
+  function downloadHarness() {
+    const html = generateShaderHarness(layers, previewW);
+    const blob = new Blob([html], { type: "text/html" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "gradient-shader.html";
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-2">
+          <label className="text-xs font-medium text-gray-600">Shader</label>
+          <select
+            value={language}
+            onChange={(e) => setLanguage(e.target.value as ShaderLanguage)}
+            className="px-1 py-0.5 text-xs border border-gray-300 rounded"
+          >
+            {SHADER_LANGUAGES.map((l) => (
+              <option key={l.value} value={l.value}>
+                {l.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={copyShader}
+            className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+          >
+            Copy
+          </button>
+          <button
+            onClick={downloadHarness}
+            className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+            title="Standalone HTML page drawing the GLSL shader with WebGL"
+          >
+            Download harness
+          </button>
+        </div>
+      </div>
+      <textarea
+        readOnly
+        value={shader}
+        rows={6}
+        className="w-full p-2 border border-gray-300 rounded font-mono text-xs bg-gray-50"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useState } from "react";
+
+import {
+  GradientLayer,
+  GradientStop,
+  stopRange,
+  stopUnit,
+} from "@/lib/gradient";
+import { HistoryStep } from "@/lib/history";
+import {
+  distributeStops,
+  hueShiftStops,
+  mirrorStops,
+  offsetStops,
+  reverseStops,
+  sortStops,
+  wrapStops,
+} from "@/lib/stopOps";
+
+interface StopToolsProps {
+  layer: GradientLayer;
+  // Multi-selected stops; with fewer than two, tools work on every stop
+  selectedIndices: number[];
+  // `reordered` is set when stops were added or moved in the list, which
+  // leaves earlier indices pointing at other stops
+  onChangeStops: (
+    stops: GradientStop[],
+    step: HistoryStep,
+    reordered: boolean
+  ) => void;
+}
+
+// Bulk stop edits for the selected layer: reverse, distribute, mirror,
+// sort, seamless wrap, and offsetting positions or hues
+export default function StopTools({
+  layer,
+  selectedIndices,
+  onChangeStops,
+}: StopToolsProps) {
+  const [distributeFrom, setDistributeFrom] = useState("");
+  const [distributeTo, setDistributeTo] = useState("");
+  const [offset, setOffset] = useState(15);
+  const [hueShift, setHueShift] = useState(30);
+  // Shown while the layer still has the stops the last wrap produced
+  const [wrapNotice, setWrapNotice] = useState<{
+    stops: GradientStop[];
+    text: string;
+  } | null>(null);
+
+  const { stops } = layer;
+  const range = stopRange(layer.type);
+  const unit = stopUnit(layer.type);
+  const isSubset = selectedIndices.length >= 2;
+  const indices = isSubset ? selectedIndices : stops.map((_, i) => i);
+  const scope = isSubset ? `${indices.length} selected stops` : "all stops";
+
+  // A subset spreads over its own span by default, all stops over the range
+  const positions = indices.map((i) => stops[i].pos);
+  const defaultFrom = isSubset ? Math.min(...positions) : 0;
+  const defaultTo = isSubset ? Math.max(...positions) : range;
+
+  const apply = (next: GradientStop[], label: string, reordered = false) =>
+    onChangeStops(next, { label: `${label} (${scope})` }, reordered);
+
+  const buttonClass =
+    "px-2 py-1 text-xs bg-gray-100 border border-gray-300 rounded hover:bg-gray-200 cursor-pointer";
+  const inputClass = "w-14 px-1 py-0.5 text-xs border border-gray-300 rounded";
+
+  return (
+    <div className="space-y-2">
+      <div className="text-[11px] text-gray-500">
+        Applies to {scope}
+        {!isSubset && " (Shift-click stops on the bar to pick some)"}
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        <button
+          onClick={() => apply(reverseStops(stops, indices), "Reverse stops")}
+          className={buttonClass}
+          title="Reverse the order of the colors"
+        >
+          Reverse
+        </button>
+        <button
+          onClick={() =>
+            apply(
+              mirrorStops(
+                stops,
+                indices,
+                isSubset ? undefined : { lo: 0, hi: range }
+              ),
+              "Mirror stops",
+              true
+            )
+          }
+          className={buttonClass}
+          title="Squeeze into the first half and repeat backwards, for a symmetric sweep"
+        >
+          Mirror
+        </button>
+        <button
+          onClick={() => apply(sortStops(stops), "Sort stops", true)}
+          className={buttonClass}
+          title="Order every stop by position"
+        >
+          Sort
+        </button>
+        <button
+          onClick={() => {
+            const { stops: wrapped, removed } = wrapStops(stops, range);
+            const end = wrapped[wrapped.length - 1].pos;
+            apply(wrapped, "Wrap stops", true);
+            setWrapNotice(
+              removed > 0
+                ? {
+                    stops: wrapped,
+                    text: `Removed ${removed} ${removed === 1 ? "stop" : "stops"} past ${end}${unit}, where the gradient now closes`,
+                  }
+                : null
+            );
+          }}
+          className={buttonClass}
+          title={`End on the first color at +${range}${unit}, so the gradient closes seamlessly`}
+        >
+          Wrap
+        </button>
+      </div>
+      {wrapNotice?.stops === stops && (
+        <div className="p-2 border border-amber-200 bg-amber-50 rounded text-xs text-amber-800">
+          {wrapNotice.text}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-600">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => {
+              const from =
+                distributeFrom === "" ? defaultFrom : Number(distributeFrom);
+              const to = distributeTo === "" ? defaultTo : Number(distributeTo);
+              apply(
+                distributeStops(stops, indices, from, to),
+                "Distribute stops"
+              );
+            }}
+            className={buttonClass}
+          >
+            Distribute
+          </button>
+          <input
+            type="number"
+            value={distributeFrom}
+            placeholder={String(Number(defaultFrom.toFixed(2)))}
+            onChange={(e) => setDistributeFrom(e.target.value)}
+            className={inputClass}
+            title="From"
+          />
+          –
+          <input
+            type="number"
+            value={distributeTo}
+            placeholder={String(Number(defaultTo.toFixed(2)))}
+            onChange={(e) => setDistributeTo(e.target.value)}
+            className={inputClass}
+            title="To"
+          />
+          {unit}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() =>
+              apply(offsetStops(stops, indices, offset), "Offset stops")
+            }
+            className={buttonClass}
+          >
+            Offset
+          </button>
+          <input
+            type="number"
+            value={offset}
+            onChange={(e) => setOffset(Number(e.target.value))}
+            className={inputClass}
+            title="Amount to move every position by"
+          />
+          {unit}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() =>
+              apply(hueShiftStops(stops, indices, hueShift), "Shift hue")
+            }
+            className={buttonClass}
+          >
+            Hue
+          </button>
+          <input
+            type="number"
+            value={hueShift}
+            onChange={(e) => setHueShift(Number(e.target.value))}
+            className={inputClass}
+            title="Degrees to rotate each color's OKLCH hue by"
+          />
+          °
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { GradientLayer } from "@/lib/gradient";
+import { DEFAULT_CONIC_SEGMENTS, generateSvg } from "@/lib/svgExport";
+
+interface SvgExportControlsProps {
+  layers: GradientLayer[];
+  previewW: number;
+  previewH: number;
+}
+
+// SVG download with the conic wedge count and the measured deviation
+export default function SvgExportControls({
+  layers,
+  previewW,
+  previewH,
+}: SvgExportControlsProps) {
+  const [segments, setSegments] = useState(DEFAULT_CONIC_SEGMENTS);
+  const hasConic = layers.some((L) => L.enabled && L.type === "conic");
+
+  const result = useMemo(
+    () => generateSvg(layers, previewW, previewH, { conicSegments: segments }),
+    [layers, previewW, previewH, segments]
+  );
+
+  function downloadSvg() {
+    const blob = new Blob([result.svg], { type: "image/svg+xml" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "gradient.svg";
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async function copySvg() {
+    try {
+      await navigator.clipboard.writeText(result.svg);
+    } catch (e) {
+      console.error(e);
+      alert("Copy failed — please download the file instead.");
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="text-xs font-medium text-gray-600">SVG</label>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={copySvg}
+            className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+          >
+            Copy
+          </button>
+          <button
+            onClick={downloadSvg}
+            className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+          >
+            Download
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+        {hasConic && (
+          <label className="flex items-center gap-1">
+            Conic wedges
+            <input
+              type="number"
+              min={4}
+              max={1440}
+              value={segments}
+              onChange={(e) =>
+                setSegments(
+                  Math.max(4, Math.min(1440, Number(e.target.value) || 4))
+                )
+              }
+              className="w-16 px-1 py-0.5 text-xs border border-gray-300 rounded"
+            />
+          </label>
+        )}
+        <span
+          className={result.maxError > 2 ? "text-amber-700" : "text-gray-500"}
+          title="Largest channel difference from the CSS rendering, out of 255"
+        >
+          Max deviation: {result.maxError}/255
+        </span>
+        <span className="text-gray-400">
+          {(result.svg.length / 1024).toFixed(1)} KB
+        </span>
+      </div>
+    </div>
+  );
+}
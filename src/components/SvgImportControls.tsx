@@ -0,0 +1,117 @@
+"use client";
+
+import { useRef, useState } from "react";
+
+import { GradientLayer } from "@/lib/gradient";
+import { parseSvgGradients } from "@/lib/svgImport";
+
+interface SvgImportControlsProps {
+  previewW: number;
+  previewH: number;
+  onImport: (layers: GradientLayer[]) => void;
+}
+
+// SVG gradient import from pasted markup, a dropped file or the file picker
+export default function SvgImportControls({
+  previewW,
+  previewH,
+  onImport,
+}: SvgImportControlsProps) {
+  const [svgText, setSvgText] = useState("");
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [result, setResult] = useState<{
+    imported: number;
+    errors: string[];
+  } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  function importSvg(text: string) {
+    const { layers, errors } = parseSvgGradients(text, {
+      width: previewW,
+      height: previewH,
+    });
+    if (layers.length > 0) {
+      onImport(layers);
+      setSvgText("");
+    }
+    setResult(errors.length > 0 ? { imported: layers.length, errors } : null);
+  }
+
+  async function importFile(file: File | undefined) {
+    if (!file) return;
+    try {
+      importSvg(await file.text());
+    } catch (e) {
+      console.error(e);
+      setResult({ imported: 0, errors: [`Couldn't read ${file.name}`] });
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        placeholder="Paste SVG markup or drop an .svg file here..."
+        rows={3}
+        value={svgText}
+        onChange={(e) => setSvgText(e.target.value)}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragOver(true);
+        }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragOver(false);
+          importFile(e.dataTransfer.files[0]);
+        }}
+        className={`w-full p-2 border rounded text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+          isDragOver ? "border-blue-500 bg-blue-50" : "border-gray-300"
+        }`}
+      />
+      {result && (
+        // Partial imports get a warning; nothing imported is an error
+        <div
+          className={`p-2 border rounded text-xs space-y-1 ${
+            result.imported > 0
+              ? "border-amber-200 bg-amber-50 text-amber-800"
+              : "border-red-200 bg-red-50 text-red-700"
+          }`}
+        >
+          {result.errors.map((error, i) => (
+            <div key={i}>{error}</div>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center justify-end gap-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".svg,image/svg+xml"
+          className="hidden"
+          onChange={(e) => {
+            importFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+        >
+          Choose file…
+        </button>
+        <button
+          onClick={() => {
+            if (svgText.trim()) {
+              importSvg(svgText);
+            } else {
+              alert("Please paste some SVG first");
+            }
+          }}
+          className="px-3 py-1.5 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 cursor-pointer"
+        >
+          Import SVG
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { AppState } from "@/lib/gradient";
+import {
+  TOKEN_FORMATS,
+  TokenFormat,
+  generateTokens,
+  tokenSlug,
+} from "@/lib/tokens";
+
+interface TokenExportControlsProps {
+  state: AppState;
+}
+
+const FILE_EXTENSIONS: Record<TokenFormat, string> = {
+  dtcg: "tokens.json",
+  css: "css",
+  scss: "scss",
+};
+
+// Design-token output (DTCG JSON, CSS variables, SCSS) under a chosen name
+export default function TokenExportControls({
+  state,
+}: TokenExportControlsProps) {
+  const [format, setFormat] = useState<TokenFormat>("dtcg");
+  const [name, setName] = useState("brand");
+
+  const output = useMemo(
+    () => generateTokens(format, state, name),
+    [format, state, name]
+  );
+
+  async function copyTokens() {
+    try {
+      await navigator.clipboard.writeText(output);
+    } catch (e) {
+      console.error(e);
+      alert("Copy failed — please select & copy manually.");
+    }
+  }
+
+  function downloadTokens() {
+    const type = format === "dtcg" ? "application/json" : "text/plain";
+    const blob = new Blob([output], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `gradient-${tokenSlug(name)}.${FILE_EXTENSIONS[format]}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-2">
+          <label className="text-xs font-medium text-gray-600">Tokens</label>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as TokenFormat)}
+            className="px-1 py-0.5 text-xs border border-gray-300 rounded"
+          >
+            {TOKEN_FORMATS.map((f) => (
+              <option key={f.value} value={f.value}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Token name"
+            title={`Token name: gradient-${tokenSlug(name)}`}
+            className="w-24 px-1 py-0.5 text-xs border border-gray-300 rounded"
+          />
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={copyTokens}
+            className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+          >
+            Copy
+          </button>
+          <button
+            onClick={downloadTokens}
+            className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+          >
+            Download
+          </button>
+        </div>
+      </div>
+      <textarea
+        readOnly
+        value={output}
+        rows={6}
+        className="w-full p-2 border border-gray-300 rounded font-mono text-xs bg-gray-50"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useRef, useState } from "react";
+
+import { AppState } from "@/lib/gradient";
+import { TokenImportResult, parseGradientTokens } from "@/lib/tokens";
+
+interface TokenImportControlsProps {
+  previewW: number;
+  previewH: number;
+  onOpen: (state: AppState, name: string) => void;
+}
+
+// Pick a design-token JSON file, then one of its gradient tokens to load
+export default function TokenImportControls({
+  previewW,
+  previewH,
+  onOpen,
+}: TokenImportControlsProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<TokenImportResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  async function readFile(file: File | undefined) {
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      setResult(
+        parseGradientTokens(await file.text(), {
+          width: previewW,
+          height: previewH,
+        })
+      );
+    } catch (e) {
+      console.error(e);
+      setResult({ tokens: [], errors: [`Couldn't read ${file.name}`] });
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-500 truncate">
+          {fileName ?? "Design tokens (DTCG JSON)"}
+        </span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            readFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+        >
+          Import tokens…
+        </button>
+      </div>
+      {result && result.errors.length > 0 && (
+        <div
+          className={`p-2 border rounded text-xs space-y-1 ${
+            result.tokens.length > 0
+              ? "border-amber-200 bg-amber-50 text-amber-800"
+              : "border-red-200 bg-red-50 text-red-700"
+          }`}
+        >
+          {result.errors.map((error, i) => (
+            <div key={i}>{error}</div>
+          ))}
+        </div>
+      )}
+      {result && result.tokens.length > 0 && (
+        <ul className="max-h-40 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded">
+          {result.tokens.map((token) => (
+            <li
+              key={token.path}
+              className="flex items-center justify-between gap-2 px-2 py-1"
+            >
+              <div className="min-w-0">
+                <div className="text-xs font-mono text-gray-700 truncate">
+                  {token.path}
+                </div>
+                {token.description && (
+                  <div className="text-[11px] text-gray-400 truncate">
+                    {token.description}
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() => onOpen(token.state, token.path)}
+                className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer shrink-0"
+              >
+                Load
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,444 @@
+import { Rgba, formatColor, parseColor } from "./color";
+import {
+  AnimatableProperty,
+  AnimationTrack,
+  Easing,
+  GradientAnimation,
+  GradientLayer,
+  Keyframe,
+  LayerCssOverrides,
+  blendModeList,
+  layerToCss,
+  usesAngle,
+  usesPosition,
+} from "./gradient";
+import { mixColors } from "./raster";
+
+// Keyframe animation of layer and stop properties: sampling for the preview
+// and export as registered custom properties (@property) driven by one
+// @keyframes rule per track, which browsers interpolate smoothly inside
+// gradients. Before the first and after the last keyframe a track holds
+// its value, both here and in the exported CSS.
+
+export const DEFAULT_ANIMATION: GradientAnimation = {
+  duration: 4,
+  direction: "normal",
+  tracks: [],
+};
+
+const PROPERTY_LABELS: Record<AnimatableProperty, string> = {
+  from: "Angle",
+  "at.x": "Center X",
+  "at.y": "Center Y",
+  "size.x": "Radius X",
+  "size.y": "Radius Y",
+  opacity: "Opacity",
+  color: "Color",
+  pos: "Position",
+  pos2: "End position",
+  hint: "Hint",
+};
+
+export function isStopProperty(property: AnimatableProperty): boolean {
+  return ["color", "pos", "pos2", "hint"].includes(property);
+}
+
+export function propertyLabel(property: AnimatableProperty): string {
+  return PROPERTY_LABELS[property];
+}
+
+// Unit of a numeric property's values (opacity and colors have none)
+export function propertyUnit(
+  property: AnimatableProperty,
+  layer: GradientLayer
+): string {
+  switch (property) {
+    case "from":
+      return "deg";
+    case "at.x":
+    case "at.y":
+      return "%";
+    case "size.x":
+    case "size.y":
+      return "px";
+    case "pos":
+    case "pos2":
+    case "hint":
+      return layer.type === "conic" ? "deg" : "%";
+    default:
+      return "";
+  }
+}
+
+/**
+ * Properties that can be keyframed on a layer in its current form, or on
+ * one of its stops when `stopIndex` is given.
+ */
+export function animatableProperties(
+  layer: GradientLayer,
+  stopIndex?: number
+): AnimatableProperty[] {
+  if (stopIndex != null) {
+    const stop = layer.stops[stopIndex];
+    if (!stop) return [];
+    const properties: AnimatableProperty[] = ["color", "pos"];
+    if (stop.pos2 != null) properties.push("pos2");
+    if (stop.hint != null && stopIndex < layer.stops.length - 1) {
+      properties.push("hint");
+    }
+    return properties;
+  }
+
+  const properties: AnimatableProperty[] = [];
+  if (usesAngle(layer.type)) properties.push("from");
+  if (usesPosition(layer.type)) properties.push("at.x", "at.y");
+  if (layer.type === "radial" && layer.size?.kind === "length") {
+    properties.push("size.x");
+    if ((layer.shape ?? "ellipse") === "ellipse") properties.push("size.y");
+  }
+  properties.push("opacity");
+  return properties;
+}
+
+// Current value of a track's property on the layer it targets
+export function readProperty(
+  layer: GradientLayer,
+  target: Pick<AnimationTrack, "property" | "stopIndex">
+): number | string | undefined {
+  const stop =
+    target.stopIndex != null ? layer.stops[target.stopIndex] : undefined;
+  switch (target.property) {
+    case "from":
+      return layer.from;
+    case "at.x":
+      return layer.at.x;
+    case "at.y":
+      return layer.at.y;
+    case "size.x":
+      return layer.size?.kind === "length" ? layer.size.x : undefined;
+    case "size.y":
+      return layer.size?.kind === "length" ? layer.size.y : undefined;
+    case "opacity":
+      return layer.opacity;
+    case "color":
+      return stop?.color;
+    case "pos":
+      return stop?.pos;
+    case "pos2":
+      return stop?.pos2;
+    case "hint":
+      return stop?.hint;
+  }
+}
+
+function writeProperty(
+  layer: GradientLayer,
+  track: AnimationTrack,
+  value: number | string
+): GradientLayer {
+  if (isStopProperty(track.property)) {
+    const stops = layer.stops.map((s, i) =>
+      i === track.stopIndex ? { ...s, [track.property]: value } : s
+    );
+    return { ...layer, stops };
+  }
+  const n = Number(value);
+  switch (track.property) {
+    case "from":
+      return { ...layer, from: n };
+    case "at.x":
+      return { ...layer, at: { ...layer.at, x: n } };
+    case "at.y":
+      return { ...layer, at: { ...layer.at, y: n } };
+    case "size.x":
+    case "size.y":
+      if (layer.size?.kind !== "length") return layer;
+      return {
+        ...layer,
+        size: { ...layer.size, [track.property.slice(5)]: Math.max(0, n) },
+      };
+    default:
+      return { ...layer, opacity: Math.max(0, Math.min(1, n)) };
+  }
+}
+
+// Tracks whose layer (and stop) still exist with the animated property
+export function liveTracks(
+  layers: GradientLayer[],
+  animation: GradientAnimation
+): { track: AnimationTrack; layer: GradientLayer; index: number }[] {
+  return animation.tracks.flatMap((track) => {
+    const index = layers.findIndex((L) => L.id === track.layerId);
+    const layer = layers[index];
+    if (
+      !layer ||
+      track.keyframes.length === 0 ||
+      !animatableProperties(layer, track.stopIndex).includes(track.property)
+    ) {
+      return [];
+    }
+    return [{ track, layer, index }];
+  });
+}
+
+// "Layer 2 · Stop 1 color", numbering layers and stops from 1
+export function trackLabel(track: AnimationTrack, layerIndex: number): string {
+  const parts = [`Layer ${layerIndex + 1}`];
+  if (track.stopIndex != null) {
+    parts.push(
+      `Stop ${track.stopIndex + 1} ${propertyLabel(track.property).toLowerCase()}`
+    );
+  } else {
+    parts.push(propertyLabel(track.property));
+  }
+  return parts.join(" · ");
+}
+
+// Keyframes in time order (the list is only sorted once an edit is done)
+export function sortedKeyframes(track: AnimationTrack): Keyframe[] {
+  return [...track.keyframes].sort((a, b) => a.offset - b.offset);
+}
+
+// Add a keyframe to a track, replacing one at the same offset
+export function setKeyframe(
+  track: AnimationTrack,
+  keyframe: Keyframe
+): AnimationTrack {
+  const keyframes = sortedKeyframes({
+    ...track,
+    keyframes: track.keyframes
+      .filter((k) => Math.abs(k.offset - keyframe.offset) > 1e-6)
+      .concat(keyframe),
+  });
+  return { ...track, keyframes };
+}
+
+// Control points of the CSS timing-function keywords
+const EASING_CURVES: Record<Easing, [number, number, number, number]> = {
+  linear: [0, 0, 1, 1],
+  ease: [0.25, 0.1, 0.25, 1],
+  "ease-in": [0.42, 0, 1, 1],
+  "ease-out": [0, 0, 0.58, 1],
+  "ease-in-out": [0.42, 0, 0.58, 1],
+};
+
+// Evaluate a cubic-bezier timing function at input progress x
+function ease(easing: Easing, x: number): number {
+  const [x1, y1, x2, y2] = EASING_CURVES[easing];
+  if (easing === "linear") return x;
+  const bezier = (t: number, p1: number, p2: number) =>
+    3 * (1 - t) * (1 - t) * t * p1 + 3 * (1 - t) * t * t * p2 + t * t * t;
+
+  // x(t) is monotonic on [0, 1], so bisection always converges
+  let lo = 0;
+  let hi = 1;
+  let t = x;
+  for (let i = 0; i < 30; i++) {
+    const guess = bezier(t, x1, x2);
+    if (Math.abs(guess - x) < 1e-6) break;
+    if (guess < x) lo = t;
+    else hi = t;
+    t = (lo + hi) / 2;
+  }
+  return bezier(t, y1, y2);
+}
+
+function mixValues(
+  a: number | string,
+  b: number | string,
+  f: number
+): number | string {
+  if (typeof a === "number" && typeof b === "number") return a + (b - a) * f;
+
+  // Registered <color> properties interpolate in Oklab
+  const c1 = parseColor(String(a));
+  const c2 = parseColor(String(b));
+  if (!c1 || !c2) return f < 0.5 ? a : b;
+  const [r, g, bl, alpha] = mixColors(c1, c2, f, "oklab");
+  const straight: Rgba =
+    alpha > 0
+      ? {
+          r: (r / alpha) * 255,
+          g: (g / alpha) * 255,
+          b: (bl / alpha) * 255,
+          a: alpha,
+        }
+      : { r: 0, g: 0, b: 0, a: 0 };
+  return formatColor(straight, "rgb");
+}
+
+// Value of a track at an offset (percent of the duration)
+export function trackValueAt(
+  track: AnimationTrack,
+  offset: number
+): number | string {
+  const keyframes = sortedKeyframes(track);
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  if (offset <= first.offset) return first.value;
+  if (offset >= last.offset) return last.value;
+
+  const next = keyframes.findIndex((k) => k.offset > offset);
+  const a = keyframes[next - 1];
+  const b = keyframes[next];
+  const f = (offset - a.offset) / (b.offset - a.offset);
+  return mixValues(a.value, b.value, ease(a.easing, f));
+}
+
+// Offset (percent of the duration) reached after `time` seconds of playback
+export function animationOffset(
+  animation: GradientAnimation,
+  time: number
+): number {
+  const iterations = Math.max(0, time) / animation.duration;
+  const progress = iterations % 1;
+  const backwards =
+    animation.direction === "alternate" && Math.floor(iterations) % 2 === 1;
+  return (backwards ? 1 - progress : progress) * 100;
+}
+
+// The layers as they appear `time` seconds into the animation
+export function sampleLayers(
+  layers: GradientLayer[],
+  animation: GradientAnimation,
+  time: number
+): GradientLayer[] {
+  const offset = animationOffset(animation, time);
+  const sampled = [...layers];
+  for (const { track, index } of liveTracks(layers, animation)) {
+    sampled[index] = writeProperty(
+      sampled[index],
+      track,
+      trackValueAt(track, offset)
+    );
+  }
+  return sampled;
+}
+
+// @property syntax of a track's values
+function propertySyntax(track: AnimationTrack, layer: GradientLayer): string {
+  if (track.property === "color") return "<color>";
+  if (track.property === "opacity") return "<number>";
+  const unit = propertyUnit(track.property, layer);
+  return unit === "deg"
+    ? "<angle>"
+    : unit === "px"
+      ? "<length>"
+      : "<percentage>";
+}
+
+function formatValue(
+  value: number | string,
+  track: AnimationTrack,
+  layer: GradientLayer
+): string {
+  if (typeof value === "string") return value;
+  return `${Number(value.toFixed(3))}${propertyUnit(track.property, layer)}`;
+}
+
+// Custom property name, e.g. --gradient-l1-from or --gradient-l2-s3-color
+function variableName(track: AnimationTrack, layerIndex: number): string {
+  const stop = track.stopIndex != null ? `-s${track.stopIndex + 1}` : "";
+  return `--gradient-l${layerIndex + 1}${stop}-${track.property.replace(".", "-")}`;
+}
+
+/**
+ * CSS for the animated gradient: an @property registration per animated
+ * value, a rule whose background reads them through var(), and one
+ * @keyframes rule per track carrying its per-segment easing.
+ */
+export function generateAnimationCss(
+  layers: GradientLayer[],
+  animation: GradientAnimation,
+  selector = ".gradient"
+): string {
+  const tracks = liveTracks(layers, animation);
+  const overrides = new Map<number, LayerCssOverrides>();
+  const registrations: string[] = [];
+  const keyframeRules: string[] = [];
+  const animations: string[] = [];
+
+  for (const { track, layer, index } of tracks) {
+    const name = variableName(track, index);
+    const o = overrides.get(layer.id) ?? {};
+    overrides.set(layer.id, o);
+    const ref = `var(${name})`;
+
+    if (track.stopIndex != null) {
+      o.stops ??= [];
+      o.stops[track.stopIndex] = {
+        ...o.stops[track.stopIndex],
+        [track.property]: ref,
+      };
+    } else if (track.property === "from" || track.property === "opacity") {
+      o[track.property] = ref;
+    } else {
+      const [group, axis] = track.property.split(".") as [
+        "at" | "size",
+        "x" | "y",
+      ];
+      o[group] = { ...o[group], [axis]: ref };
+    }
+
+    const base = readProperty(layer, track) ?? track.keyframes[0].value;
+    registrations.push(
+      [
+        `@property ${name} {`,
+        `  syntax: "${propertySyntax(track, layer)}";`,
+        "  inherits: false;",
+        `  initial-value: ${formatValue(base, track, layer)};`,
+        "}",
+      ].join("\n")
+    );
+
+    // Explicit 0% and 100% keyframes hold the first and last values
+    const keyframes = sortedKeyframes(track);
+    const frames = keyframes.map((k) => ({
+      selectors: [`${Number(k.offset.toFixed(3))}%`],
+      keyframe: k,
+    }));
+    if (keyframes[0].offset > 0) frames[0].selectors.unshift("0%");
+    const tail = frames[frames.length - 1];
+    if (tail.keyframe.offset < 100) tail.selectors.push("100%");
+
+    const ruleName = name.slice(2);
+    keyframeRules.push(
+      [
+        `@keyframes ${ruleName} {`,
+        ...frames.map(({ selectors, keyframe }, i) =>
+          [
+            `  ${selectors.join(", ")} {`,
+            `    ${name}: ${formatValue(keyframe.value, track, layer)};`,
+            ...(i < frames.length - 1 && keyframe.easing !== "linear"
+              ? [`    animation-timing-function: ${keyframe.easing};`]
+              : []),
+            "  }",
+          ].join("\n")
+        ),
+        "}",
+      ].join("\n")
+    );
+    const direction = animation.direction === "alternate" ? " alternate" : "";
+    animations.push(
+      `${ruleName} ${animation.duration}s linear infinite${direction}`
+    );
+  }
+
+  const background = layers
+    .filter((L) => L.enabled)
+    .map((L) => `    ${layerToCss(L, overrides.get(L.id))}`)
+    .join(",\n");
+  const modes = blendModeList(layers);
+
+  const rule = [
+    `${selector} {`,
+    `  background:\n${background};`,
+    ...(modes ? [`  background-blend-mode: ${modes.join(", ")};`] : []),
+    ...(animations.length > 0
+      ? [`  animation:\n${animations.map((a) => `    ${a}`).join(",\n")};`]
+      : []),
+    "}",
+  ].join("\n");
+
+  return [...registrations, rule, ...keyframeRules].join("\n\n") + "\n";
+}
@@ -0,0 +1,679 @@
+// Color helpers shared by the editor and the exporters
+
+// sRGB color with 0-255 channels (unclamped floats) and 0-1 alpha
+export interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+// Notations a stop color can be written in
+export type ColorFormat =
+  "hex" | "rgb" | "hsl" | "hwb" | "lab" | "lch" | "oklab" | "oklch";
+
+export const COLOR_FORMATS: ColorFormat[] = [
+  "hex",
+  "rgb",
+  "hsl",
+  "hwb",
+  "lab",
+  "lch",
+  "oklab",
+  "oklch",
+];
+
+export type Vec3 = [number, number, number];
+
+function multiply(m: number[][], v: Vec3): Vec3 {
+  return [
+    m[0][0] * v[0] + m[0][1] * v[1] + m[0][2] * v[2],
+    m[1][0] * v[0] + m[1][1] * v[1] + m[1][2] * v[2],
+    m[2][0] * v[0] + m[2][1] * v[1] + m[2][2] * v[2],
+  ];
+}
+
+// sRGB transfer function, channels in 0-1
+export function srgbToLinear(c: number): number {
+  const abs = Math.abs(c);
+  if (abs <= 0.04045) return c / 12.92;
+  return Math.sign(c) * ((abs + 0.055) / 1.055) ** 2.4;
+}
+
+export function linearToSrgb(c: number): number {
+  const abs = Math.abs(c);
+  if (abs <= 0.0031308) return c * 12.92;
+  return Math.sign(c) * (1.055 * abs ** (1 / 2.4) - 0.055);
+}
+
+const LINEAR_SRGB_TO_XYZ_D65 = [
+  [0.4123907992659595, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496606],
+];
+const XYZ_D65_TO_LINEAR_SRGB = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+];
+// Bradford chromatic adaptation between the D65 and D50 white points
+const D65_TO_D50 = [
+  [1.0479298208405488, 0.022946793341019088, -0.05019222954313557],
+  [0.029627815688159344, 0.990434484573249, -0.01707382502938514],
+  [-0.009243058152591178, 0.015055144896577895, 0.7518742899580008],
+];
+const D50_TO_D65 = [
+  [0.9554734527042182, -0.023098536874261423, 0.0632593086610217],
+  [-0.028369706963208136, 1.0099954580058226, 0.021041398966943008],
+  [0.012314001688319899, -0.020507696433477912, 1.3303659366080753],
+];
+const LINEAR_P3_TO_XYZ_D65 = [
+  [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+  [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+  [0, 0.04511338185890264, 1.043944368900976],
+];
+const XYZ_D65_TO_LINEAR_P3 = [
+  [2.493496911941425, -0.9313836179191239, -0.40271078445071684],
+  [-0.8294889695615747, 1.7626640603183463, 0.023624685841943577],
+  [0.03584583024378447, -0.07617238926804182, 0.9568845240076872],
+];
+const D50_WHITE: Vec3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+// Linear-light sRGB channels in 0-1
+export function rgbToLinearVec(c: Rgba): Vec3 {
+  return [
+    srgbToLinear(c.r / 255),
+    srgbToLinear(c.g / 255),
+    srgbToLinear(c.b / 255),
+  ];
+}
+
+export function linearVecToRgb(v: Vec3, a = 1): Rgba {
+  return {
+    r: linearToSrgb(v[0]) * 255,
+    g: linearToSrgb(v[1]) * 255,
+    b: linearToSrgb(v[2]) * 255,
+    a,
+  };
+}
+
+// CIE XYZ (D65), as used by CSS xyz and xyz-d65
+export function rgbToXyz(c: Rgba): Vec3 {
+  return multiply(LINEAR_SRGB_TO_XYZ_D65, rgbToLinearVec(c));
+}
+
+export function xyzToRgb(xyz: Vec3, alpha = 1): Rgba {
+  return linearVecToRgb(multiply(XYZ_D65_TO_LINEAR_SRGB, xyz), alpha);
+}
+
+// Display P3 channels in 0-1 (P3 primaries with the sRGB transfer function)
+export function rgbToDisplayP3(c: Rgba): Vec3 {
+  const p3 = multiply(XYZ_D65_TO_LINEAR_P3, rgbToXyz(c));
+  return [linearToSrgb(p3[0]), linearToSrgb(p3[1]), linearToSrgb(p3[2])];
+}
+
+export function displayP3ToRgb([r, g, b]: Vec3, alpha = 1): Rgba {
+  const linear: Vec3 = [srgbToLinear(r), srgbToLinear(g), srgbToLinear(b)];
+  return xyzToRgb(multiply(LINEAR_P3_TO_XYZ_D65, linear), alpha);
+}
+
+// CIE Lab (D50), as used by CSS lab() and lch()
+export function rgbToLab(c: Rgba): Vec3 {
+  const xyz = multiply(
+    D65_TO_D50,
+    multiply(LINEAR_SRGB_TO_XYZ_D65, rgbToLinearVec(c))
+  );
+  const f = xyz.map((v, i) => {
+    const t = v / D50_WHITE[i];
+    return t > LAB_EPSILON ? Math.cbrt(t) : (LAB_KAPPA * t + 16) / 116;
+  });
+  return [116 * f[1] - 16, 500 * (f[0] - f[1]), 200 * (f[1] - f[2])];
+}
+
+export function labToRgb([L, a, b]: Vec3, alpha = 1): Rgba {
+  const fy = (L + 16) / 116;
+  const fx = a / 500 + fy;
+  const fz = fy - b / 200;
+  const xyz: Vec3 = [
+    (fx ** 3 > LAB_EPSILON ? fx ** 3 : (116 * fx - 16) / LAB_KAPPA) *
+      D50_WHITE[0],
+    (L > LAB_KAPPA * LAB_EPSILON ? fy ** 3 : L / LAB_KAPPA) * D50_WHITE[1],
+    (fz ** 3 > LAB_EPSILON ? fz ** 3 : (116 * fz - 16) / LAB_KAPPA) *
+      D50_WHITE[2],
+  ];
+  return linearVecToRgb(
+    multiply(XYZ_D65_TO_LINEAR_SRGB, multiply(D50_TO_D65, xyz)),
+    alpha
+  );
+}
+
+// OKLab, straight from linear sRGB through the LMS cone space
+export function rgbToOklab(c: Rgba): Vec3 {
+  const [r, g, b] = rgbToLinearVec(c);
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+}
+
+export function oklabToRgb([L, a, b]: Vec3, alpha = 1): Rgba {
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (L - 0.0894841775 * a - 1.291485548 * b) ** 3;
+  return linearVecToRgb(
+    [
+      4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+      -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+      -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+    ],
+    alpha
+  );
+}
+
+// Rectangular <-> polar form (lab <-> lch, oklab <-> oklch), hue in degrees
+export function toPolar([L, a, b]: Vec3): Vec3 {
+  const h = (Math.atan2(b, a) * 180) / Math.PI;
+  return [L, Math.hypot(a, b), h < 0 ? h + 360 : h];
+}
+
+export function fromPolar([L, C, h]: Vec3): Vec3 {
+  const rad = (h * Math.PI) / 180;
+  return [L, C * Math.cos(rad), C * Math.sin(rad)];
+}
+
+// HSL/HWB with hue in degrees and the other channels in 0-1
+export function hslToRgb(h: number, s: number, l: number, a = 1): Rgba {
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const t = s * Math.min(l, 1 - l);
+    return (l - t * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+  };
+  return { r: f(0), g: f(8), b: f(4), a };
+}
+
+export function rgbToHsl(c: Rgba): Vec3 {
+  const r = c.r / 255;
+  const g = c.g / 255;
+  const b = c.b / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return [0, 0, l];
+
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === r) h = ((g - b) / d) % 6;
+  else if (max === g) h = (b - r) / d + 2;
+  else h = (r - g) / d + 4;
+  h *= 60;
+  return [h < 0 ? h + 360 : h, s, l];
+}
+
+export function hwbToRgb(h: number, w: number, bl: number, a = 1): Rgba {
+  if (w + bl >= 1) {
+    const gray = (w / (w + bl)) * 255;
+    return { r: gray, g: gray, b: gray, a };
+  }
+  const base = hslToRgb(h, 1, 0.5, a);
+  const scale = (v: number) => (v / 255) * (1 - w - bl) * 255 + w * 255;
+  return { r: scale(base.r), g: scale(base.g), b: scale(base.b), a };
+}
+
+export function rgbToHwb(c: Rgba): Vec3 {
+  const [h] = rgbToHsl(c);
+  const w = Math.min(c.r, c.g, c.b) / 255;
+  const bl = 1 - Math.max(c.r, c.g, c.b) / 255;
+  return [h, w, bl];
+}
+
+// Parse one channel; `percentScale` is what 100% maps to
+function parseChannel(value: string, percentScale: number): number | null {
+  const v = value.trim().toLowerCase();
+  if (v === "none") return 0;
+  const n = parseFloat(v);
+  if (Number.isNaN(n)) return null;
+  return v.endsWith("%") ? (n / 100) * percentScale : n;
+}
+
+function parseHue(value: string): number | null {
+  const v = value.trim().toLowerCase();
+  if (v === "none") return 0;
+  const n = parseFloat(v);
+  if (Number.isNaN(n)) return null;
+  if (v.endsWith("turn")) return n * 360;
+  if (v.endsWith("grad")) return n * 0.9;
+  if (v.endsWith("rad")) return (n * 180) / Math.PI;
+  return n;
+}
+
+function parseHex(hex: string): Rgba | null {
+  if (!/^[0-9a-f]+$/i.test(hex)) return null;
+  const expanded =
+    hex.length === 3 || hex.length === 4
+      ? hex
+          .split("")
+          .map((c) => c + c)
+          .join("")
+      : hex;
+  if (expanded.length !== 6 && expanded.length !== 8) return null;
+  const byte = (i: number) => parseInt(expanded.slice(i, i + 2), 16);
+  return {
+    r: byte(0),
+    g: byte(2),
+    b: byte(4),
+    a: expanded.length === 8 ? byte(6) / 255 : 1,
+  };
+}
+
+// Split "fn(args)" into its name, channel strings and optional alpha string
+function splitColorFunction(
+  color: string
+): { fn: string; channels: string[]; alpha?: string; legacy: boolean } | null {
+  const match = color.trim().match(/^([a-z]+)\(\s*([^()]*)\)$/i);
+  if (!match) return null;
+
+  const fn = match[1].toLowerCase();
+  const body = match[2].trim();
+  // Legacy syntax separates every channel, including alpha, with commas
+  if (body.includes(",")) {
+    const parts = body.split(",").map((p) => p.trim());
+    return { fn, channels: parts.slice(0, 3), alpha: parts[3], legacy: true };
+  }
+  const [channels, alpha] = body.split("/");
+  return {
+    fn,
+    channels: channels.trim().split(/\s+/),
+    alpha: alpha?.trim(),
+    legacy: false,
+  };
+}
+
+/**
+ * Parse any supported CSS color into sRGB. Returns null for colors that
+ * can't be resolved statically, such as var() or currentcolor.
+ */
+export function parseColor(color: string): Rgba | null {
+  const value = color.trim().toLowerCase();
+
+  if (value.startsWith("#")) return parseHex(value.slice(1));
+  if (value === "transparent") return { r: 0, g: 0, b: 0, a: 0 };
+  if (Object.hasOwn(NAMED_COLORS, value))
+    return parseHex(NAMED_COLORS[value].slice(1));
+
+  const parts = splitColorFunction(value);
+  if (!parts || parts.channels.length !== 3) return null;
+
+  const alpha = parts.alpha == null ? 1 : parseChannel(parts.alpha, 1);
+  const [c0, c1, c2] = parts.channels;
+  let result: Rgba | null = null;
+
+  switch (parts.fn) {
+    case "rgb":
+    case "rgba": {
+      const [r, g, b] = [c0, c1, c2].map((c) => parseChannel(c, 255));
+      if (r != null && g != null && b != null) result = { r, g, b, a: 1 };
+      break;
+    }
+    case "hsl":
+    case "hsla": {
+      const h = parseHue(c0);
+      const s = parseChannel(c1, 100);
+      const l = parseChannel(c2, 100);
+      if (h != null && s != null && l != null) {
+        result = hslToRgb(((h % 360) + 360) % 360, s / 100, l / 100);
+      }
+      break;
+    }
+    case "hwb": {
+      const h = parseHue(c0);
+      const w = parseChannel(c1, 100);
+      const bl = parseChannel(c2, 100);
+      if (h != null && w != null && bl != null) {
+        result = hwbToRgb(((h % 360) + 360) % 360, w / 100, bl / 100);
+      }
+      break;
+    }
+    case "lab":
+    case "oklab": {
+      const ok = parts.fn === "oklab";
+      const L = parseChannel(c0, ok ? 1 : 100);
+      const a = parseChannel(c1, ok ? 0.4 : 125);
+      const b = parseChannel(c2, ok ? 0.4 : 125);
+      if (L != null && a != null && b != null) {
+        result = ok ? oklabToRgb([L, a, b]) : labToRgb([L, a, b]);
+      }
+      break;
+    }
+    case "lch":
+    case "oklch": {
+      const ok = parts.fn === "oklch";
+      const L = parseChannel(c0, ok ? 1 : 100);
+      const C = parseChannel(c1, ok ? 0.4 : 150);
+      const h = parseHue(c2);
+      if (L != null && C != null && h != null) {
+        const lab = fromPolar([L, C, h]);
+        result = ok ? oklabToRgb(lab) : labToRgb(lab);
+      }
+      break;
+    }
+  }
+
+  if (!result || alpha == null) return null;
+  return { ...result, a: Math.max(0, Math.min(1, alpha)) };
+}
+
+// Functions a CSS color may be written with, including ones that only
+// resolve in the browser
+export const COLOR_FUNCTIONS = new Set([
+  "rgb",
+  "rgba",
+  "hsl",
+  "hsla",
+  "hwb",
+  "lab",
+  "lch",
+  "oklab",
+  "oklch",
+  "color",
+  "color-mix",
+  "light-dark",
+  "var",
+]);
+
+// parseColor is lenient (parseFloat ignores trailing junk), so colors from
+// untrusted sources are also held to these characters
+const SAFE_COLOR = /^[\w\s#.,%/()+-]+$/;
+
+/**
+ * Whether a stop color from a share link or an imported file is safe to
+ * write into CSS: a color parseColor resolves, currentcolor, or a single
+ * call built only from color functions, such as var(--brand) or
+ * color-mix(in oklab, red, var(--accent)).
+ */
+export function isStopColor(color: string): boolean {
+  const value = color.trim().toLowerCase();
+  if (!SAFE_COLOR.test(value)) return false;
+  if (parseColor(value) || value === "currentcolor") return true;
+  if (!/^[a-z-]+\(/.test(value)) return false;
+
+  let depth = 0;
+  for (const match of value.matchAll(/([a-z-]*)\(|\)/g)) {
+    if (match[0] !== ")") {
+      if (!COLOR_FUNCTIONS.has(match[1])) return false;
+      depth++;
+      continue;
+    }
+    depth--;
+    // The outermost call has to span the whole value
+    if (depth < 0 || (depth === 0 && match.index !== value.length - 1)) {
+      return false;
+    }
+  }
+  return depth === 0;
+}
+
+// Notation a color string is written in, or null for keywords and var()
+export function colorFormat(color: string): ColorFormat | null {
+  const value = color.trim().toLowerCase();
+  if (value.startsWith("#")) return "hex";
+  const fn = value.match(/^([a-z]+)\(/)?.[1];
+  if (fn === "rgb" || fn === "rgba") return "rgb";
+  if (fn === "hsl" || fn === "hsla") return "hsl";
+  if (COLOR_FORMATS.includes(fn as ColorFormat)) return fn as ColorFormat;
+  return null;
+}
+
+function round(n: number, digits: number): number {
+  return Number(n.toFixed(digits));
+}
+
+function clampByte(n: number): number {
+  return Math.max(0, Math.min(255, Math.round(n)));
+}
+
+function alphaSuffix(a: number): string {
+  return a < 1 ? ` / ${round(a, 3)}` : "";
+}
+
+/**
+ * Write a color in the given notation. Hex falls back to rgba() when the
+ * color is translucent, matching how the editor has always stored alpha.
+ */
+export function formatColor(c: Rgba, format: ColorFormat): string {
+  const r = clampByte(c.r);
+  const g = clampByte(c.g);
+  const b = clampByte(c.b);
+  const a = round(c.a, 3);
+
+  switch (format) {
+    case "hex":
+      if (a < 1) return `rgba(${r}, ${g}, ${b}, ${a})`;
+      return `#${[r, g, b].map((v) => v.toString(16).padStart(2, "0")).join("")}`;
+    case "rgb":
+      return a < 1 ? `rgba(${r}, ${g}, ${b}, ${a})` : `rgb(${r}, ${g}, ${b})`;
+    case "hsl": {
+      const [h, s, l] = rgbToHsl({ r, g, b, a });
+      return `hsl(${round(h, 1)} ${round(s * 100, 1)}% ${round(l * 100, 1)}%${alphaSuffix(a)})`;
+    }
+    case "hwb": {
+      const [h, w, bl] = rgbToHwb({ r, g, b, a });
+      return `hwb(${round(h, 1)} ${round(w * 100, 1)}% ${round(bl * 100, 1)}%${alphaSuffix(a)})`;
+    }
+    case "lab": {
+      const [L, la, lb] = rgbToLab(c);
+      return `lab(${round(L, 2)} ${round(la, 2)} ${round(lb, 2)}${alphaSuffix(a)})`;
+    }
+    case "lch": {
+      const [L, C, h] = toPolar(rgbToLab(c));
+      return `lch(${round(L, 2)} ${round(C, 2)} ${round(h, 1)}${alphaSuffix(a)})`;
+    }
+    case "oklab": {
+      const [L, oa, ob] = rgbToOklab(c);
+      return `oklab(${round(L, 4)} ${round(oa, 4)} ${round(ob, 4)}${alphaSuffix(a)})`;
+    }
+    case "oklch": {
+      const [L, C, h] = toPolar(rgbToOklab(c));
+      return `oklch(${round(L, 4)} ${round(C, 4)} ${round(h, 2)}${alphaSuffix(a)})`;
+    }
+  }
+}
+
+/**
+ * Replace a color's alpha while keeping its notation and channel values
+ * as written. Hex and named colors become rgba() when translucent.
+ */
+export function setColorAlpha(color: string, alpha: number): string {
+  const a = round(Math.max(0, Math.min(1, alpha)), 3);
+  const parts = splitColorFunction(color);
+
+  if (parts && parts.channels.length === 3 && colorFormat(color)) {
+    if (parts.legacy) {
+      const fn = parts.fn.replace(/a$/, "");
+      return a < 1
+        ? `${fn}a(${parts.channels.join(", ")}, ${a})`
+        : `${fn}(${parts.channels.join(", ")})`;
+    }
+    return `${parts.fn}(${parts.channels.join(" ")}${alphaSuffix(a)})`;
+  }
+
+  const parsed = parseColor(color);
+  if (!parsed) return color; // var() and friends are left alone
+  return formatColor({ ...parsed, a }, "hex");
+}
+
+// Helper function to apply a layer opacity on top of a color's own alpha
+export function convertToRgba(color: string, opacity: number): string {
+  return setColorAlpha(color, getColorAlpha(color) * opacity);
+}
+
+// Helper function to convert any color format to hex for color picker
+export function colorToHex(color: string): string {
+  const parsed = parseColor(color);
+  // Fallback: return black
+  if (!parsed) return "#000000";
+  return formatColor({ ...parsed, a: 1 }, "hex");
+}
+
+// Helper function to extract alpha from any color format
+export function getColorAlpha(color: string): number {
+  return parseColor(color)?.a ?? 1; // Default to fully opaque
+}
+
+// CSS named colors (CSS Color 4), lowercase name -> hex
+export const NAMED_COLORS: Record<string, string> = {
+  aliceblue: "#f0f8ff",
+  antiquewhite: "#faebd7",
+  aqua: "#00ffff",
+  aquamarine: "#7fffd4",
+  azure: "#f0ffff",
+  beige: "#f5f5dc",
+  bisque: "#ffe4c4",
+  black: "#000000",
+  blanchedalmond: "#ffebcd",
+  blue: "#0000ff",
+  blueviolet: "#8a2be2",
+  brown: "#a52a2a",
+  burlywood: "#deb887",
+  cadetblue: "#5f9ea0",
+  chartreuse: "#7fff00",
+  chocolate: "#d2691e",
+  coral: "#ff7f50",
+  cornflowerblue: "#6495ed",
+  cornsilk: "#fff8dc",
+  crimson: "#dc143c",
+  cyan: "#00ffff",
+  darkblue: "#00008b",
+  darkcyan: "#008b8b",
+  darkgoldenrod: "#b8860b",
+  darkgray: "#a9a9a9",
+  darkgreen: "#006400",
+  darkgrey: "#a9a9a9",
+  darkkhaki: "#bdb76b",
+  darkmagenta: "#8b008b",
+  darkolivegreen: "#556b2f",
+  darkorange: "#ff8c00",
+  darkorchid: "#9932cc",
+  darkred: "#8b0000",
+  darksalmon: "#e9967a",
+  darkseagreen: "#8fbc8f",
+  darkslateblue: "#483d8b",
+  darkslategray: "#2f4f4f",
+  darkslategrey: "#2f4f4f",
+  darkturquoise: "#00ced1",
+  darkviolet: "#9400d3",
+  deeppink: "#ff1493",
+  deepskyblue: "#00bfff",
+  dimgray: "#696969",
+  dimgrey: "#696969",
+  dodgerblue: "#1e90ff",
+  firebrick: "#b22222",
+  floralwhite: "#fffaf0",
+  forestgreen: "#228b22",
+  fuchsia: "#ff00ff",
+  gainsboro: "#dcdcdc",
+  ghostwhite: "#f8f8ff",
+  gold: "#ffd700",
+  goldenrod: "#daa520",
+  gray: "#808080",
+  green: "#008000",
+  greenyellow: "#adff2f",
+  grey: "#808080",
+  honeydew: "#f0fff0",
+  hotpink: "#ff69b4",
+  indianred: "#cd5c5c",
+  indigo: "#4b0082",
+  ivory: "#fffff0",
+  khaki: "#f0e68c",
+  lavender: "#e6e6fa",
+  lavenderblush: "#fff0f5",
+  lawngreen: "#7cfc00",
+  lemonchiffon: "#fffacd",
+  lightblue: "#add8e6",
+  lightcoral: "#f08080",
+  lightcyan: "#e0ffff",
+  lightgoldenrodyellow: "#fafad2",
+  lightgray: "#d3d3d3",
+  lightgreen: "#90ee90",
+  lightgrey: "#d3d3d3",
+  lightpink: "#ffb6c1",
+  lightsalmon: "#ffa07a",
+  lightseagreen: "#20b2aa",
+  lightskyblue: "#87cefa",
+  lightslategray: "#778899",
+  lightslategrey: "#778899",
+  lightsteelblue: "#b0c4de",
+  lightyellow: "#ffffe0",
+  lime: "#00ff00",
+  limegreen: "#32cd32",
+  linen: "#faf0e6",
+  magenta: "#ff00ff",
+  maroon: "#800000",
+  mediumaquamarine: "#66cdaa",
+  mediumblue: "#0000cd",
+  mediumorchid: "#ba55d3",
+  mediumpurple: "#9370db",
+  mediumseagreen: "#3cb371",
+  mediumslateblue: "#7b68ee",
+  mediumspringgreen: "#00fa9a",
+  mediumturquoise: "#48d1cc",
+  mediumvioletred: "#c71585",
+  midnightblue: "#191970",
+  mintcream: "#f5fffa",
+  mistyrose: "#ffe4e1",
+  moccasin: "#ffe4b5",
+  navajowhite: "#ffdead",
+  navy: "#000080",
+  oldlace: "#fdf5e6",
+  olive: "#808000",
+  olivedrab: "#6b8e23",
+  orange: "#ffa500",
+  orangered: "#ff4500",
+  orchid: "#da70d6",
+  palegoldenrod: "#eee8aa",
+  palegreen: "#98fb98",
+  paleturquoise: "#afeeee",
+  palevioletred: "#db7093",
+  papayawhip: "#ffefd5",
+  peachpuff: "#ffdab9",
+  peru: "#cd853f",
+  pink: "#ffc0cb",
+  plum: "#dda0dd",
+  powderblue: "#b0e0e6",
+  purple: "#800080",
+  rebeccapurple: "#663399",
+  red: "#ff0000",
+  rosybrown: "#bc8f8f",
+  royalblue: "#4169e1",
+  saddlebrown: "#8b4513",
+  salmon: "#fa8072",
+  sandybrown: "#f4a460",
+  seagreen: "#2e8b57",
+  seashell: "#fff5ee",
+  sienna: "#a0522d",
+  silver: "#c0c0c0",
+  skyblue: "#87ceeb",
+  slateblue: "#6a5acd",
+  slategray: "#708090",
+  slategrey: "#708090",
+  snow: "#fffafa",
+  springgreen: "#00ff7f",
+  steelblue: "#4682b4",
+  tan: "#d2b48c",
+  teal: "#008080",
+  thistle: "#d8bfd8",
+  tomato: "#ff6347",
+  turquoise: "#40e0d0",
+  violet: "#ee82ee",
+  wheat: "#f5deb3",
+  white: "#ffffff",
+  whitesmoke: "#f5f5f5",
+  yellow: "#ffff00",
+  yellowgreen: "#9acd32",
+};
@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  ContrastSettings,
+  checkContrast,
+  contrastRatio,
+  contrastThresholds,
+  isLargeText,
+} from "./contrast";
+import { GradientLayer } from "./gradient";
+
+function solid(color: string): GradientLayer {
+  return {
+    id: 1,
+    type: "linear",
+    from: 90,
+    at: { x: 50, y: 50 },
+    stops: [
+      { color, pos: 0 },
+      { color, pos: 100 },
+    ],
+    enabled: true,
+    opacity: 1,
+  };
+}
+
+function settings(patch: Partial<ContrastSettings>): ContrastSettings {
+  return {
+    text: "Aa",
+    color: "#000000",
+    fontSize: 16,
+    bold: false,
+    box: { x: 0, y: 0, width: 20, height: 20 },
+    heatmap: false,
+    ...patch,
+  };
+}
+
+describe("contrastRatio", () => {
+  it("spans 1:1 to 21:1", () => {
+    const black = { r: 0, g: 0, b: 0, a: 1 };
+    const white = { r: 255, g: 255, b: 255, a: 1 };
+    assert.equal(contrastRatio(black, white), 21);
+    assert.equal(contrastRatio(white, black), 21);
+    assert.equal(contrastRatio(white, white), 1);
+  });
+
+  it("relaxes the thresholds for large text", () => {
+    assert.equal(isLargeText(24, false), true);
+    assert.equal(isLargeText(19, true), true);
+    assert.equal(isLargeText(19, false), false);
+    assert.deepEqual(contrastThresholds(false), { aa: 4.5, aaa: 7 });
+    assert.deepEqual(contrastThresholds(true), { aa: 3, aaa: 4.5 });
+  });
+});
+
+describe("checkContrast", () => {
+  it("reports the worst pixel under the box", () => {
+    // Black on the left half, white on the right: white text fails over the
+    // white half only
+    const layers: GradientLayer[] = [
+      {
+        ...solid("#000000"),
+        stops: [
+          { color: "#000000", pos: 0 },
+          { color: "#000000", pos: 50 },
+          { color: "#ffffff", pos: 50 },
+          { color: "#ffffff", pos: 100 },
+        ],
+      },
+    ];
+    const left = checkContrast(
+      layers,
+      100,
+      20,
+      settings({ color: "#ffffff", box: { x: 0, y: 0, width: 40, height: 20 } })
+    );
+    assert.ok(left);
+    assert.equal(left.worst, 21);
+    assert.equal(left.aaa, true);
+
+    const across = checkContrast(
+      layers,
+      100,
+      20,
+      settings({
+        color: "#ffffff",
+        box: { x: 30, y: 0, width: 40, height: 20 },
+      })
+    );
+    assert.ok(across);
+    assert.equal(across.worst, 1);
+    assert.equal(across.best, 21);
+    assert.equal(across.aa, false);
+  });
+
+  it("checks transparent areas against a white page", () => {
+    const report = checkContrast([], 10, 10, settings({ color: "#ffffff" }));
+    assert.ok(report);
+    assert.equal(report.worst, 1);
+  });
+
+  it("marks failing pixels in the heatmap", () => {
+    const report = checkContrast(
+      [solid("#777777")],
+      10,
+      10,
+      settings({ color: "#ffffff", heatmap: true })
+    );
+    assert.ok(report?.heatmap);
+    // #777 against white is about 4.48:1, just under AA for normal text
+    assert.equal(report.aa, false);
+    assert.deepEqual(
+      Array.from(report.heatmap.data.slice(0, 4)),
+      [239, 68, 68, 140]
+    );
+  });
+
+  it("gives up on colors it can't resolve", () => {
+    assert.equal(
+      checkContrast(
+        [solid("#000000")],
+        10,
+        10,
+        settings({ color: "var(--x)" })
+      ),
+      null
+    );
+  });
+});
@@ -0,0 +1,186 @@
+import { Rgba, parseColor, srgbToLinear } from "./color";
+import { GradientLayer } from "./gradient";
+import { rasterizeLayers } from "./raster";
+
+// WCAG 2 contrast of text placed over the layer stack. The stack is rendered
+// with the same software renderer as image export, on a white page, and the
+// text color is laid over each pixel with its own alpha.
+
+// Text box in preview pixels, from the top left of the gradient area
+export interface TextBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ContrastSettings {
+  text: string;
+  color: string;
+  // Font size in CSS px
+  fontSize: number;
+  bold: boolean;
+  box: TextBox;
+  heatmap: boolean;
+}
+
+export interface ContrastThresholds {
+  aa: number;
+  aaa: number;
+}
+
+export interface ContrastReport {
+  // Lowest and highest ratio under the text box
+  worst: number;
+  best: number;
+  large: boolean;
+  thresholds: ContrastThresholds;
+  aa: boolean;
+  aaa: boolean;
+  // Rendered at the sampling resolution; red where AA fails, amber where
+  // only AAA does
+  heatmap: { width: number; height: number; data: Uint8ClampedArray } | null;
+}
+
+// The stack is rendered at most this many pixels across for sampling
+const MAX_SAMPLE_SIZE = 240;
+const WHITE: Rgba = { r: 255, g: 255, b: 255, a: 1 };
+const MIN_BOX_SIZE = 8;
+
+const HEAT_FAIL = [239, 68, 68, 140];
+const HEAT_AA_ONLY = [245, 158, 11, 110];
+
+export function defaultContrastSettings(
+  width: number,
+  height: number
+): ContrastSettings {
+  const fontSize = 24;
+  const boxWidth = Math.round(width * 0.6);
+  const boxHeight = Math.round(fontSize * 1.8);
+  return {
+    text: "Headline",
+    color: "#ffffff",
+    fontSize,
+    bold: true,
+    box: {
+      x: Math.round((width - boxWidth) / 2),
+      y: Math.round((height - boxHeight) / 2),
+      width: boxWidth,
+      height: boxHeight,
+    },
+    heatmap: true,
+  };
+}
+
+// Keep the box inside the gradient area, e.g. after the preview shrinks
+export function clampBox(box: TextBox, width: number, height: number): TextBox {
+  const w = Math.max(MIN_BOX_SIZE, Math.min(width, box.width));
+  const h = Math.max(MIN_BOX_SIZE, Math.min(height, box.height));
+  return {
+    x: Math.max(0, Math.min(width - w, box.x)),
+    y: Math.max(0, Math.min(height - h, box.y)),
+    width: w,
+    height: h,
+  };
+}
+
+// WCAG relative luminance of an opaque sRGB color
+export function relativeLuminance(c: Rgba): number {
+  const [r, g, b] = [c.r, c.g, c.b].map((v) => srgbToLinear(v / 255));
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+export function contrastRatio(a: Rgba, b: Rgba): number {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
+// Large text is at least 18pt, or 14pt bold (24px and about 18.67px)
+export function isLargeText(fontSize: number, bold: boolean): boolean {
+  return fontSize >= 24 || (bold && fontSize >= 18.66);
+}
+
+export function contrastThresholds(large: boolean): ContrastThresholds {
+  return large ? { aa: 3, aaa: 4.5 } : { aa: 4.5, aaa: 7 };
+}
+
+// Source-over of a straight-alpha color onto an opaque one
+function over(top: Rgba, bottom: Rgba): Rgba {
+  const a = top.a;
+  return {
+    r: top.r * a + bottom.r * (1 - a),
+    g: top.g * a + bottom.g * (1 - a),
+    b: top.b * a + bottom.b * (1 - a),
+    a: 1,
+  };
+}
+
+/**
+ * Check text in `settings.color` against every pixel of the rendered stack
+ * under its box. Returns null when the text color can't be resolved (e.g.
+ * a var() reference).
+ */
+export function checkContrast(
+  layers: GradientLayer[],
+  width: number,
+  height: number,
+  settings: ContrastSettings
+): ContrastReport | null {
+  const text = parseColor(settings.color);
+  if (!text) return null;
+
+  const scale = Math.min(1, MAX_SAMPLE_SIZE / Math.max(width, height, 1));
+  const w = Math.max(1, Math.round(width * scale));
+  const h = Math.max(1, Math.round(height * scale));
+  const image = rasterizeLayers(layers, w, h, { lengthScale: scale });
+
+  const large = isLargeText(settings.fontSize, settings.bold);
+  const thresholds = contrastThresholds(large);
+
+  const ratioAt = (i: number) => {
+    const d = image.data;
+    const background = over(
+      { r: d[i], g: d[i + 1], b: d[i + 2], a: d[i + 3] / 255 },
+      WHITE
+    );
+    return contrastRatio(over(text, background), background);
+  };
+
+  // Every sample whose pixel overlaps the box
+  const box = clampBox(settings.box, width, height);
+  const x0 = Math.floor(box.x * scale);
+  const y0 = Math.floor(box.y * scale);
+  const x1 = Math.max(x0 + 1, Math.ceil((box.x + box.width) * scale));
+  const y1 = Math.max(y0 + 1, Math.ceil((box.y + box.height) * scale));
+  let worst = Infinity;
+  let best = 0;
+  for (let y = y0; y < Math.min(y1, h); y++) {
+    for (let x = x0; x < Math.min(x1, w); x++) {
+      const ratio = ratioAt((y * w + x) * 4);
+      worst = Math.min(worst, ratio);
+      best = Math.max(best, ratio);
+    }
+  }
+
+  let heatmap: ContrastReport["heatmap"] = null;
+  if (settings.heatmap) {
+    const data = new Uint8ClampedArray(w * h * 4);
+    for (let i = 0; i < data.length; i += 4) {
+      const ratio = ratioAt(i);
+      if (ratio < thresholds.aa) data.set(HEAT_FAIL, i);
+      else if (ratio < thresholds.aaa) data.set(HEAT_AA_ONLY, i);
+    }
+    heatmap = { width: w, height: h, data };
+  }
+
+  return {
+    worst,
+    best,
+    large,
+    thresholds,
+    aa: worst >= thresholds.aa,
+    aaa: worst >= thresholds.aaa,
+    heatmap,
+  };
+}
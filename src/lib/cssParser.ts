@@ -0,0 +1,875 @@
+import { COLOR_FUNCTIONS, NAMED_COLORS } from "./color";
+import {
+  BLEND_MODES,
+  BlendMode,
+  GradientLayer,
+  GradientStop,
+  GradientType,
+  HUE_INTERPOLATIONS,
+  HueInterpolation,
+  INTERPOLATION_SPACES,
+  InterpolationSpace,
+  RADIAL_EXTENTS,
+  RadialExtent,
+  isPolarSpace,
+  radialRadii,
+  stopRange,
+} from "./gradient";
+
+// Tokenizer-based parser for pasted CSS gradients (e.g. from Figma)
+
+export interface CssParseError {
+  message: string;
+  // Character offset into the pasted text
+  offset: number;
+}
+
+export interface CssParseResult {
+  layers: GradientLayer[];
+  errors: CssParseError[];
+}
+
+export interface CssParseOptions {
+  // Box used to resolve px lengths into the percent-based layer model
+  width: number;
+  height: number;
+  // Id for the first parsed layer; later layers count up from it
+  firstId?: number;
+}
+
+interface ParseContext {
+  text: string;
+  options: CssParseOptions;
+}
+
+// Thrown inside the parser and collected into CssParseResult.errors
+class ParseFailure extends Error {
+  constructor(
+    message: string,
+    readonly offset: number
+  ) {
+    super(message);
+  }
+}
+
+type Token =
+  | { type: "ident"; value: string; start: number; end: number }
+  | { type: "function"; value: string; start: number; end: number }
+  | { type: "url"; value: string; start: number; end: number }
+  | {
+      type: "number";
+      value: number;
+      unit: string;
+      start: number;
+      end: number;
+    }
+  | { type: "hash"; value: string; start: number; end: number }
+  | { type: "string"; value: string; start: number; end: number }
+  | {
+      type:
+        | "comma"
+        | "colon"
+        | "semicolon"
+        | "open"
+        | "close"
+        | "whitespace"
+        | "delim";
+      value: string;
+      start: number;
+      end: number;
+    };
+
+const IDENT_START = /[a-zA-Z_\-\u0080-\uffff]/;
+const IDENT_CHAR = /[a-zA-Z0-9_\-\u0080-\uffff]/;
+const NUMBER_RE = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i;
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readIdent = (from: number) => {
+    let j = from;
+    while (j < text.length && IDENT_CHAR.test(text[j])) j++;
+    return j;
+  };
+
+  while (i < text.length) {
+    const start = i;
+    const ch = text[i];
+
+    // Comments
+    if (ch === "/" && text[i + 1] === "*") {
+      const close = text.indexOf("*/", i + 2);
+      if (close === -1) throw new ParseFailure("Unclosed comment", start);
+      i = close + 2;
+      continue;
+    }
+
+    if (/\s/.test(ch)) {
+      while (i < text.length && /\s/.test(text[i])) i++;
+      tokens.push({ type: "whitespace", value: " ", start, end: i });
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      i++;
+      while (i < text.length && text[i] !== ch) {
+        if (text[i] === "\\") i++;
+        i++;
+      }
+      if (i >= text.length) throw new ParseFailure("Unclosed string", start);
+      i++;
+      tokens.push({
+        type: "string",
+        value: text.slice(start + 1, i - 1),
+        start,
+        end: i,
+      });
+      continue;
+    }
+
+    const numberMatch = NUMBER_RE.exec(text.slice(i));
+    if (
+      numberMatch &&
+      // "-" followed by a letter starts an identifier, not a number
+      !(ch === "-" && IDENT_START.test(text[i + 1] ?? ""))
+    ) {
+      i += numberMatch[0].length;
+      let unit = "";
+      if (text[i] === "%") {
+        unit = "%";
+        i++;
+      } else if (IDENT_START.test(text[i] ?? "")) {
+        const end = readIdent(i);
+        unit = text.slice(i, end).toLowerCase();
+        i = end;
+      }
+      tokens.push({
+        type: "number",
+        value: parseFloat(numberMatch[0]),
+        unit,
+        start,
+        end: i,
+      });
+      continue;
+    }
+
+    if (ch === "#") {
+      const end = readIdent(i + 1);
+      if (end === i + 1) throw new ParseFailure("Expected a hex color", start);
+      i = end;
+      tokens.push({ type: "hash", value: text.slice(start, end), start, end });
+      continue;
+    }
+
+    if (IDENT_START.test(ch)) {
+      const end = readIdent(i);
+      const name = text.slice(i, end);
+      i = end;
+      if (text[i] !== "(") {
+        tokens.push({ type: "ident", value: name, start, end });
+        continue;
+      }
+      i++;
+
+      // Unquoted url(...) is a single token that may contain anything
+      if (name.toLowerCase() === "url" && !/^\s*["']/.test(text.slice(i))) {
+        const close = text.indexOf(")", i);
+        if (close === -1) throw new ParseFailure("Unclosed url(", start);
+        i = close + 1;
+        tokens.push({
+          type: "url",
+          value: text.slice(start + 4, close).trim(),
+          start,
+          end: i,
+        });
+        continue;
+      }
+
+      tokens.push({ type: "function", value: name, start, end: i });
+      continue;
+    }
+
+    const simple: Record<string, Token["type"]> = {
+      ",": "comma",
+      ":": "colon",
+      ";": "semicolon",
+      "(": "open",
+      ")": "close",
+    };
+    i++;
+    tokens.push({
+      type: (simple[ch] ?? "delim") as "delim",
+      value: ch,
+      start,
+      end: i,
+    });
+  }
+
+  return tokens;
+}
+
+// Component values: tokens with function arguments nested inside them
+type Node =
+  | Exclude<Token, { type: "function" | "open" | "whitespace" }>
+  | {
+      type: "function";
+      value: string;
+      args: Node[];
+      start: number;
+      end: number;
+    };
+
+function buildTree(tokens: Token[]): Node[] {
+  const root: Node[] = [];
+  const stack: { node: Node & { type: "function" }; parent: Node[] }[] = [];
+  let current = root;
+
+  for (const token of tokens) {
+    if (token.type === "whitespace") continue;
+
+    if (token.type === "function" || token.type === "open") {
+      const node: Node & { type: "function" } = {
+        type: "function",
+        // A bare "(" block is kept as an anonymous function
+        value: token.type === "function" ? token.value.toLowerCase() : "",
+        args: [],
+        start: token.start,
+        end: token.end,
+      };
+      current.push(node);
+      stack.push({ node, parent: current });
+      current = node.args;
+      continue;
+    }
+
+    if (token.type === "close") {
+      const top = stack.pop();
+      if (!top) throw new ParseFailure("Unexpected ')'", token.start);
+      top.node.end = token.end;
+      current = top.parent;
+      continue;
+    }
+
+    current.push(token);
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1].node;
+    throw new ParseFailure(`Unclosed '${open.value}('`, open.start);
+  }
+  return root;
+}
+
+// Split a list of nodes on top-level commas
+function splitCommas(nodes: Node[]): Node[][] {
+  const groups: Node[][] = [[]];
+  for (const node of nodes) {
+    if (node.type === "comma") groups.push([]);
+    else groups[groups.length - 1].push(node);
+  }
+  return groups;
+}
+
+interface Declarations {
+  background: Node[];
+  blendMode: Node[] | null;
+}
+
+/**
+ * Pick the values of the last `background` or `background-image` declaration
+ * and of the last `background-blend-mode` declaration. Text without any
+ * declarations is treated as a bare background value.
+ */
+function findDeclarations(nodes: Node[]): Declarations {
+  let value: Node[] | null = null;
+  let blendMode: Node[] | null = null;
+  let sawDeclaration = false;
+
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    if (node.type !== "ident" || nodes[i + 1]?.type !== "colon") continue;
+
+    sawDeclaration = true;
+    // A value ends at ";" or at a rule brace
+    let end = i + 2;
+    while (
+      end < nodes.length &&
+      nodes[end].type !== "semicolon" &&
+      !(nodes[end].type === "delim" && "{}".includes(String(nodes[end].value)))
+    )
+      end++;
+
+    const property = node.value.toLowerCase();
+    if (property === "background" || property === "background-image") {
+      value = nodes.slice(i + 2, end);
+    } else if (property === "background-blend-mode") {
+      blendMode = nodes.slice(i + 2, end);
+    }
+    i = end;
+  }
+
+  if (value) return { background: value, blendMode };
+  if (sawDeclaration) return { background: [], blendMode };
+  return {
+    background: nodes.filter((n) => n.type !== "semicolon"),
+    blendMode: null,
+  };
+}
+
+const GRADIENT_RE = /^(repeating-)?(conic|linear|radial)-gradient$/;
+
+const COLOR_KEYWORDS = new Set(["transparent", "currentcolor"]);
+
+function isColor(node: Node | undefined): boolean {
+  if (!node) return false;
+  if (node.type === "hash") return true;
+  if (node.type === "function") return COLOR_FUNCTIONS.has(node.value);
+  if (node.type === "ident") {
+    const name = node.value.toLowerCase();
+    return Object.hasOwn(NAMED_COLORS, name) || COLOR_KEYWORDS.has(name);
+  }
+  return false;
+}
+
+// Source text of a node with whitespace collapsed, e.g. for stop colors
+function sourceOf(text: string, node: Node): string {
+  return text.slice(node.start, node.end).replace(/\s+/g, " ");
+}
+
+function round(n: number): number {
+  return Number(n.toFixed(2));
+}
+
+function expectNumber(node: Node | undefined, what: string, at: number) {
+  if (!node || node.type !== "number") {
+    throw new ParseFailure(`Expected ${what}`, node?.start ?? at);
+  }
+  return node;
+}
+
+// Angle in degrees; unitless zero is allowed as in CSS
+function toDegrees(node: Node | undefined, at: number): number {
+  const n = expectNumber(node, "an angle", at);
+  switch (n.unit) {
+    case "deg":
+      return n.value;
+    case "turn":
+      return n.value * 360;
+    case "rad":
+      return (n.value * 180) / Math.PI;
+    case "grad":
+      return n.value * 0.9;
+    case "":
+      if (n.value === 0) return 0;
+  }
+  throw new ParseFailure(
+    `Expected an angle, got '${n.value}${n.unit}'`,
+    n.start
+  );
+}
+
+const POSITION_KEYWORDS: Record<
+  string,
+  { axis: "x" | "y" | "any"; pct: number }
+> = {
+  left: { axis: "x", pct: 0 },
+  right: { axis: "x", pct: 100 },
+  top: { axis: "y", pct: 0 },
+  bottom: { axis: "y", pct: 100 },
+  center: { axis: "any", pct: 50 },
+};
+
+// Parse the one- or two-value `at <position>` into percentages of the box
+function parsePosition(
+  nodes: Node[],
+  options: CssParseOptions,
+  at: number
+): { x: number; y: number } {
+  if (nodes.length === 0 || nodes.length > 2) {
+    throw new ParseFailure(
+      "Expected one or two values after 'at'",
+      nodes[2]?.start ?? at
+    );
+  }
+
+  const values = nodes.map((node) => {
+    if (node.type === "ident") {
+      const keyword = POSITION_KEYWORDS[node.value.toLowerCase()];
+      if (!keyword) {
+        throw new ParseFailure(`Unknown position '${node.value}'`, node.start);
+      }
+      return { ...keyword, node };
+    }
+    const n = expectNumber(node, "a position", at);
+    if (
+      n.unit !== "%" &&
+      n.unit !== "px" &&
+      !(n.unit === "" && n.value === 0)
+    ) {
+      throw new ParseFailure(`Unsupported unit '${n.unit}'`, n.start);
+    }
+    return { axis: "any" as const, pct: NaN, node: n };
+  });
+
+  // Keywords may come in y-x order, e.g. "top left"; a lone vertical
+  // keyword leaves x centered
+  const [x, y] =
+    values[0].axis === "y" || values[1]?.axis === "x"
+      ? [values[1], values[0]]
+      : values;
+
+  const resolve = (
+    value: (typeof values)[number] | undefined,
+    size: number
+  ): number => {
+    if (!value) return 50;
+    if (value.node.type !== "number") return value.pct;
+    const n = value.node;
+    return n.unit === "px" ? round((n.value / size) * 100) : n.value;
+  };
+
+  return {
+    x: resolve(x, options.width),
+    y: resolve(y, options.height),
+  };
+}
+
+// `to <side-or-corner>` as a CSS angle for the given box
+function directionToAngle(words: string[], options: CssParseOptions): number {
+  const vertical = words.find((w) => w === "top" || w === "bottom");
+  const horizontal = words.find((w) => w === "left" || w === "right");
+
+  if (!horizontal) return vertical === "top" ? 0 : 180;
+  if (!vertical) return horizontal === "right" ? 90 : 270;
+
+  // Corners point the gradient line so the ending point lands in the corner
+  const corner = (Math.atan2(options.height, options.width) * 180) / Math.PI;
+  if (vertical === "top")
+    return round(horizontal === "right" ? corner : 360 - corner);
+  return round(horizontal === "right" ? 180 - corner : 180 + corner);
+}
+
+interface Prelude {
+  from: number;
+  at: { x: number; y: number };
+  shape?: GradientLayer["shape"];
+  size?: GradientLayer["size"];
+  colorSpace?: InterpolationSpace;
+  hueInterpolation?: HueInterpolation;
+}
+
+function parsePrelude(
+  type: GradientType,
+  nodes: Node[],
+  ctx: ParseContext
+): Prelude {
+  const { options } = ctx;
+  const prelude: Prelude = {
+    from: type === "linear" ? 180 : 0,
+    at: { x: 50, y: 50 },
+  };
+  let i = 0;
+
+  const word = (n: Node | undefined) =>
+    n?.type === "ident" ? n.value.toLowerCase() : null;
+
+  while (i < nodes.length) {
+    const node = nodes[i];
+    const keyword = word(node);
+
+    if (keyword === "at" && type !== "linear") {
+      let end = i + 1;
+      while (end < nodes.length && !["in", "from"].includes(word(nodes[end])!))
+        end++;
+      prelude.at = parsePosition(nodes.slice(i + 1, end), options, node.end);
+      i = end;
+    } else if (keyword === "in") {
+      const space = word(nodes[i + 1]) as InterpolationSpace | null;
+      if (!space || !INTERPOLATION_SPACES.includes(space)) {
+        throw new ParseFailure(
+          "Expected a color space after 'in'",
+          nodes[i + 1]?.start ?? node.end
+        );
+      }
+      prelude.colorSpace = space;
+      i += 2;
+
+      const hue = word(nodes[i]) as HueInterpolation | null;
+      if (hue && HUE_INTERPOLATIONS.includes(hue)) {
+        if (!isPolarSpace(space) || word(nodes[i + 1]) !== "hue") {
+          throw new ParseFailure(
+            `Hue interpolation needs a polar color space and 'hue'`,
+            nodes[i].start
+          );
+        }
+        prelude.hueInterpolation = hue;
+        i += 2;
+      }
+    } else if (keyword === "from" && type === "conic") {
+      prelude.from = toDegrees(nodes[i + 1], node.end);
+      i += 2;
+    } else if (keyword === "to" && type === "linear") {
+      const words: string[] = [];
+      i++;
+      while (
+        ["top", "bottom", "left", "right"].includes(word(nodes[i]) ?? "")
+      ) {
+        words.push(word(nodes[i])!);
+        i++;
+      }
+      if (words.length === 0) {
+        throw new ParseFailure("Expected a side after 'to'", node.end);
+      }
+      prelude.from = directionToAngle(words, options);
+    } else if (type === "linear" && node.type === "number") {
+      prelude.from = toDegrees(node, node.start);
+      i++;
+    } else if (
+      type === "radial" &&
+      (keyword === "circle" || keyword === "ellipse")
+    ) {
+      prelude.shape = keyword;
+      i++;
+    } else if (
+      type === "radial" &&
+      RADIAL_EXTENTS.includes(keyword as RadialExtent)
+    ) {
+      prelude.size = { kind: "extent", extent: keyword as RadialExtent };
+      i++;
+    } else if (type === "radial" && node.type === "number") {
+      // One length for circles, two for ellipses
+      const lengths: number[] = [];
+      while (nodes[i]?.type === "number" && lengths.length < 2) {
+        const n = nodes[i] as Node & { type: "number" };
+        if (n.unit === "px" || (n.unit === "" && n.value === 0)) {
+          lengths.push(n.value);
+        } else if (n.unit === "%") {
+          const size = lengths.length === 0 ? options.width : options.height;
+          lengths.push(round((n.value / 100) * size));
+        } else {
+          throw new ParseFailure(
+            `Unsupported radius unit '${n.unit}'`,
+            n.start
+          );
+        }
+        i++;
+      }
+      prelude.size = {
+        kind: "length",
+        x: lengths[0],
+        y: lengths[1] ?? lengths[0],
+      };
+      if (lengths.length === 1) prelude.shape = "circle";
+    } else {
+      throw new ParseFailure(
+        `Unexpected '${sourceOf(ctx.text, node)}' in ${type}-gradient`,
+        node.start
+      );
+    }
+  }
+
+  return prelude;
+}
+
+/**
+ * Convert a stop position to the layer's stop unit: degrees for conic
+ * layers, percent of the gradient line for linear and radial ones.
+ */
+function toStopPos(node: Node, type: GradientType, lineLength: number): number {
+  const n = expectNumber(node, "a stop position", node.start);
+
+  if (n.unit === "" && n.value === 0) return 0;
+  if (type === "conic") {
+    return n.unit === "%" ? round(n.value * 3.6) : round(toDegrees(n, n.start));
+  }
+  if (n.unit === "%") return n.value;
+  if (n.unit === "px") return round((n.value / lineLength) * 100);
+  throw new ParseFailure(
+    `Unsupported stop unit '${n.unit}' in ${type}-gradient`,
+    n.start
+  );
+}
+
+// Fill in omitted positions the way CSS does: 0, the full range, and evenly
+// spaced between the nearest positioned neighbours
+function fillMissingPositions(
+  stops: (Omit<GradientStop, "pos"> & { pos: number | null })[],
+  type: GradientType
+): GradientStop[] {
+  const positions = stops.map((s) => s.pos);
+  // Where each stop ends, so gaps start after the second position
+  const ends = stops.map((s) => s.pos2 ?? s.pos);
+  if (positions[0] == null) positions[0] = ends[0] = 0;
+  if (positions[positions.length - 1] == null) {
+    positions[positions.length - 1] = ends[ends.length - 1] = Math.max(
+      stopRange(type),
+      ...ends.filter((p): p is number => p != null)
+    );
+  }
+
+  let last = 0;
+  for (let i = 1; i < positions.length; i++) {
+    if (positions[i] != null) {
+      const gap = i - last;
+      for (let k = 1; k < gap; k++) {
+        positions[last + k] = round(
+          ends[last]! + ((positions[i]! - ends[last]!) * k) / gap
+        );
+      }
+      last = i;
+    }
+  }
+
+  return stops.map((s, i) => ({ ...s, pos: positions[i]! }));
+}
+
+function parseGradient(
+  fn: Node & { type: "function" },
+  ctx: ParseContext,
+  id: number
+): GradientLayer {
+  const { options } = ctx;
+  const match = GRADIENT_RE.exec(fn.value)!;
+  const repeating = Boolean(match[1]);
+  const type = match[2] as GradientType;
+  const args = splitCommas(fn.args);
+
+  for (const arg of args) {
+    if (arg.length === 0) {
+      throw new ParseFailure(`Empty argument in ${fn.value}()`, fn.start);
+    }
+  }
+
+  const prelude = isColor(args[0][0])
+    ? parsePrelude(type, [], ctx)
+    : parsePrelude(type, args[0], ctx);
+  const stopArgs = isColor(args[0][0]) ? args : args.slice(1);
+
+  if (stopArgs.length === 0) {
+    throw new ParseFailure(`${fn.value}() has no color stops`, fn.start);
+  }
+
+  const geometry = {
+    at: prelude.at,
+    ...(prelude.shape && { shape: prelude.shape }),
+    ...(prelude.size && { size: prelude.size }),
+  };
+  const interpolation = {
+    ...(prelude.colorSpace && { colorSpace: prelude.colorSpace }),
+    ...(prelude.hueInterpolation && {
+      hueInterpolation: prelude.hueInterpolation,
+    }),
+  };
+
+  // Length of the gradient line, for converting px stop positions
+  let lineLength = 1;
+  if (type === "linear") {
+    const a = (prelude.from * Math.PI) / 180;
+    lineLength =
+      Math.abs(options.width * Math.sin(a)) +
+      Math.abs(options.height * Math.cos(a));
+  } else if (type === "radial") {
+    lineLength = radialRadii(
+      { ...geometry, type } as GradientLayer,
+      options.width,
+      options.height
+    ).x;
+  }
+
+  const stops: Parameters<typeof fillMissingPositions>[0] = [];
+  stopArgs.forEach((arg, i) => {
+    // A bare position is a transition hint towards the next color stop
+    if (arg[0].type === "number") {
+      const previous = stops[stops.length - 1];
+      if (arg.length > 1) {
+        throw new ParseFailure(
+          `Unexpected '${sourceOf(ctx.text, arg[1])}'`,
+          arg[1].start
+        );
+      }
+      if (!previous || previous.hint != null || i === stopArgs.length - 1) {
+        throw new ParseFailure(
+          "A color hint must sit between two color stops",
+          arg[0].start
+        );
+      }
+      previous.hint = toStopPos(arg[0], type, lineLength || 1);
+      return;
+    }
+
+    if (!isColor(arg[0])) {
+      throw new ParseFailure(
+        `Unknown color '${sourceOf(ctx.text, arg[0])}'`,
+        arg[0].start
+      );
+    }
+    if (arg.length > 3) {
+      throw new ParseFailure(
+        `Unexpected '${sourceOf(ctx.text, arg[3])}'`,
+        arg[3].start
+      );
+    }
+
+    const [pos, pos2] = arg
+      .slice(1)
+      .map((node) => toStopPos(node, type, lineLength || 1));
+    stops.push({
+      color: sourceOf(ctx.text, arg[0]),
+      pos: pos ?? null,
+      ...(pos2 != null && { pos2 }),
+    });
+  });
+
+  // Keep the editor's two-stop minimum
+  if (stops.length === 1) {
+    stops.push({ color: "#0000ff", pos: stopRange(type) });
+  }
+
+  return {
+    id,
+    type,
+    from: prelude.from,
+    ...geometry,
+    ...(repeating && { repeating }),
+    ...interpolation,
+    stops: fillMissingPositions(stops, type),
+    enabled: true,
+    opacity: 1,
+  };
+}
+
+// Comma-separated background-blend-mode keywords; unknown entries are
+// reported and treated as "normal"
+function parseBlendModes(nodes: Node[], errors: CssParseError[]): BlendMode[] {
+  return splitCommas(nodes).map((group) => {
+    const node = group[0];
+    const name = node?.type === "ident" ? node.value.toLowerCase() : "";
+    if (group.length === 1 && BLEND_MODES.includes(name as BlendMode)) {
+      return name as BlendMode;
+    }
+    errors.push({
+      message: "Expected a blend mode",
+      offset: node?.start ?? 0,
+    });
+    return "normal";
+  });
+}
+
+/**
+ * Find the index of the "]" closing an arbitrary value that starts at
+ * `start` (just after its "["), skipping nested brackets.
+ */
+function closingBracket(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "[") depth++;
+    else if (text[i] === "]" && depth-- === 0) return i;
+  }
+  return -1;
+}
+
+// Tailwind arbitrary values: "_" is a space and "\_" a literal underscore
+function unescapeArbitrary(value: string): string {
+  return value.replace(/\\_|_/g, (m) => (m === "_" ? " " : "_"));
+}
+
+/**
+ * Turn Tailwind classes such as `bg-[conic-gradient(from_90deg,_red,_blue)]`
+ * back into CSS declarations: every `bg-[...]` value becomes background
+ * layers (in class order) and `bg-blend-*` or
+ * `[background-blend-mode:...]` become the blend modes. Returns null when
+ * the text has no arbitrary background class.
+ */
+export function tailwindClassesToCss(text: string): string | null {
+  const backgrounds: string[] = [];
+  let blendModes: string | null = null;
+
+  const classRe = /(?:^|[\s"'`:])bg-\[/g;
+  let match: RegExpExecArray | null;
+  while ((match = classRe.exec(text))) {
+    const start = match.index + match[0].length;
+    const end = closingBracket(text, start);
+    if (end < 0) break;
+    // Drop an "image:" type hint, as in bg-[image:linear-gradient(...)]
+    const value = text.slice(start, end).replace(/^image:/, "");
+    backgrounds.push(unescapeArbitrary(value));
+    classRe.lastIndex = end + 1;
+  }
+  if (backgrounds.length === 0) return null;
+
+  const arbitraryBlend = /\[background-blend-mode:([^\]]+)\]/.exec(text);
+  const utilityBlend = /(?:^|[\s"'`:])bg-blend-([a-z-]+)/.exec(text);
+  if (arbitraryBlend) {
+    blendModes = unescapeArbitrary(arbitraryBlend[1]);
+  } else if (utilityBlend) {
+    blendModes = utilityBlend[1];
+  }
+
+  return [
+    `background: ${backgrounds.join(", ")};`,
+    ...(blendModes ? [`background-blend-mode: ${blendModes};`] : []),
+  ].join("\n");
+}
+
+/**
+ * Parse pasted CSS into gradient layers. Accepts a bare value, a
+ * `background`/`background-image` declaration, or a whole rule; a
+ * `background-blend-mode` declaration sets the layers' blend modes. Non-gradient
+ * background layers (url(), plain colors) are skipped; malformed gradients
+ * are reported with the offset of the failure and left out.
+ */
+export function parseCssGradient(
+  text: string,
+  options: CssParseOptions
+): CssParseResult {
+  const layers: GradientLayer[] = [];
+  const errors: CssParseError[] = [];
+  let nextId = options.firstId ?? Date.now();
+
+  const ctx: ParseContext = { text, options };
+
+  let nodes: Node[];
+  try {
+    nodes = buildTree(tokenize(text));
+  } catch (e) {
+    if (e instanceof ParseFailure) {
+      return { layers, errors: [{ message: e.message, offset: e.offset }] };
+    }
+    throw e;
+  }
+
+  const declarations = findDeclarations(nodes);
+  const blendModes = declarations.blendMode
+    ? parseBlendModes(declarations.blendMode, errors)
+    : [];
+
+  splitCommas(declarations.background).forEach((layerNodes, index) => {
+    const gradient = layerNodes.find(
+      (n): n is Node & { type: "function" } =>
+        n.type === "function" && GRADIENT_RE.test(n.value)
+    );
+    if (!gradient) return;
+
+    try {
+      const layer = parseGradient(gradient, ctx, nextId++);
+      // A short blend mode list repeats to cover every background layer
+      const mode = blendModes.length
+        ? blendModes[index % blendModes.length]
+        : "normal";
+      layers.push(mode === "normal" ? layer : { ...layer, blendMode: mode });
+    } catch (e) {
+      if (!(e instanceof ParseFailure)) throw e;
+      errors.push({ message: e.message, offset: e.offset });
+    }
+  });
+
+  if (layers.length === 0 && errors.length === 0) {
+    errors.push({
+      message: "No conic-gradient, linear-gradient or radial-gradient found",
+      offset: 0,
+    });
+  }
+
+  return { layers, errors };
+}
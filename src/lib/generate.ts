@@ -0,0 +1,158 @@
+import { formatColor, fromPolar, oklabToRgb } from "./color";
+import {
+  GeneratorSettings,
+  GradientLayer,
+  GradientStop,
+  Harmony,
+  stopRange,
+} from "./gradient";
+
+// Seeded layer stacks from color-harmony rules. The same settings always
+// give the same layers, so a seed in a shared link reproduces the result.
+
+export const DEFAULT_GENERATOR: GeneratorSettings = {
+  seed: 1,
+  harmony: "analogous",
+  layerCount: 3,
+  stopCount: 3,
+  lightness: { min: 35, max: 85 },
+  types: ["linear", "radial", "conic"],
+};
+
+export const MAX_GENERATED_LAYERS = 8;
+export const MAX_GENERATED_STOPS = 8;
+
+// Hue offsets (degrees) from the base hue that each harmony draws from
+const HARMONY_OFFSETS: Record<Harmony, number[]> = {
+  analogous: [-30, 0, 30],
+  complementary: [0, 180],
+  triadic: [0, 120, 240],
+};
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 1_000_000_000);
+}
+
+// mulberry32: small, fast and good enough for picking colors
+function random(seed: number): () => number {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let x = Math.imul(t ^ (t >>> 15), t | 1);
+    x ^= x + Math.imul(x ^ (x >>> 7), x | 61);
+    return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Independent stream per layer, so re-rolling around locked layers doesn't
+// shift the others
+function layerRandom(seed: number, index: number): () => number {
+  return random(
+    Math.imul(seed ^ 0x9e3779b9, 31) + Math.imul(index + 1, 0x85ebca6b)
+  );
+}
+
+const round = (n: number) => Number(n.toFixed(2));
+
+// OKLCH color as hex, with chroma reduced until it fits in sRGB
+function oklchHex(L: number, C: number, h: number, alpha = 1): string {
+  let chroma = C;
+  for (;;) {
+    const c = oklabToRgb(fromPolar([L, chroma, h]), alpha);
+    const inGamut = [c.r, c.g, c.b].every((v) => v >= -0.5 && v <= 255.5);
+    if (inGamut || chroma < 0.005) return formatColor(c, "hex");
+    chroma *= 0.9;
+  }
+}
+
+function generateLayer(
+  settings: GeneratorSettings,
+  index: number,
+  id: number,
+  baseHue: number
+): GradientLayer {
+  const r = layerRandom(settings.seed, index);
+  const pick = <T>(items: T[]) => items[Math.floor(r() * items.length)];
+
+  const types =
+    settings.types.length > 0 ? settings.types : ["linear" as const];
+  const type = pick(types);
+  // The bottom layer is opaque; the ones above fade out to show it through
+  const isBase = index === settings.layerCount - 1;
+  const range = stopRange(type);
+
+  const min = Math.min(settings.lightness.min, settings.lightness.max) / 100;
+  const max = Math.max(settings.lightness.min, settings.lightness.max) / 100;
+  const count = Math.max(2, settings.stopCount);
+  // Lightness runs one way along the layer, which reads as light falling on it
+  const lightness = Array.from(
+    { length: count },
+    () => min + r() * (max - min)
+  ).sort((a, b) => a - b);
+  if (r() < 0.5) lightness.reverse();
+
+  const colors = lightness.map((L) => {
+    const hue =
+      baseHue + pick(HARMONY_OFFSETS[settings.harmony]) + (r() - 0.5) * 20;
+    return { L, C: 0.06 + r() * 0.12, h: (hue + 360) % 360 };
+  });
+
+  // Fading layers spread their colors over part of the range
+  const fades = !isBase && type !== "conic";
+  const end = fades ? range * (0.4 + r() * 0.3) : range;
+  const spacing = end / (count - 1);
+  const stops: GradientStop[] = colors.map((c, i) => ({
+    color: oklchHex(c.L, c.C, c.h),
+    pos: round(
+      i === 0 || i === count - 1
+        ? i * spacing
+        : i * spacing + (r() - 0.5) * spacing * 0.5
+    ),
+  }));
+  if (fades) {
+    const last = colors[count - 1];
+    stops.push({ color: oklchHex(last.L, last.C, last.h, 0), pos: range });
+  }
+  // Conic sweeps close on their first color so there's no seam
+  if (type === "conic") stops[count - 1].color = stops[0].color;
+
+  const layer: GradientLayer = {
+    id,
+    type,
+    from: (Math.round((r() * 360) / 5) * 5) % 360,
+    at: {
+      x: Math.round(10 + r() * 80),
+      y: Math.round(10 + r() * 80),
+    },
+    colorSpace: "oklab",
+    stops,
+    enabled: true,
+    // Conic layers can't fade out, so the upper ones are translucent instead
+    opacity: type === "conic" && !isBase ? round(0.35 + r() * 0.3) : 1,
+  };
+  if (type === "radial" && r() < 0.5) layer.shape = "circle";
+  return layer;
+}
+
+/**
+ * A stack of `layerCount` layers for `settings`. Locked layers of `current`
+ * stay where they are (locked layers past the new count are kept at the
+ * bottom); every other slot is generated from the seed and its index.
+ */
+export function generateLayers(
+  settings: GeneratorSettings,
+  current: GradientLayer[] = []
+): GradientLayer[] {
+  const baseHue = random(settings.seed)() * 360;
+  let nextId = Math.max(0, ...current.map((L) => L.id)) + 1;
+
+  const layers = Array.from({ length: settings.layerCount }, (_, i) =>
+    current[i]?.locked
+      ? current[i]
+      : generateLayer(settings, i, nextId++, baseHue)
+  );
+  return [
+    ...layers,
+    ...current.slice(settings.layerCount).filter((L) => L.locked),
+  ];
+}
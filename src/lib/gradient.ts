@@ -0,0 +1,678 @@
+import { convertToRgba, parseColor } from "./color";
+
+// Type definitions
+export type GradientType = "conic" | "linear" | "radial";
+
+export type RadialShape = "circle" | "ellipse";
+
+export type RadialExtent =
+  "closest-side" | "closest-corner" | "farthest-side" | "farthest-corner";
+
+// Ending-shape size of a radial layer: a keyword, or explicit radii in px
+// (circles only use `x`)
+export type RadialSize =
+  | { kind: "extent"; extent: RadialExtent }
+  | { kind: "length"; x: number; y: number };
+
+export const RADIAL_EXTENTS: RadialExtent[] = [
+  "closest-side",
+  "closest-corner",
+  "farthest-side",
+  "farthest-corner",
+];
+
+// Color spaces a gradient can interpolate in (CSS Color 4)
+export type InterpolationSpace =
+  | "srgb"
+  | "srgb-linear"
+  | "display-p3"
+  | "lab"
+  | "oklab"
+  | "xyz"
+  | "hsl"
+  | "hwb"
+  | "lch"
+  | "oklch";
+
+export type HueInterpolation =
+  "shorter" | "longer" | "increasing" | "decreasing";
+
+export const INTERPOLATION_SPACES: InterpolationSpace[] = [
+  "srgb",
+  "srgb-linear",
+  "display-p3",
+  "lab",
+  "oklab",
+  "xyz",
+  "hsl",
+  "hwb",
+  "lch",
+  "oklch",
+];
+
+export const HUE_INTERPOLATIONS: HueInterpolation[] = [
+  "shorter",
+  "longer",
+  "increasing",
+  "decreasing",
+];
+
+// Spaces with a hue channel, which accept a hue interpolation method
+export function isPolarSpace(space: InterpolationSpace): boolean {
+  return ["hsl", "hwb", "lch", "oklch"].includes(space);
+}
+
+// Separable and non-separable blend modes accepted by background-blend-mode
+export type BlendMode =
+  | "normal"
+  | "multiply"
+  | "screen"
+  | "overlay"
+  | "darken"
+  | "lighten"
+  | "color-dodge"
+  | "color-burn"
+  | "hard-light"
+  | "soft-light"
+  | "difference"
+  | "exclusion"
+  | "hue"
+  | "saturation"
+  | "color"
+  | "luminosity";
+
+export const BLEND_MODES: BlendMode[] = [
+  "normal",
+  "multiply",
+  "screen",
+  "overlay",
+  "darken",
+  "lighten",
+  "color-dodge",
+  "color-burn",
+  "hard-light",
+  "soft-light",
+  "difference",
+  "exclusion",
+  "hue",
+  "saturation",
+  "color",
+  "luminosity",
+];
+
+export interface GradientStop {
+  color: string;
+  // Degrees for conic layers, percent for linear and radial layers
+  pos: number;
+  // End of a hard-edged double-position stop, e.g. "red 10% 30%"
+  pos2?: number;
+  // Transition hint towards the next stop in the list, e.g. ", 40%,"
+  hint?: number;
+}
+
+export interface GradientLayer {
+  id: number;
+  // Shown in the layer list and emitted as a CSS comment
+  name?: string;
+  type: GradientType;
+  // Start angle for conic layers, gradient line angle for linear layers
+  from: number;
+  // Center for conic and radial layers
+  at: { x: number; y: number };
+  // Radial geometry; omitted means the CSS defaults (ellipse farthest-corner)
+  shape?: RadialShape;
+  size?: RadialSize;
+  // Emit the repeating-*-gradient variant, tiling the stop range
+  repeating?: boolean;
+  // Interpolation color space; omitted means the CSS default (sRGB)
+  colorSpace?: InterpolationSpace;
+  // Hue arc for polar color spaces; omitted means "shorter"
+  hueInterpolation?: HueInterpolation;
+  stops: GradientStop[];
+  enabled: boolean;
+  opacity: number;
+  // How the layer blends with the layers below it; omitted means "normal"
+  blendMode?: BlendMode;
+  // Protected from edits, deletion and generator re-rolls
+  locked?: boolean;
+}
+
+// Properties a timeline track can keyframe. The first group belongs to the
+// layer, the rest to one of its stops.
+export type AnimatableProperty =
+  | "from"
+  | "at.x"
+  | "at.y"
+  | "size.x"
+  | "size.y"
+  | "opacity"
+  | "color"
+  | "pos"
+  | "pos2"
+  | "hint";
+
+export const ANIMATABLE_PROPERTIES: AnimatableProperty[] = [
+  "from",
+  "at.x",
+  "at.y",
+  "size.x",
+  "size.y",
+  "opacity",
+  "color",
+  "pos",
+  "pos2",
+  "hint",
+];
+
+// CSS timing-function keywords
+export type Easing = "linear" | "ease" | "ease-in" | "ease-out" | "ease-in-out";
+
+export const EASINGS: Easing[] = [
+  "linear",
+  "ease",
+  "ease-in",
+  "ease-out",
+  "ease-in-out",
+];
+
+export interface Keyframe {
+  // Percent of the animation duration
+  offset: number;
+  // A number in the property's own unit, or a CSS color for stop colors
+  value: number | string;
+  // Timing of the segment from this keyframe to the next
+  easing: Easing;
+}
+
+export interface AnimationTrack {
+  id: number;
+  layerId: number;
+  // Index into the layer's stops, for stop properties
+  stopIndex?: number;
+  property: AnimatableProperty;
+  keyframes: Keyframe[];
+}
+
+export interface GradientAnimation {
+  // Seconds per iteration; the animation loops forever
+  duration: number;
+  // "alternate" plays every other iteration backwards
+  direction: "normal" | "alternate";
+  tracks: AnimationTrack[];
+}
+
+// Color-harmony rule the generator picks stop hues from
+export type Harmony = "analogous" | "complementary" | "triadic";
+
+export const HARMONIES: Harmony[] = ["analogous", "complementary", "triadic"];
+
+export interface GeneratorSettings {
+  seed: number;
+  harmony: Harmony;
+  layerCount: number;
+  // Colored stops per layer; fading layers get an extra transparent stop
+  stopCount: number;
+  // OKLCH lightness bounds for stop colors, 0-100
+  lightness: { min: number; max: number };
+  // Gradient types layers are drawn from; empty means linear only
+  types: GradientType[];
+}
+
+export interface AppState {
+  layers: GradientLayer[];
+  previewW: number;
+  previewH: number;
+  selectedLayerId: number;
+  // Keyframed properties; omitted when nothing was ever animated
+  animation?: GradientAnimation;
+  // Settings (and seed) of the last generated stack, to re-roll from
+  generator?: GeneratorSettings;
+}
+
+export function formatNumber(n: number | null | undefined): string {
+  if (n == null) return "0";
+  return Number(n).toFixed(2).replace(/\.00$/, "");
+}
+
+// Human-readable type name, e.g. "Repeating Linear"
+export function gradientLabel(layer: GradientLayer): string {
+  const name = layer.type.charAt(0).toUpperCase() + layer.type.slice(1);
+  return layer.repeating ? `Repeating ${name}` : name;
+}
+
+// Name shown for a layer: its own, or one derived from its type
+export function layerName(layer: GradientLayer): string {
+  return layer.name ?? `${gradientLabel(layer)} Gradient`;
+}
+
+// Unit used to store and emit stop positions for a gradient type
+export function stopUnit(type: GradientType): "deg" | "%" {
+  return type === "conic" ? "deg" : "%";
+}
+
+// Length of one full sweep in the stop unit (360deg or 100%)
+export function stopRange(type: GradientType): number {
+  return type === "conic" ? 360 : 100;
+}
+
+// Which layer controls apply to a gradient type
+export function usesAngle(type: GradientType): boolean {
+  return type === "conic" || type === "linear";
+}
+
+export function usesPosition(type: GradientType): boolean {
+  return type === "conic" || type === "radial";
+}
+
+export function createDefaultLayer(
+  id: number,
+  type: GradientType
+): GradientLayer {
+  return {
+    id,
+    type,
+    from: type === "linear" ? 180 : 0,
+    at: { x: 50, y: 50 },
+    stops: [
+      { color: "#ff0000", pos: 0 },
+      { color: "#0000ff", pos: stopRange(type) },
+    ],
+    enabled: true,
+    opacity: 1,
+  };
+}
+
+// Re-express stop positions when a layer switches type (100% = 360deg)
+export function convertStopsForType(
+  stops: GradientStop[],
+  fromType: GradientType,
+  toType: GradientType
+): GradientStop[] {
+  const scale = stopRange(toType) / stopRange(fromType);
+  if (scale === 1) return stops;
+  return mapStopPositions(stops, (p) => Number((p * scale).toFixed(2)));
+}
+
+// Apply `fn` to every position a stop carries: pos, pos2 and hint
+export function mapStopPositions(
+  stops: GradientStop[],
+  fn: (pos: number) => number
+): GradientStop[] {
+  return stops.map((s) => ({
+    ...s,
+    pos: fn(s.pos),
+    ...(s.pos2 != null && { pos2: fn(s.pos2) }),
+    ...(s.hint != null && { hint: fn(s.hint) }),
+  }));
+}
+
+/**
+ * Resolve a radial layer's ending shape to pixel radii for a box of the given
+ * size, following the CSS Images size keyword rules.
+ */
+export function radialRadii(
+  layer: GradientLayer,
+  width: number,
+  height: number
+): { x: number; y: number } {
+  const shape = layer.shape ?? "ellipse";
+  const size = layer.size ?? { kind: "extent", extent: "farthest-corner" };
+
+  if (size.kind === "length") {
+    return shape === "circle" ? { x: size.x, y: size.x } : size;
+  }
+
+  const cx = (layer.at.x / 100) * width;
+  const cy = (layer.at.y / 100) * height;
+  const dx = [Math.abs(cx), Math.abs(width - cx)];
+  const dy = [Math.abs(cy), Math.abs(height - cy)];
+  const closest = size.extent.startsWith("closest");
+  const sideX = closest ? Math.min(...dx) : Math.max(...dx);
+  const sideY = closest ? Math.min(...dy) : Math.max(...dy);
+
+  if (size.extent.endsWith("side")) {
+    if (shape === "circle") {
+      const r = closest ? Math.min(sideX, sideY) : Math.max(sideX, sideY);
+      return { x: r, y: r };
+    }
+    return { x: sideX, y: sideY };
+  }
+
+  // Corner sizes pass through the corner; ellipses keep the aspect ratio of
+  // the matching side size, which scales both radii by sqrt(2)
+  if (shape === "circle") {
+    const r = Math.hypot(sideX, sideY);
+    return { x: r, y: r };
+  }
+  return { x: sideX * Math.SQRT2, y: sideY * Math.SQRT2 };
+}
+
+/**
+ * End points of a linear layer's CSS gradient line in a box of the given
+ * size. The line passes through the center and 0% and 100% land on the
+ * corners furthest along it, so [0, 100] covers the whole box.
+ */
+export function gradientLine(
+  from: number,
+  width: number,
+  height: number
+): { x1: number; y1: number; x2: number; y2: number } {
+  const rad = (from * Math.PI) / 180;
+  const dx = Math.sin(rad);
+  const dy = -Math.cos(rad);
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  return {
+    x1: width / 2 - dx * half,
+    y1: height / 2 - dy * half,
+    x2: width / 2 + dx * half,
+    y2: height / 2 + dy * half,
+  };
+}
+
+// Stop position (in percent of the ending shape) at which a radial layer
+// reaches the box corner furthest from its center
+export function radialReach(
+  layer: GradientLayer,
+  width: number,
+  height: number
+): number {
+  const cx = (layer.at.x / 100) * width;
+  const cy = (layer.at.y / 100) * height;
+  const radii = radialRadii(layer, width, height);
+  const rx = Math.max(radii.x, 1e-6);
+  const ry = Math.max(radii.y, 1e-6);
+  return Math.max(
+    ...[
+      [0, 0],
+      [width, 0],
+      [0, height],
+      [width, height],
+    ].map(([x, y]) => Math.hypot((x - cx) / rx, (y - cy) / ry) * 100)
+  );
+}
+
+/**
+ * Pre-formatted CSS replacing some of a layer's values, such as var()
+ * references to animated custom properties. `stops` is indexed like
+ * layer.stops; `opacity` is a number expression applied to every stop.
+ */
+export interface LayerCssOverrides {
+  from?: string;
+  at?: { x?: string; y?: string };
+  size?: { x?: string; y?: string };
+  opacity?: string;
+  stops?: { color?: string; pos?: string; pos2?: string; hint?: string }[];
+}
+
+// Shape and size words for a radial prelude, omitting the CSS defaults
+function radialGeometryWords(
+  layer: GradientLayer,
+  overrides: LayerCssOverrides
+): string[] {
+  const words: string[] = [];
+  const shape = layer.shape ?? "ellipse";
+  const size = layer.size;
+
+  if (shape === "circle") words.push("circle");
+  if (size?.kind === "extent" && size.extent !== "farthest-corner") {
+    words.push(size.extent);
+  } else if (size?.kind === "length") {
+    words.push(overrides.size?.x ?? `${formatNumber(size.x)}px`);
+    if (shape === "ellipse") {
+      words.push(overrides.size?.y ?? `${formatNumber(size.y)}px`);
+    }
+  }
+  return words;
+}
+
+// "in <space> [<hue> hue]" color interpolation method words
+function interpolationWords(layer: GradientLayer): string[] {
+  if (!layer.colorSpace) return [];
+  const words = ["in", layer.colorSpace];
+  if (
+    isPolarSpace(layer.colorSpace) &&
+    layer.hueInterpolation &&
+    layer.hueInterpolation !== "shorter"
+  ) {
+    words.push(layer.hueInterpolation, "hue");
+  }
+  return words;
+}
+
+// Fade a color that may be a var() reference; color-mix with transparent
+// scales its alpha the same way convertToRgba does for literal colors
+function fadeColor(color: string, amount: string): string {
+  return `color-mix(in srgb, ${color} ${amount}, transparent)`;
+}
+
+interface GradientParts {
+  fn: string;
+  // Words of the first argument, e.g. ["from", "90deg", "at", "50%", "50%"]
+  prelude: string[];
+  // Color stops and transition hints (which have no color), in list order
+  stops: { color?: string; positions: string[] }[];
+}
+
+function gradientParts(
+  layer: GradientLayer,
+  overrides: LayerCssOverrides = {}
+): GradientParts {
+  const unit = stopUnit(layer.type);
+  const prelude: string[] = [];
+  const from = overrides.from ?? `${formatNumber(layer.from)}deg`;
+
+  if (layer.type === "conic") {
+    prelude.push("from", from);
+  } else if (layer.type === "linear") {
+    prelude.push(from);
+  } else {
+    prelude.push(...radialGeometryWords(layer, overrides));
+  }
+  if (usesPosition(layer.type)) {
+    prelude.push(
+      "at",
+      overrides.at?.x ?? `${layer.at.x}%`,
+      overrides.at?.y ?? `${layer.at.y}%`
+    );
+  }
+  prelude.push(...interpolationWords(layer));
+
+  const stops: GradientParts["stops"] = [];
+  layer.stops.forEach((s, i) => {
+    const override = overrides.stops?.[i] ?? {};
+    const position = (p: number) => `${formatNumber(p)}${unit}`;
+
+    // Bake the layer opacity into the stop colors; colors that can't be
+    // resolved here (var() references, animated values) are faded by CSS
+    let color = override.color ?? s.color;
+    if (overrides.opacity) {
+      color = fadeColor(color, `calc(${overrides.opacity} * 100%)`);
+    } else if (layer.opacity < 1) {
+      color =
+        override.color || !parseColor(s.color)
+          ? fadeColor(color, `${formatNumber(layer.opacity * 100)}%`)
+          : convertToRgba(s.color, layer.opacity);
+    }
+
+    stops.push({
+      color,
+      positions: [
+        override.pos ?? position(s.pos),
+        ...(s.pos2 != null ? [override.pos2 ?? position(s.pos2)] : []),
+      ],
+    });
+    // A hint is only valid between two color stops
+    if (s.hint != null && i < layer.stops.length - 1) {
+      stops.push({ positions: [override.hint ?? position(s.hint)] });
+    }
+  });
+
+  return {
+    fn: `${layer.repeating ? "repeating-" : ""}${layer.type}-gradient`,
+    prelude,
+    stops,
+  };
+}
+
+/**
+ * Serialize one layer as a CSS gradient function. `overrides` replaces
+ * values with pre-formatted CSS, e.g. the center in overlay coordinates
+ * used by the enlarged drag overlay.
+ */
+export function layerToCss(
+  layer: GradientLayer,
+  overrides?: LayerCssOverrides
+): string {
+  const parts = gradientParts(layer, overrides);
+  const args = [
+    ...(parts.prelude.length ? [parts.prelude.join(" ")] : []),
+    ...parts.stops.map((s) =>
+      [...(s.color ? [s.color] : []), ...s.positions].join(" ")
+    ),
+  ];
+  return `${parts.fn}(${args.join(", ")})`;
+}
+
+// Tailwind arbitrary values use "_" for spaces and can't contain whitespace
+export function layerToTailwind(layer: GradientLayer): string {
+  const parts = gradientParts(layer);
+  const args = [
+    ...(parts.prelude.length ? [parts.prelude.join("_")] : []),
+    ...parts.stops.map((s) =>
+      [
+        // Drop spaces after commas and underscore the rest, e.g. oklch()
+        ...(s.color
+          ? [s.color.replace(/,\s+/g, ",").replace(/\s+/g, "_")]
+          : []),
+        ...s.positions,
+      ].join("_")
+    ),
+  ];
+  return `${parts.fn}(${args.join(",_")})`;
+}
+
+/**
+ * Blend modes of the enabled layers, in the same order as their backgrounds.
+ * Returns null when every layer uses "normal" so exports can skip the
+ * property entirely.
+ */
+export function blendModeList(layers: GradientLayer[]): BlendMode[] | null {
+  const modes = layers
+    .filter((L) => L.enabled)
+    .map((L) => L.blendMode ?? "normal");
+  return modes.some((m) => m !== "normal") ? modes : null;
+}
+
+// A layer name as a CSS comment, defusing any "*/" inside it
+function cssComment(text: string): string {
+  return `/* ${text.replace(/\*\//g, "* /")} */`;
+}
+
+export function generateCss(layers: GradientLayer[]): string {
+  const layerCss = layers
+    .filter((L) => L.enabled)
+    .map((L) =>
+      L.name ? `${cssComment(L.name)} ${layerToCss(L)}` : layerToCss(L)
+    )
+    .join(",\n");
+
+  const modes = blendModeList(layers);
+  const blend = modes ? `\nbackground-blend-mode: ${modes.join(", ")};` : "";
+
+  return `background: ${layerCss};${blend}`;
+}
+
+export function generateTailwindCss(layers: GradientLayer[]): string {
+  const layerCss = layers
+    .filter((L) => L.enabled)
+    .map((L) => layerToTailwind(L))
+    .join(",");
+
+  // A single mode maps to a bg-blend-* utility (CSS repeats it for every
+  // layer); mixed modes need an arbitrary property
+  const modes = blendModeList(layers);
+  let blend = "";
+  if (modes && modes.every((m) => m === modes[0])) {
+    blend = ` bg-blend-${modes[0]}`;
+  } else if (modes) {
+    blend = ` [background-blend-mode:${modes.join(",")}]`;
+  }
+
+  return `bg-[${layerCss}]${blend}`;
+}
+
+export type TailwindFormat = "class" | "theme" | "config";
+
+export const TAILWIND_FORMATS: { value: TailwindFormat; label: string }[] = [
+  { value: "class", label: "Arbitrary class" },
+  { value: "theme", label: "v4 @theme" },
+  { value: "config", label: "tailwind.config" },
+];
+
+/**
+ * Tailwind v4 CSS-first theme: registers a `bg-<name>` background-image
+ * utility, plus a `bg-<name>-blend` utility when layers use blend modes.
+ */
+export function generateTailwindTheme(
+  layers: GradientLayer[],
+  name: string
+): string {
+  const layerCss = layers
+    .filter((L) => L.enabled)
+    .map((L) => `    ${layerToCss(L)}`)
+    .join(",\n");
+  const modes = blendModeList(layers);
+
+  return [
+    "@theme {",
+    `  --background-image-${name}:\n${layerCss};`,
+    "}",
+    ...(modes
+      ? [
+          "",
+          `@utility bg-${name}-blend {`,
+          `  background-blend-mode: ${modes.join(", ")};`,
+          "}",
+        ]
+      : []),
+  ].join("\n");
+}
+
+// Tailwind v3 config extension registering a `bg-<name>` utility
+export function generateTailwindConfig(
+  layers: GradientLayer[],
+  name: string
+): string {
+  const layerCss = layers
+    .filter((L) => L.enabled)
+    .map((L) => layerToCss(L))
+    .join(", ");
+  const modes = blendModeList(layers);
+
+  return [
+    "// tailwind.config.js",
+    "module.exports = {",
+    "  theme: {",
+    "    extend: {",
+    "      backgroundImage: {",
+    `        ${JSON.stringify(name)}: ${JSON.stringify(layerCss)},`,
+    "      },",
+    "    },",
+    "  },",
+    "};",
+    // background-blend-mode has no theme key; it needs an arbitrary property
+    ...(modes
+      ? [`// Pair bg-${name} with [background-blend-mode:${modes.join(",")}]`]
+      : []),
+  ].join("\n");
+}
+
+export function generateTailwind(
+  format: TailwindFormat,
+  layers: GradientLayer[],
+  name: string
+): string {
+  if (format === "theme") return generateTailwindTheme(layers, name);
+  if (format === "config") return generateTailwindConfig(layers, name);
+  return generateTailwindCss(layers);
+}
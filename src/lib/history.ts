@@ -0,0 +1,77 @@
+import { AppState } from "./gradient";
+
+// Snapshot-based undo stack. Every entry holds the full editor state after a
+// labelled step, so undo/redo/jump are just index moves.
+
+export interface HistoryStep {
+  // Shown in the history panel, e.g. "Move stop 3"
+  label: string;
+  // Consecutive steps with the same key collapse into one entry (a drag
+  // gesture, or repeated edits of the same input)
+  key?: string;
+}
+
+export interface HistoryEntry extends HistoryStep {
+  state: AppState;
+}
+
+export interface History {
+  entries: HistoryEntry[];
+  // Entry matching the current editor state
+  index: number;
+}
+
+// Oldest entries are dropped beyond this many steps
+export const HISTORY_LIMIT = 100;
+
+export function createHistory(state: AppState, label = "Open"): History {
+  return { entries: [{ label, state }], index: 0 };
+}
+
+/**
+ * Record a new state. Steps after the current index (undone steps) are
+ * discarded; a step whose key matches the current entry replaces its state
+ * instead of adding an entry.
+ */
+export function pushHistory(
+  history: History,
+  step: HistoryStep,
+  state: AppState
+): History {
+  const current = history.entries[history.index];
+  const isLatest = history.index === history.entries.length - 1;
+
+  if (step.key && isLatest && current && current.key === step.key) {
+    const entries = [...history.entries];
+    entries[history.index] = { ...current, state };
+    return { entries, index: history.index };
+  }
+
+  const entries = [
+    ...history.entries.slice(0, history.index + 1),
+    { ...step, state },
+  ].slice(-HISTORY_LIMIT);
+  return { entries, index: entries.length - 1 };
+}
+
+export function canUndo(history: History): boolean {
+  return history.index > 0;
+}
+
+export function canRedo(history: History): boolean {
+  return history.index < history.entries.length - 1;
+}
+
+// Move to another entry; the caller restores `entries[index].state`
+export function jumpTo(history: History, index: number): History {
+  const clamped = Math.max(0, Math.min(history.entries.length - 1, index));
+  return clamped === history.index ? history : { ...history, index: clamped };
+}
+
+let gestureCount = 0;
+
+// Unique coalescing key for one pointer gesture (mousedown to mouseup)
+export function gestureKey(): string {
+  gestureCount += 1;
+  return `gesture-${gestureCount}`;
+}
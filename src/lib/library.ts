@@ -0,0 +1,140 @@
+import { AppState, blendModeList, layerToCss } from "./gradient";
+import { SHARE_VERSION } from "./shareUrl";
+
+// Local gradient library stored in IndexedDB. Entries keep the schema version
+// they were saved with so they can be migrated like share links on open.
+
+export interface LibraryThumbnail {
+  background: string;
+  blendMode?: string;
+}
+
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  tags: string[];
+  thumbnail: LibraryThumbnail;
+  // Raw AppState; run it through restoreState(state, version) before use
+  state: AppState;
+  version: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const DB_NAME = "gradient-playground";
+const DB_VERSION = 1;
+const STORE = "gradients";
+
+// Wrap a single IndexedDB request in a promise
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE, { keyPath: "id" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Allow a retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDb();
+  return db.transaction(STORE, mode).objectStore(STORE);
+}
+
+// All entries, most recently updated first
+export async function listLibrary(): Promise<LibraryEntry[]> {
+  const entries = await request(
+    (await store("readonly")).getAll() as IDBRequest<LibraryEntry[]>
+  );
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function putLibraryEntry(entry: LibraryEntry): Promise<void> {
+  await request((await store("readwrite")).put(entry));
+}
+
+export async function deleteLibraryEntry(id: string): Promise<void> {
+  await request((await store("readwrite")).delete(id));
+}
+
+// CSS for a small preview of the enabled layers
+export function renderThumbnail(state: AppState): LibraryThumbnail {
+  const background = state.layers
+    .filter((L) => L.enabled)
+    .map((L) => layerToCss(L))
+    .join(", ");
+  const modes = blendModeList(state.layers);
+  return modes ? { background, blendMode: modes.join(", ") } : { background };
+}
+
+export function createLibraryEntry(
+  name: string,
+  tags: string[],
+  state: AppState
+): LibraryEntry {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    tags,
+    thumbnail: renderThumbnail(state),
+    state,
+    version: SHARE_VERSION,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function duplicateLibraryEntry(entry: LibraryEntry): LibraryEntry {
+  const now = Date.now();
+  return {
+    ...entry,
+    id: crypto.randomUUID(),
+    name: `${entry.name} copy`,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// "brand, Hero dark" -> ["brand", "hero dark"], without duplicates
+export function parseTags(text: string): string[] {
+  const tags = text
+    .split(",")
+    .map((t) => t.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+// Every word of the query must appear in the name or in one of the tags
+export function searchLibrary(
+  entries: LibraryEntry[],
+  query: string
+): LibraryEntry[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return entries;
+  return entries.filter((entry) => {
+    const haystack = [entry.name.toLowerCase(), ...entry.tags];
+    return words.every((w) => haystack.some((h) => h.includes(w)));
+  });
+}
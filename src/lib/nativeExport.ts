@@ -0,0 +1,479 @@
+import { Rgba } from "./color";
+import {
+  BlendMode,
+  GradientLayer,
+  gradientLine,
+  radialRadii,
+  radialReach,
+} from "./gradient";
+import { RampStop, rampStops } from "./stopRamp";
+
+// SwiftUI, Jetpack Compose and Flutter code for the layer stack. Stops are
+// resampled over the range each layer actually shows, so the platforms'
+// plain sRGB interpolation between 0-1 stops matches the CSS. The generated
+// views are the preview size and stack layers bottom-up.
+
+export type NativePlatform = "swiftui" | "compose" | "flutter";
+
+export const NATIVE_PLATFORMS: { value: NativePlatform; label: string }[] = [
+  { value: "swiftui", label: "SwiftUI" },
+  { value: "compose", label: "Jetpack Compose" },
+  { value: "flutter", label: "Flutter" },
+];
+
+// Platform-neutral geometry in fractions of the box, plus pixel radii
+type NativeLayer = {
+  stops: RampStop[];
+  blendMode: BlendMode;
+} & (
+  | {
+      kind: "linear";
+      start: { x: number; y: number };
+      end: { x: number; y: number };
+    }
+  | {
+      kind: "radial";
+      center: { x: number; y: number };
+      // Circle radius at the last stop; ellipses are this circle scaled
+      // vertically by scaleY around the center
+      radius: number;
+      scaleY: number;
+    }
+  | {
+      kind: "sweep";
+      center: { x: number; y: number };
+      // Clockwise from 3 o'clock, the convention all three platforms share
+      startAngle: number;
+    }
+);
+
+function nativeLayers(
+  layers: GradientLayer[],
+  width: number,
+  height: number
+): NativeLayer[] {
+  // Layers without stops paint nothing, so they're left out
+  return layers
+    .filter((L) => L.enabled && L.stops.length > 0)
+    .reverse()
+    .map((layer): NativeLayer => {
+      const blendMode = layer.blendMode ?? "normal";
+      const center = { x: layer.at.x / 100, y: layer.at.y / 100 };
+
+      if (layer.type === "linear") {
+        const { x1, y1, x2, y2 } = gradientLine(layer.from, width, height);
+        return {
+          kind: "linear",
+          start: { x: x1 / width, y: y1 / height },
+          end: { x: x2 / width, y: y2 / height },
+          stops: rampStops(layer, 0, 100),
+          blendMode,
+        };
+      }
+      if (layer.type === "radial") {
+        const radii = radialRadii(layer, width, height);
+        const rx = Math.max(radii.x, 1e-6);
+        const reach = radialReach(layer, width, height);
+        return {
+          kind: "radial",
+          center,
+          radius: (rx * reach) / 100,
+          scaleY: Math.max(radii.y, 1e-6) / rx,
+          stops: rampStops(layer, 0, reach),
+          blendMode,
+        };
+      }
+      // CSS conic angles start at 12 o'clock
+      return {
+        kind: "sweep",
+        center,
+        startAngle: layer.from - 90,
+        stops: rampStops(layer, 0, 360),
+        blendMode,
+      };
+    });
+}
+
+function num(n: number, digits = 4): string {
+  return Number(n.toFixed(digits)).toString();
+}
+
+// 0xAARRGGBB, as Compose and Flutter's Color(Long/int) constructors take it
+function argbHex(c: Rgba): string {
+  return (
+    "0x" +
+    [c.a * 255, c.r, c.g, c.b]
+      .map((v) =>
+        Math.round(Math.max(0, Math.min(255, v)))
+          .toString(16)
+          .padStart(2, "0")
+      )
+      .join("")
+      .toUpperCase()
+  );
+}
+
+// "color-dodge" -> "colorDodge"
+function camelBlendMode(mode: BlendMode): string {
+  return mode.replace(/-(\w)/g, (_, c: string) => c.toUpperCase());
+}
+
+function indent(lines: string[], depth: number): string[] {
+  return lines.map((line) => " ".repeat(depth) + line);
+}
+
+function swiftUiLayer(layer: NativeLayer, width: number, height: number) {
+  const color = ({ r, g, b, a }: Rgba) =>
+    `Color(.sRGB, red: ${num(r / 255, 3)}, green: ${num(g / 255, 3)}, blue: ${num(b / 255, 3)}, opacity: ${num(a, 3)})`;
+  const stops = [
+    "stops: [",
+    ...layer.stops.map(
+      (s) => `    .init(color: ${color(s.color)}, location: ${num(s.offset)}),`
+    ),
+    "],",
+  ];
+  const point = ({ x, y }: { x: number; y: number }) =>
+    `UnitPoint(x: ${num(x)}, y: ${num(y)})`;
+
+  let lines: string[];
+  if (layer.kind === "linear") {
+    lines = [
+      "LinearGradient(",
+      ...indent(stops, 4),
+      `    startPoint: ${point(layer.start)},`,
+      `    endPoint: ${point(layer.end)}`,
+      ")",
+    ];
+  } else if (layer.kind === "radial") {
+    lines = [
+      "RadialGradient(",
+      ...indent(stops, 4),
+      `    center: ${point(layer.center)},`,
+      "    startRadius: 0,",
+      `    endRadius: ${num(layer.radius, 2)}`,
+      ")",
+    ];
+    // Lay the circle out in a frame stretched by 1/scaleY, then squash the
+    // frame back to the box; unit-point centers survive the round trip
+    if (Math.abs(layer.scaleY - 1) > 1e-6) {
+      lines.push(
+        `.frame(width: ${width}, height: ${num(height / layer.scaleY, 2)})`,
+        `.scaleEffect(x: 1, y: ${num(layer.scaleY)})`
+      );
+    }
+  } else {
+    lines = [
+      "AngularGradient(",
+      ...indent(stops, 4),
+      `    center: ${point(layer.center)},`,
+      `    angle: .degrees(${num(layer.startAngle, 2)})`,
+      ")",
+    ];
+  }
+
+  if (layer.blendMode !== "normal") {
+    lines.push(`.blendMode(.${camelBlendMode(layer.blendMode)})`);
+  }
+  return lines;
+}
+
+export function generateSwiftUI(
+  layers: GradientLayer[],
+  width: number,
+  height: number
+): string {
+  const native = nativeLayers(layers, width, height);
+  const blends = native.some((L) => L.blendMode !== "normal");
+
+  return [
+    "import SwiftUI",
+    "",
+    "struct GradientBackground: View {",
+    "    var body: some View {",
+    "        ZStack {",
+    ...indent(
+      native.flatMap((L) => swiftUiLayer(L, width, height)),
+      12
+    ),
+    "        }",
+    `        .frame(width: ${width}, height: ${height})`,
+    ...(blends ? ["        .compositingGroup()"] : []),
+    "        .clipped()",
+    "    }",
+    "}",
+    "",
+  ].join("\n");
+}
+
+// Compose spells two blend modes differently from CSS
+const COMPOSE_BLEND_MODES: Partial<Record<BlendMode, string>> = {
+  "hard-light": "Hardlight",
+  "soft-light": "Softlight",
+};
+
+function composeLayer(layer: NativeLayer, width: number) {
+  const f = (n: number) => `${num(n)}f`;
+  const offset = ({ x, y }: { x: number; y: number }) =>
+    `Offset(size.width * ${f(x)}, size.height * ${f(y)})`;
+  const stops = layer.stops.map(
+    (s) => `${f(s.offset)} to Color(${argbHex(s.color)}),`
+  );
+  const mode = camelBlendMode(layer.blendMode);
+  const blend =
+    layer.blendMode !== "normal"
+      ? [
+          `blendMode = BlendMode.${COMPOSE_BLEND_MODES[layer.blendMode] ?? mode[0].toUpperCase() + mode.slice(1)},`,
+        ]
+      : [];
+
+  if (layer.kind === "linear") {
+    return [
+      "drawRect(",
+      "    brush = Brush.linearGradient(",
+      ...indent(stops, 8),
+      `        start = ${offset(layer.start)},`,
+      `        end = ${offset(layer.end)},`,
+      "    ),",
+      ...indent(blend, 4),
+      ")",
+    ];
+  }
+
+  const center = offset(layer.center);
+  if (layer.kind === "radial") {
+    const radius = `size.width * ${f(layer.radius / width)}`;
+    const brush = [
+      "brush = Brush.radialGradient(",
+      ...indent(stops, 4),
+      `    center = ${center},`,
+      `    radius = ${radius},`,
+      "),",
+    ];
+    if (Math.abs(layer.scaleY - 1) <= 1e-6) {
+      return ["drawRect(", ...indent(brush, 4), ...indent(blend, 4), ")"];
+    }
+    // Ellipses: a circle squashed vertically around the center
+    return [
+      `scale(scaleX = 1f, scaleY = ${f(layer.scaleY)}, pivot = ${center}) {`,
+      "    drawCircle(",
+      ...indent(brush, 8),
+      `        radius = ${radius},`,
+      `        center = ${center},`,
+      ...indent(blend, 8),
+      "    )",
+      "}",
+    ];
+  }
+
+  // Sweep brushes start at 3 o'clock, so rotate the canvas instead; the
+  // circle is big enough to cover the box at any angle
+  return [
+    `rotate(degrees = ${f(layer.startAngle)}, pivot = ${center}) {`,
+    "    drawCircle(",
+    "        brush = Brush.sweepGradient(",
+    ...indent(stops, 12),
+    `            center = ${center},`,
+    "        ),",
+    "        radius = size.width + size.height,",
+    `        center = ${center},`,
+    ...indent(blend, 8),
+    "    )",
+    "}",
+  ];
+}
+
+export function generateCompose(
+  layers: GradientLayer[],
+  width: number,
+  height: number
+): string {
+  const native = nativeLayers(layers, width, height);
+  const blends = native.some((L) => L.blendMode !== "normal");
+  const imports = [
+    "androidx.compose.foundation.layout.Box",
+    "androidx.compose.foundation.layout.size",
+    "androidx.compose.runtime.Composable",
+    "androidx.compose.ui.Modifier",
+    "androidx.compose.ui.draw.drawBehind",
+    "androidx.compose.ui.geometry.Offset",
+    "androidx.compose.ui.graphics.Brush",
+    "androidx.compose.ui.graphics.Color",
+    "androidx.compose.ui.unit.dp",
+  ];
+  if (blends) {
+    imports.push(
+      "androidx.compose.ui.graphics.BlendMode",
+      "androidx.compose.ui.graphics.CompositingStrategy",
+      "androidx.compose.ui.graphics.graphicsLayer"
+    );
+  }
+  if (native.some((L) => L.kind === "sweep")) {
+    imports.push("androidx.compose.ui.graphics.drawscope.rotate");
+  }
+  if (
+    native.some((L) => L.kind === "radial" && Math.abs(L.scaleY - 1) > 1e-6)
+  ) {
+    imports.push("androidx.compose.ui.graphics.drawscope.scale");
+  }
+
+  return [
+    ...imports.sort().map((name) => `import ${name}`),
+    "",
+    "@Composable",
+    "fun GradientBackground(modifier: Modifier = Modifier) {",
+    "    Box(",
+    "        modifier = modifier",
+    `            .size(${width}.dp, ${height}.dp)`,
+    // Blend only with the layers below, not with what's behind the box
+    ...(blends
+      ? [
+          "            .graphicsLayer(compositingStrategy = CompositingStrategy.Offscreen)",
+        ]
+      : []),
+    "            .drawBehind {",
+    ...indent(
+      native.flatMap((L) => composeLayer(L, width)),
+      16
+    ),
+    "            }",
+    "    )",
+    "}",
+    "",
+  ].join("\n");
+}
+
+function flutterLayer(layer: NativeLayer, width: number, height: number) {
+  const alignment = ({ x, y }: { x: number; y: number }) =>
+    `Alignment(${num(x * 2 - 1)}, ${num(y * 2 - 1)})`;
+  const stops = [
+    "colors: const [",
+    ...layer.stops.map((s) => `  Color(${argbHex(s.color)}),`),
+    "],",
+    `stops: const [${layer.stops.map((s) => num(s.offset)).join(", ")}],`,
+  ];
+
+  let gradient: string[];
+  if (layer.kind === "linear") {
+    gradient = [
+      "gradient: LinearGradient(",
+      `  begin: ${alignment(layer.start)},`,
+      `  end: ${alignment(layer.end)},`,
+      ...indent(stops, 2),
+      "),",
+    ];
+  } else if (layer.kind === "radial") {
+    const ellipse = Math.abs(layer.scaleY - 1) > 1e-6;
+    gradient = [
+      "gradient: RadialGradient(",
+      `  center: ${alignment(layer.center)},`,
+      // Flutter radii are fractions of the box's shorter side
+      `  radius: ${num(layer.radius / Math.min(width, height))},`,
+      ...indent(stops, 2),
+      ...(ellipse
+        ? [
+            `  transform: const _ScaleYTransform(${alignment(layer.center)}, ${num(layer.scaleY)}),`,
+          ]
+        : []),
+      "),",
+    ];
+  } else {
+    // Repeat tiling wraps the angles before startAngle around to the end
+    const start = (((layer.startAngle % 360) + 360) % 360) * (Math.PI / 180);
+    gradient = [
+      "gradient: SweepGradient(",
+      `  center: ${alignment(layer.center)},`,
+      `  startAngle: ${num(start)},`,
+      `  endAngle: ${num(start + 2 * Math.PI)},`,
+      "  tileMode: TileMode.repeated,",
+      ...indent(stops, 2),
+      "),",
+    ];
+  }
+
+  return [
+    "DecoratedBox(",
+    "  decoration: BoxDecoration(",
+    ...indent(gradient, 4),
+    ...(layer.blendMode !== "normal"
+      ? [
+          `    backgroundBlendMode: BlendMode.${camelBlendMode(layer.blendMode)},`,
+        ]
+      : []),
+    "  ),",
+    "),",
+  ];
+}
+
+// RadialGradient is always circular; ellipses need a custom transform
+const FLUTTER_SCALE_Y_TRANSFORM = [
+  "",
+  "// Squashes a gradient vertically around a point of the box",
+  "class _ScaleYTransform extends GradientTransform {",
+  "  const _ScaleYTransform(this.center, this.scaleY);",
+  "",
+  "  final Alignment center;",
+  "  final double scaleY;",
+  "",
+  "  @override",
+  "  Matrix4 transform(Rect bounds, {TextDirection? textDirection}) {",
+  "    final c = center.withinRect(bounds);",
+  "    return Matrix4.translationValues(c.dx, c.dy, 0)",
+  "      ..multiply(Matrix4.diagonal3Values(1, scaleY, 1))",
+  "      ..multiply(Matrix4.translationValues(-c.dx, -c.dy, 0));",
+  "  }",
+  "}",
+];
+
+export function generateFlutter(
+  layers: GradientLayer[],
+  width: number,
+  height: number
+): string {
+  const native = nativeLayers(layers, width, height);
+  const ellipses = native.some(
+    (L) => L.kind === "radial" && Math.abs(L.scaleY - 1) > 1e-6
+  );
+
+  return [
+    "import 'package:flutter/material.dart';",
+    "",
+    "class GradientBackground extends StatelessWidget {",
+    "  const GradientBackground({super.key});",
+    "",
+    "  @override",
+    "  Widget build(BuildContext context) {",
+    "    return SizedBox(",
+    `      width: ${width},`,
+    `      height: ${height},`,
+    "      child: Stack(",
+    "        fit: StackFit.expand,",
+    "        children: [",
+    ...indent(
+      native.flatMap((L) => flutterLayer(L, width, height)),
+      10
+    ),
+    "        ],",
+    "      ),",
+    "    );",
+    "  }",
+    "}",
+    ...(ellipses ? FLUTTER_SCALE_Y_TRANSFORM : []),
+    "",
+  ].join("\n");
+}
+
+export function generateNativeCode(
+  platform: NativePlatform,
+  layers: GradientLayer[],
+  width: number,
+  height: number
+): string {
+  switch (platform) {
+    case "swiftui":
+      return generateSwiftUI(layers, width, height);
+    case "compose":
+      return generateCompose(layers, width, height);
+    case "flutter":
+      return generateFlutter(layers, width, height);
+  }
+}
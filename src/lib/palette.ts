@@ -0,0 +1,291 @@
+import {
+  Rgba,
+  Vec3,
+  formatColor,
+  oklabToRgb,
+  rgbToOklab,
+  toPolar,
+} from "./color";
+import { GradientLayer, GradientStop } from "./gradient";
+
+// Extracts a color palette from image pixels (k-means in OKLab, so clusters
+// follow perceived color) and arranges it into ready-made layer stacks.
+// Everything runs locally on pixels the browser has already decoded.
+
+export interface PaletteColor {
+  color: Rgba;
+  // Share of the sampled pixels closest to this color, 0-1
+  weight: number;
+}
+
+export interface PaletteProposal {
+  name: string;
+  layers: GradientLayer[];
+}
+
+export interface PaletteProposalOptions {
+  firstId?: number;
+}
+
+// Pixels fed to k-means; larger images are sampled at a regular stride
+const MAX_SAMPLES = 6000;
+const ITERATIONS = 16;
+// Clusters closer than this (OKLab distance) are merged into one color
+const MERGE_DISTANCE = 0.04;
+
+const distanceSq = (p: Vec3, q: Vec3) =>
+  (p[0] - q[0]) ** 2 + (p[1] - q[1]) ** 2 + (p[2] - q[2]) ** 2;
+
+function nearest(p: Vec3, centers: Vec3[]): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  centers.forEach((c, i) => {
+    const d = distanceSq(p, c);
+    if (d < bestDistance) {
+      best = i;
+      bestDistance = d;
+    }
+  });
+  return best;
+}
+
+/**
+ * Up to `count` dominant colors of RGBA pixel data (as from getImageData),
+ * most common first. Mostly transparent pixels are ignored; an image without
+ * opaque pixels yields an empty palette. Centers start from the mean color
+ * and then the sample farthest from every center so far, so the result is
+ * deterministic and small accent colors still get a cluster.
+ */
+export function extractPalette(
+  data: Uint8ClampedArray,
+  count = 6
+): PaletteColor[] {
+  const pixelCount = Math.floor(data.length / 4);
+  const stride = Math.max(1, Math.floor(pixelCount / MAX_SAMPLES));
+  const samples: Vec3[] = [];
+  for (let i = 0; i < pixelCount; i += stride) {
+    const o = i * 4;
+    if (data[o + 3] < 128) continue;
+    samples.push(
+      rgbToOklab({ r: data[o], g: data[o + 1], b: data[o + 2], a: 1 })
+    );
+  }
+  if (samples.length === 0) return [];
+
+  const mean = (points: Vec3[]): Vec3 => {
+    const sum: Vec3 = [0, 0, 0];
+    for (const p of points) {
+      sum[0] += p[0];
+      sum[1] += p[1];
+      sum[2] += p[2];
+    }
+    return [
+      sum[0] / points.length,
+      sum[1] / points.length,
+      sum[2] / points.length,
+    ];
+  };
+
+  let centers: Vec3[] = [mean(samples)];
+  const closest = samples.map((p) => distanceSq(p, centers[0]));
+  while (centers.length < count) {
+    let farthest = 0;
+    closest.forEach((d, i) => {
+      if (d > closest[farthest]) farthest = i;
+    });
+    if (closest[farthest] === 0) break;
+    const center = samples[farthest];
+    centers.push(center);
+    samples.forEach((p, i) => {
+      closest[i] = Math.min(closest[i], distanceSq(p, center));
+    });
+  }
+
+  let assignment = samples.map((p) => nearest(p, centers));
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const clusters: Vec3[][] = centers.map(() => []);
+    samples.forEach((p, i) => clusters[assignment[i]].push(p));
+    // Empty clusters are dropped rather than reseeded
+    centers = clusters.filter((c) => c.length > 0).map(mean);
+    const next = samples.map((p) => nearest(p, centers));
+    const changed = next.some((c, i) => c !== assignment[i]);
+    assignment = next;
+    if (!changed) break;
+  }
+
+  const sizes = centers.map(() => 0);
+  assignment.forEach((c) => sizes[c]++);
+
+  // Fold near-identical clusters into the larger one
+  const merged: { center: Vec3; size: number }[] = [];
+  centers
+    .map((center, i) => ({ center, size: sizes[i] }))
+    .filter((c) => c.size > 0)
+    .sort((a, b) => b.size - a.size)
+    .forEach((c) => {
+      const into = merged.find(
+        (m) => distanceSq(m.center, c.center) < MERGE_DISTANCE ** 2
+      );
+      if (into) into.size += c.size;
+      else merged.push({ ...c });
+    });
+
+  return merged
+    .sort((a, b) => b.size - a.size)
+    .map(({ center, size }) => ({
+      color: clampRgb(oklabToRgb(center)),
+      weight: size / samples.length,
+    }));
+}
+
+function clampRgb(c: Rgba): Rgba {
+  const channel = (v: number) => Math.round(Math.max(0, Math.min(255, v)));
+  return { r: channel(c.r), g: channel(c.g), b: channel(c.b), a: c.a };
+}
+
+const hex = (c: Rgba) => formatColor(c, "hex");
+const lightness = (c: Rgba) => rgbToOklab(c)[0];
+const round = (n: number) => Number(n.toFixed(2));
+
+// Evenly spaced stops over `range` (100% or 360deg)
+function spread(colors: Rgba[], range = 100): GradientStop[] {
+  return colors.map((c, i) => ({
+    color: hex(c),
+    pos: round(colors.length > 1 ? (i / (colors.length - 1)) * range : 0),
+  }));
+}
+
+// Where each blob of the "Soft blobs" stack sits
+const BLOB_CENTERS = [
+  { x: 15, y: 20 },
+  { x: 85, y: 15 },
+  { x: 80, y: 85 },
+  { x: 20, y: 80 },
+  { x: 50, y: 50 },
+];
+
+/**
+ * Layer stacks built from a palette: linear, conic and radial arrangements
+ * plus a layered "mesh" look. Every proposal numbers its layers from
+ * `firstId`, since only one of them ends up in the editor.
+ */
+export function paletteProposals(
+  palette: PaletteColor[],
+  options: PaletteProposalOptions = {}
+): PaletteProposal[] {
+  if (palette.length === 0) return [];
+  const firstId = options.firstId ?? Date.now();
+  const colors = palette.map((p) => p.color);
+  // A single color still needs two stops
+  if (colors.length === 1) colors.push(colors[0]);
+
+  const layer = (
+    offset: number,
+    fields: Pick<GradientLayer, "type" | "stops"> & Partial<GradientLayer>
+  ): GradientLayer => ({
+    id: firstId + offset,
+    from: 0,
+    at: { x: 50, y: 50 },
+    enabled: true,
+    opacity: 1,
+    ...fields,
+  });
+
+  const byLightness = [...colors].sort((a, b) => lightness(a) - lightness(b));
+  // Near-grey colors have no meaningful hue and are left out of the wheel
+  // unless nothing else is left
+  const chromatic = colors
+    .map((c) => ({ c, lch: toPolar(rgbToOklab(c)) }))
+    .filter(({ lch }) => lch[1] > 0.03);
+  const byHue = (
+    chromatic.length >= 2
+      ? chromatic
+      : colors.map((c) => ({ c, lch: toPolar(rgbToOklab(c)) }))
+  )
+    .sort((a, b) => a.lch[2] - b.lch[2])
+    .map(({ c }) => c);
+
+  // Bands as wide as each color's share of the image, most common first
+  const total = palette.reduce((sum, p) => sum + p.weight, 0) || 1;
+  let start = 0;
+  const bands: GradientStop[] = palette.map((p) => {
+    const end = start + (p.weight / total) * 100;
+    const stop = { color: hex(p.color), pos: round(start), pos2: round(end) };
+    start = end;
+    return stop;
+  });
+  if (bands.length === 1)
+    bands.push({ ...bands[0], pos: 100, pos2: undefined });
+
+  // Accent colors glow over a wash from the most common color into the
+  // darkest one (or the lightest, when those are the same)
+  const washEnd =
+    byLightness[0] === colors[0]
+      ? byLightness[byLightness.length - 1]
+      : byLightness[0];
+  const blobs = colors.slice(1, BLOB_CENTERS.length + 1).map((c, i) =>
+    layer(i, {
+      type: "radial",
+      at: BLOB_CENTERS[i],
+      shape: "circle",
+      size: { kind: "extent", extent: "farthest-corner" },
+      colorSpace: "oklab",
+      stops: [
+        { color: hex(c), pos: 0 },
+        { color: hex({ ...c, a: 0 }), pos: 50 },
+      ],
+    })
+  );
+
+  return [
+    {
+      name: "Linear",
+      layers: [
+        layer(0, {
+          type: "linear",
+          from: 135,
+          colorSpace: "oklab",
+          stops: spread(byLightness),
+        }),
+      ],
+    },
+    {
+      name: "Bands",
+      layers: [layer(0, { type: "linear", from: 90, stops: bands })],
+    },
+    {
+      name: "Conic",
+      layers: [
+        layer(0, {
+          type: "conic",
+          colorSpace: "oklab",
+          // Back to the first color so the sweep has no seam
+          stops: spread([...byHue, byHue[0]], 360),
+        }),
+      ],
+    },
+    {
+      name: "Radial",
+      layers: [
+        layer(0, {
+          type: "radial",
+          at: { x: 30, y: 30 },
+          colorSpace: "oklab",
+          stops: spread([...byLightness].reverse()),
+        }),
+      ],
+    },
+    {
+      name: "Soft blobs",
+      layers: [
+        ...blobs,
+        layer(blobs.length, {
+          type: "linear",
+          from: 180,
+          colorSpace: "oklab",
+          stops: spread([colors[0], washEnd]),
+        }),
+      ],
+    },
+  ];
+}
@@ -0,0 +1,215 @@
+import { Rgba, parseColor, rgbToOklab, toPolar } from "./color";
+import { parseCssGradient } from "./cssParser";
+import { AppState } from "./gradient";
+
+// Curated starting points for the preset gallery. Presets are written as
+// CSS, which is far easier to curate than layer objects, and parsed into
+// AppStates once when the module loads.
+
+export type PresetCategory = "Mesh" | "Sunset" | "Aurora" | "Stripes" | "Glass";
+
+export const PRESET_CATEGORIES: PresetCategory[] = [
+  "Mesh",
+  "Sunset",
+  "Aurora",
+  "Stripes",
+  "Glass",
+];
+
+export interface Preset {
+  id: string;
+  name: string;
+  category: PresetCategory;
+  state: AppState;
+}
+
+const PREVIEW_W = 300;
+const PREVIEW_H = 180;
+
+function preset(
+  id: string,
+  name: string,
+  category: PresetCategory,
+  css: string
+): Preset {
+  const { layers, errors } = parseCssGradient(css, {
+    width: PREVIEW_W,
+    height: PREVIEW_H,
+    firstId: 1,
+  });
+  // A broken preset is a bug in this file, not something to show users
+  if (errors.length > 0 || layers.length === 0) {
+    throw new Error(`Preset ${id}: ${errors[0]?.message ?? "no layers"}`);
+  }
+  return {
+    id,
+    name,
+    category,
+    state: {
+      layers,
+      previewW: PREVIEW_W,
+      previewH: PREVIEW_H,
+      selectedLayerId: layers[0].id,
+    },
+  };
+}
+
+export const PRESETS: Preset[] = [
+  preset(
+    "peach-mesh",
+    "Peach mesh",
+    "Mesh",
+    `radial-gradient(at 18% 22%, #ffb199 0%, transparent 50%),
+     radial-gradient(at 82% 12%, #ff7eb3 0%, transparent 50%),
+     radial-gradient(at 70% 85%, #8fd3f4 0%, transparent 55%),
+     linear-gradient(135deg, #fceabb 0%, #f8b195 100%)`
+  ),
+  preset(
+    "lagoon-mesh",
+    "Lagoon mesh",
+    "Mesh",
+    `radial-gradient(at 10% 90%, #00c9a7 0%, transparent 55%),
+     radial-gradient(at 90% 15%, #845ec2 0%, transparent 50%),
+     radial-gradient(at 55% 45%, #4d8076 0%, transparent 45%),
+     linear-gradient(160deg, #0b1e3f 0%, #132f4c 100%)`
+  ),
+  preset(
+    "candy-mesh",
+    "Candy mesh",
+    "Mesh",
+    `radial-gradient(circle at 25% 25%, #ff9ff3 0%, transparent 45%),
+     radial-gradient(circle at 75% 30%, #feca57 0%, transparent 45%),
+     radial-gradient(circle at 50% 80%, #48dbfb 0%, transparent 50%),
+     linear-gradient(180deg, #fff5f8 0%, #f3e8ff 100%)`
+  ),
+  preset(
+    "golden-hour",
+    "Golden hour",
+    "Sunset",
+    `linear-gradient(180deg, #0b1d51 0%, #725ac1 35%, #f26b5b 68%, #ffcf6f 100%)`
+  ),
+  preset(
+    "desert-dusk",
+    "Desert dusk",
+    "Sunset",
+    `radial-gradient(circle at 50% 100%, #ffd36e 0%, #ff7a59 25%, transparent 60%),
+     linear-gradient(180deg, #2b1055 0%, #d53369 70%, #f9a26c 100%)`
+  ),
+  preset(
+    "miami",
+    "Miami",
+    "Sunset",
+    `linear-gradient(90deg, #ff9a8b 0%, #ff6a88 55%, #ff99ac 100%)`
+  ),
+  preset(
+    "northern-lights",
+    "Northern lights",
+    "Aurora",
+    `radial-gradient(ellipse at 30% 0%, #3cff9c 0%, transparent 55%),
+     radial-gradient(ellipse at 70% 10%, #4fc3f7 0%, transparent 50%),
+     radial-gradient(ellipse at 50% 35%, #a66cff 0%, transparent 60%),
+     linear-gradient(180deg, #020b1f 0%, #0b1e3f 100%)`
+  ),
+  preset(
+    "borealis-ribbon",
+    "Borealis ribbon",
+    "Aurora",
+    `linear-gradient(180deg, rgba(2, 6, 23, 0.9) 0%, rgba(2, 6, 23, 0) 60%),
+     conic-gradient(from 200deg at 50% 120%, #00ffa3 0deg, #03e1ff 120deg, #dc1fff 240deg, #00ffa3 360deg)`
+  ),
+  preset(
+    "polar-night",
+    "Polar night",
+    "Aurora",
+    `radial-gradient(ellipse at 20% 20%, rgba(0, 255, 170, 0.5) 0%, transparent 50%),
+     radial-gradient(ellipse at 80% 30%, rgba(120, 80, 255, 0.45) 0%, transparent 55%),
+     linear-gradient(200deg, #0f2027 0%, #203a43 50%, #2c5364 100%)`
+  ),
+  preset(
+    "candy-stripes",
+    "Candy stripes",
+    "Stripes",
+    `repeating-linear-gradient(45deg, #ff6b6b 0% 5%, #ffe66d 5% 10%)`
+  ),
+  preset(
+    "pinstripe",
+    "Pinstripe",
+    "Stripes",
+    `repeating-linear-gradient(90deg, rgba(255, 255, 255, 0.1) 0% 0.5%, transparent 0.5% 4%),
+     linear-gradient(180deg, #1e293b 0%, #0f172a 100%)`
+  ),
+  preset(
+    "sunburst",
+    "Sunburst",
+    "Stripes",
+    `repeating-conic-gradient(from 0deg at 50% 50%, #ffcf56 0deg 10deg, #ff8c42 10deg 20deg)`
+  ),
+  preset(
+    "frosted",
+    "Frosted",
+    "Glass",
+    `linear-gradient(135deg, rgba(255, 255, 255, 0.4) 0%, rgba(255, 255, 255, 0.05) 100%),
+     radial-gradient(circle at 25% 30%, #ff6ec7 0%, transparent 40%),
+     radial-gradient(circle at 75% 70%, #7873f5 0%, transparent 45%),
+     linear-gradient(135deg, #1f1c2c 0%, #928dab 100%)`
+  ),
+  preset(
+    "ice-glass",
+    "Ice glass",
+    "Glass",
+    `linear-gradient(160deg, rgba(255, 255, 255, 0.55) 0%, rgba(255, 255, 255, 0.1) 45%, rgba(255, 255, 255, 0.3) 100%),
+     radial-gradient(circle at 80% 20%, #a1c4fd 0%, transparent 50%),
+     linear-gradient(135deg, #c2e9fb 0%, #81a4fd 100%)`
+  ),
+  preset(
+    "midnight-glass",
+    "Midnight glass",
+    "Glass",
+    `linear-gradient(120deg, rgba(255, 255, 255, 0.12) 0%, rgba(255, 255, 255, 0) 50%),
+     radial-gradient(circle at 30% 70%, #3a7bd5 0%, transparent 50%),
+     radial-gradient(circle at 75% 25%, #00d2ff 0%, transparent 40%),
+     linear-gradient(180deg, #0f0c29 0%, #302b63 100%)`
+  ),
+];
+
+// Hue tolerance (degrees) for chromatic colors, and lightness tolerance
+// (OKLab L) for greys, black and white, when searching by color
+const HUE_TOLERANCE = 30;
+const LIGHTNESS_TOLERANCE = 0.15;
+// Below this OKLCH chroma a color counts as grey
+const GREY_CHROMA = 0.04;
+
+function colorsMatch(query: Rgba, color: Rgba): boolean {
+  if (color.a < 0.2) return false;
+  const [qL, qC, qH] = toPolar(rgbToOklab(query));
+  const [L, C, H] = toPolar(rgbToOklab(color));
+  if (qC < GREY_CHROMA) {
+    return C < GREY_CHROMA && Math.abs(L - qL) < LIGHTNESS_TOLERANCE;
+  }
+  const hueDistance = Math.abs(((H - qH + 540) % 360) - 180);
+  return C >= GREY_CHROMA && hueDistance < HUE_TOLERANCE;
+}
+
+/**
+ * Presets matching every word of `query`, each by name or category, or as a
+ * color (a CSS color name or hex) close in hue to one of the preset's stops.
+ */
+export function searchPresets(query: string, presets = PRESETS): Preset[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return presets.filter((p) =>
+    terms.every((term) => {
+      if (p.name.toLowerCase().includes(term)) return true;
+      if (p.category.toLowerCase().includes(term)) return true;
+      const color = parseColor(term);
+      return (
+        color != null &&
+        p.state.layers.some((L) =>
+          L.stops.some((s) => {
+            const stop = parseColor(s.color);
+            return stop != null && colorsMatch(color, stop);
+          })
+        )
+      );
+    })
+  );
+}
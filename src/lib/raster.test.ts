@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { GradientLayer } from "./gradient";
+import { RasterImage, rasterizeLayers } from "./raster";
+
+function layer(patch: Partial<GradientLayer>): GradientLayer {
+  return {
+    id: 1,
+    type: "linear",
+    from: 90,
+    at: { x: 50, y: 50 },
+    stops: [
+      { color: "#ff0000", pos: 0 },
+      { color: "#0000ff", pos: 100 },
+    ],
+    enabled: true,
+    opacity: 1,
+    ...patch,
+  };
+}
+
+function pixel(image: RasterImage, x: number, y: number): number[] {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.slice(i, i + 4));
+}
+
+describe("rasterizeLayers", () => {
+  it("mixes a two-stop linear gradient halfway at its midpoint", () => {
+    // With an odd width the middle pixel's center is exactly at 50%
+    const image = rasterizeLayers([layer({})], 101, 1);
+    assert.deepEqual(pixel(image, 50, 0), [128, 0, 128, 255]);
+    assert.deepEqual(pixel(image, 0, 0), [254, 0, 1, 255]);
+  });
+
+  it("puts the conic seam straight up from the center", () => {
+    const image = rasterizeLayers(
+      [
+        layer({
+          type: "conic",
+          from: 0,
+          stops: [
+            { color: "#ff0000", pos: 0 },
+            { color: "#0000ff", pos: 360 },
+          ],
+        }),
+      ],
+      100,
+      100
+    );
+    // Just left of 12 o'clock is the end of the sweep, just right its start
+    const [r1, , b1] = pixel(image, 49, 0);
+    const [r2, , b2] = pixel(image, 50, 0);
+    assert.ok(b1 > 250 && r1 < 5, `left of the seam: ${r1}, ${b1}`);
+    assert.ok(r2 > 250 && b2 < 5, `right of the seam: ${r2}, ${b2}`);
+  });
+
+  it("sizes radial layers by their extent keyword", () => {
+    // A hard edge at 100% shows where the ending shape lies
+    const stops = [
+      { color: "#ff0000", pos: 0 },
+      { color: "#ff0000", pos: 100 },
+      { color: "#0000ff", pos: 100 },
+    ];
+    const radial = (extent: "closest-side" | "farthest-side") =>
+      rasterizeLayers(
+        [
+          layer({
+            type: "radial",
+            shape: "circle",
+            size: { kind: "extent", extent },
+            stops,
+          }),
+        ],
+        200,
+        100
+      );
+
+    // The center is at (100, 50): 50px to the closest side, 100px to the
+    // farthest
+    const closest = radial("closest-side");
+    assert.deepEqual(pixel(closest, 140, 50), [255, 0, 0, 255]);
+    assert.deepEqual(pixel(closest, 160, 50), [0, 0, 255, 255]);
+    const farthest = radial("farthest-side");
+    assert.deepEqual(pixel(farthest, 160, 50), [255, 0, 0, 255]);
+    assert.deepEqual(pixel(farthest, 199, 0), [0, 0, 255, 255]);
+  });
+
+  it("composites a translucent layer over the one below", () => {
+    const solid = (color: string) => [
+      { color, pos: 0 },
+      { color, pos: 100 },
+    ];
+    const image = rasterizeLayers(
+      [
+        layer({ id: 1, stops: solid("#ff0000"), opacity: 0.5 }),
+        layer({ id: 2, stops: solid("#ffffff") }),
+      ],
+      4,
+      4
+    );
+    assert.deepEqual(pixel(image, 2, 2), [255, 128, 128, 255]);
+  });
+
+  it("skips disabled layers and layers without stops", () => {
+    const image = rasterizeLayers(
+      [layer({ id: 1, stops: [] }), layer({ id: 2, enabled: false })],
+      4,
+      4
+    );
+    assert.ok(image.data.every((v) => v === 0));
+  });
+
+  it("dithers deterministically", () => {
+    const layers = [
+      layer({
+        stops: [
+          { color: "#202020", pos: 0 },
+          { color: "#303030", pos: 100 },
+        ],
+      }),
+    ];
+    const a = rasterizeLayers(layers, 64, 8, { dither: true });
+    const b = rasterizeLayers(layers, 64, 8, { dither: true });
+    const plain = rasterizeLayers(layers, 64, 8);
+    assert.deepEqual(a.data, b.data);
+    assert.notDeepEqual(a.data, plain.data);
+  });
+});
@@ -0,0 +1,512 @@
+import {
+  Rgba,
+  Vec3,
+  displayP3ToRgb,
+  fromPolar,
+  hslToRgb,
+  hwbToRgb,
+  labToRgb,
+  linearVecToRgb,
+  oklabToRgb,
+  parseColor,
+  rgbToDisplayP3,
+  rgbToHsl,
+  rgbToHwb,
+  rgbToLab,
+  rgbToLinearVec,
+  rgbToOklab,
+  rgbToXyz,
+  toPolar,
+  xyzToRgb,
+} from "./color";
+import {
+  BlendMode,
+  GradientLayer,
+  HueInterpolation,
+  InterpolationSpace,
+  radialRadii,
+} from "./gradient";
+
+// Deterministic software renderer for the layer stack. It has no DOM
+// dependencies so it runs (and can be tested) in Node as well as the browser.
+
+export interface RasterOptions {
+  // Multiplies explicit radial radii, which are stored in preview pixels
+  // (e.g. export width / preview width)
+  lengthScale?: number;
+  // Ordered dithering when quantizing to 8 bits, to hide banding
+  dither?: boolean;
+}
+
+// Straight-alpha RGBA, 4 bytes per pixel, rows top to bottom (like ImageData)
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray<ArrayBuffer>;
+}
+
+// Premultiplied RGBA with channels in 0-1
+export type Pixel = [number, number, number, number];
+
+const TRANSPARENT: Rgba = { r: 0, g: 0, b: 0, a: 0 };
+
+// Color samples per stop-to-stop segment; lookups interpolate between them
+const SEGMENT_SAMPLES = 256;
+
+// Channel index of the hue in polar interpolation spaces
+const HUE_CHANNEL: Partial<Record<InterpolationSpace, number>> = {
+  hsl: 0,
+  hwb: 0,
+  lch: 2,
+  oklch: 2,
+};
+
+// Coordinates of a color in an interpolation space; a powerless hue (gray
+// colors) is NaN so it can take the other color's hue
+function toSpace(c: Rgba, space: InterpolationSpace): Vec3 {
+  switch (space) {
+    case "srgb":
+      return [c.r / 255, c.g / 255, c.b / 255];
+    case "srgb-linear":
+      return rgbToLinearVec(c);
+    case "display-p3":
+      return rgbToDisplayP3(c);
+    case "xyz":
+      return rgbToXyz(c);
+    case "lab":
+      return rgbToLab(c);
+    case "oklab":
+      return rgbToOklab(c);
+    case "hsl": {
+      const hsl = rgbToHsl(c);
+      return hsl[1] === 0 ? [NaN, hsl[1], hsl[2]] : hsl;
+    }
+    case "hwb": {
+      const hwb = rgbToHwb(c);
+      return hwb[1] + hwb[2] >= 1 ? [NaN, hwb[1], hwb[2]] : hwb;
+    }
+    case "lch": {
+      const lch = toPolar(rgbToLab(c));
+      return lch[1] < 1e-2 ? [lch[0], lch[1], NaN] : lch;
+    }
+    case "oklch": {
+      const oklch = toPolar(rgbToOklab(c));
+      return oklch[1] < 1e-4 ? [oklch[0], oklch[1], NaN] : oklch;
+    }
+  }
+}
+
+function fromSpace(v: Vec3, space: InterpolationSpace): Rgba {
+  switch (space) {
+    case "srgb":
+      return { r: v[0] * 255, g: v[1] * 255, b: v[2] * 255, a: 1 };
+    case "srgb-linear":
+      return linearVecToRgb(v);
+    case "display-p3":
+      return displayP3ToRgb(v);
+    case "xyz":
+      return xyzToRgb(v);
+    case "lab":
+      return labToRgb(v);
+    case "oklab":
+      return oklabToRgb(v);
+    case "hsl":
+      return hslToRgb(v[0], v[1], v[2]);
+    case "hwb":
+      return hwbToRgb(v[0], v[1], v[2]);
+    case "lch":
+      return labToRgb(fromPolar(v));
+    case "oklch":
+      return oklabToRgb(fromPolar(v));
+  }
+}
+
+// CSS Color 4 hue interpolation; both hues are in degrees
+function mixHue(
+  h1: number,
+  h2: number,
+  f: number,
+  method: HueInterpolation
+): number {
+  if (Number.isNaN(h1)) h1 = h2;
+  if (Number.isNaN(h2)) h2 = h1;
+  if (Number.isNaN(h1)) return 0;
+
+  h1 = ((h1 % 360) + 360) % 360;
+  h2 = ((h2 % 360) + 360) % 360;
+  const d = h2 - h1;
+  if (method === "shorter") {
+    if (d > 180) h1 += 360;
+    else if (d < -180) h2 += 360;
+  } else if (method === "longer") {
+    if (d > 0 && d < 180) h1 += 360;
+    else if (d > -180 && d <= 0) h2 += 360;
+  } else if (method === "increasing") {
+    if (d < 0) h2 += 360;
+  } else if (d > 0) {
+    h1 += 360;
+  }
+  return h1 + (h2 - h1) * f;
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/**
+ * Mix two colors in a CSS interpolation space with premultiplied alpha.
+ * Returns a premultiplied sRGB pixel clipped to the sRGB gamut.
+ */
+export function mixColors(
+  c1: Rgba,
+  c2: Rgba,
+  f: number,
+  space: InterpolationSpace = "srgb",
+  hue: HueInterpolation = "shorter"
+): Pixel {
+  const a = c1.a + (c2.a - c1.a) * f;
+  if (a <= 0) return [0, 0, 0, 0];
+
+  const v1 = toSpace(c1, space);
+  const v2 = toSpace(c2, space);
+  const hueIndex = HUE_CHANNEL[space];
+  const mixed = [0, 1, 2].map((i) =>
+    i === hueIndex
+      ? mixHue(v1[i], v2[i], f, hue)
+      : (v1[i] * c1.a + (v2[i] * c2.a - v1[i] * c1.a) * f) / a
+  ) as Vec3;
+
+  const rgb = fromSpace(mixed, space);
+  return [
+    clamp01(rgb.r / 255) * a,
+    clamp01(rgb.g / 255) * a,
+    clamp01(rgb.b / 255) * a,
+    a,
+  ];
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  // Transition hint as a 0-1 fraction of the segment, if any
+  hint: number | null;
+  // SEGMENT_SAMPLES + 1 premultiplied pixels from start to end
+  samples: Float32Array;
+}
+
+export interface ColorStop {
+  pos: number;
+  color: Rgba;
+  hint?: number;
+}
+
+// Expand double-position stops and fix positions up the way CSS does:
+// a position smaller than any before it is raised to that maximum
+export function resolveStops(layer: GradientLayer): ColorStop[] {
+  const stops: ColorStop[] = [];
+  let max = -Infinity;
+  const fix = (pos: number) => (max = Math.max(max, pos));
+
+  layer.stops.forEach((s, i) => {
+    const color = parseColor(s.color) ?? TRANSPARENT;
+    stops.push({ pos: fix(s.pos), color });
+    if (s.pos2 != null) stops.push({ pos: fix(s.pos2), color });
+    if (s.hint != null && i < layer.stops.length - 1) {
+      stops[stops.length - 1].hint = s.hint;
+    }
+  });
+  return stops;
+}
+
+/**
+ * Build a lookup function from a stop position (deg for conic, % otherwise)
+ * to the layer's premultiplied color, including repetition and opacity.
+ * A layer without stops paints nothing.
+ */
+export function createStopSampler(layer: GradientLayer): (t: number) => Pixel {
+  const stops = resolveStops(layer);
+  if (stops.length === 0) return () => [0, 0, 0, 0];
+  const space = layer.colorSpace ?? "srgb";
+  const hue = layer.hueInterpolation ?? "shorter";
+  const opacity = layer.opacity;
+  const withOpacity = (c: Rgba): Rgba => ({ ...c, a: c.a * opacity });
+  const solid = (c: Rgba) => mixColors(withOpacity(c), withOpacity(c), 0);
+
+  const first = stops[0];
+  const last = stops[stops.length - 1];
+  const firstPixel = solid(first.color);
+  const lastPixel = solid(last.color);
+
+  const segments: Segment[] = [];
+  for (let i = 0; i < stops.length - 1; i++) {
+    const a = stops[i];
+    const b = stops[i + 1];
+    if (b.pos <= a.pos) continue;
+
+    const samples = new Float32Array((SEGMENT_SAMPLES + 1) * 4);
+    for (let k = 0; k <= SEGMENT_SAMPLES; k++) {
+      const px = mixColors(
+        withOpacity(a.color),
+        withOpacity(b.color),
+        k / SEGMENT_SAMPLES,
+        space,
+        hue
+      );
+      samples.set(px, k * 4);
+    }
+    const hint =
+      a.hint != null
+        ? clamp01(
+            (Math.min(Math.max(a.hint, a.pos), b.pos) - a.pos) / (b.pos - a.pos)
+          )
+        : null;
+    segments.push({ start: a.pos, end: b.pos, hint, samples });
+  }
+
+  const period = last.pos - first.pos;
+
+  return (t: number): Pixel => {
+    if (layer.repeating && period > 0) {
+      t = first.pos + ((((t - first.pos) % period) + period) % period);
+    }
+    if (segments.length === 0 || t < first.pos) return firstPixel;
+    if (t >= last.pos) return lastPixel;
+
+    // Last segment starting at or before t
+    let lo = 0;
+    let hi = segments.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (segments[mid].start <= t) lo = mid;
+      else hi = mid - 1;
+    }
+    const seg = segments[lo];
+    // Guard against rounding at the very end of the range
+    if (t >= seg.end) return lastPixelOf(seg);
+
+    let f = (t - seg.start) / (seg.end - seg.start);
+    if (seg.hint != null) {
+      if (seg.hint <= 0) f = 1;
+      else if (seg.hint >= 1) f = 0;
+      else f = f ** (Math.log(0.5) / Math.log(seg.hint));
+    }
+
+    const x = f * SEGMENT_SAMPLES;
+    const k = Math.min(SEGMENT_SAMPLES - 1, Math.floor(x));
+    const w = x - k;
+    const s = seg.samples;
+    const o = k * 4;
+    return [
+      s[o] + (s[o + 4] - s[o]) * w,
+      s[o + 1] + (s[o + 5] - s[o + 1]) * w,
+      s[o + 2] + (s[o + 6] - s[o + 2]) * w,
+      s[o + 3] + (s[o + 7] - s[o + 3]) * w,
+    ];
+  };
+}
+
+function lastPixelOf(seg: Segment): Pixel {
+  const o = SEGMENT_SAMPLES * 4;
+  const s = seg.samples;
+  return [s[o], s[o + 1], s[o + 2], s[o + 3]];
+}
+
+/**
+ * Map a pixel center to the layer's stop position: percent along the
+ * gradient line or ray for linear and radial layers, degrees for conic.
+ */
+function createGeometry(
+  layer: GradientLayer,
+  width: number,
+  height: number,
+  lengthScale: number
+): (x: number, y: number) => number {
+  const cx = (layer.at.x / 100) * width;
+  const cy = (layer.at.y / 100) * height;
+
+  if (layer.type === "linear") {
+    const rad = (layer.from * Math.PI) / 180;
+    const dx = Math.sin(rad);
+    const dy = -Math.cos(rad);
+    const length = Math.abs(width * dx) + Math.abs(height * dy) || 1;
+    return (x, y) =>
+      (((x - width / 2) * dx + (y - height / 2) * dy) / length + 0.5) * 100;
+  }
+
+  if (layer.type === "radial") {
+    const scaled =
+      layer.size?.kind === "length"
+        ? {
+            ...layer,
+            size: {
+              ...layer.size,
+              x: layer.size.x * lengthScale,
+              y: layer.size.y * lengthScale,
+            },
+          }
+        : layer;
+    const radii = radialRadii(scaled, width, height);
+    const rx = Math.max(radii.x, 1e-6);
+    const ry = Math.max(radii.y, 1e-6);
+    return (x, y) => Math.hypot((x - cx) / rx, (y - cy) / ry) * 100;
+  }
+
+  // Conic: 0deg points up and angles grow clockwise
+  return (x, y) => {
+    const angle = (Math.atan2(x - cx, cy - y) * 180) / Math.PI - layer.from;
+    return ((angle % 360) + 360) % 360;
+  };
+}
+
+// Separable blend functions on straight 0-1 channels (Compositing Level 1)
+function blendChannel(mode: BlendMode, cb: number, cs: number): number {
+  switch (mode) {
+    case "multiply":
+      return cb * cs;
+    case "screen":
+      return cb + cs - cb * cs;
+    case "overlay":
+      return blendChannel("hard-light", cs, cb);
+    case "darken":
+      return Math.min(cb, cs);
+    case "lighten":
+      return Math.max(cb, cs);
+    case "color-dodge":
+      if (cb === 0) return 0;
+      return cs >= 1 ? 1 : Math.min(1, cb / (1 - cs));
+    case "color-burn":
+      if (cb === 1) return 1;
+      return cs <= 0 ? 0 : 1 - Math.min(1, (1 - cb) / cs);
+    case "hard-light":
+      return cs <= 0.5 ? cb * 2 * cs : blendChannel("screen", cb, 2 * cs - 1);
+    case "soft-light": {
+      if (cs <= 0.5) return cb - (1 - 2 * cs) * cb * (1 - cb);
+      const d = cb <= 0.25 ? ((16 * cb - 12) * cb + 4) * cb : Math.sqrt(cb);
+      return cb + (2 * cs - 1) * (d - cb);
+    }
+    case "difference":
+      return Math.abs(cb - cs);
+    case "exclusion":
+      return cb + cs - 2 * cb * cs;
+    default:
+      return cs;
+  }
+}
+
+const lum = (c: Vec3) => 0.3 * c[0] + 0.59 * c[1] + 0.11 * c[2];
+
+function clipColor(c: Vec3): Vec3 {
+  const l = lum(c);
+  const n = Math.min(...c);
+  const x = Math.max(...c);
+  return c.map((v) => {
+    if (n < 0) v = l + ((v - l) * l) / (l - n);
+    if (x > 1) v = l + ((v - l) * (1 - l)) / (x - l);
+    return v;
+  }) as Vec3;
+}
+
+function setLum(c: Vec3, l: number): Vec3 {
+  const d = l - lum(c);
+  return clipColor([c[0] + d, c[1] + d, c[2] + d]);
+}
+
+const sat = (c: Vec3) => Math.max(...c) - Math.min(...c);
+
+function setSat(c: Vec3, s: number): Vec3 {
+  const max = Math.max(...c);
+  const min = Math.min(...c);
+  if (max === min) return [0, 0, 0];
+  return c.map((v) => ((v - min) * s) / (max - min)) as Vec3;
+}
+
+function blendColor(mode: BlendMode, cb: Vec3, cs: Vec3): Vec3 {
+  switch (mode) {
+    case "hue":
+      return setLum(setSat(cs, sat(cb)), lum(cb));
+    case "saturation":
+      return setLum(setSat(cb, sat(cs)), lum(cb));
+    case "color":
+      return setLum(cs, lum(cb));
+    case "luminosity":
+      return setLum(cb, lum(cs));
+    default:
+      return [
+        blendChannel(mode, cb[0], cs[0]),
+        blendChannel(mode, cb[1], cs[1]),
+        blendChannel(mode, cb[2], cs[2]),
+      ];
+  }
+}
+
+// 8x8 Bayer matrix, used as thresholds in (0, 1)
+const BAYER_8 = [
+  0, 32, 8, 40, 2, 34, 10, 42, 48, 16, 56, 24, 50, 18, 58, 26, 12, 44, 4, 36,
+  14, 46, 6, 38, 60, 28, 52, 20, 62, 30, 54, 22, 3, 35, 11, 43, 1, 33, 9, 41,
+  51, 19, 59, 27, 49, 17, 57, 25, 15, 47, 7, 39, 13, 45, 5, 37, 63, 31, 55, 23,
+  61, 29, 53, 21,
+].map((v) => (v + 0.5) / 64);
+
+/**
+ * Render the enabled layers, composited like stacked CSS backgrounds (the
+ * first layer on top) with each layer's blend mode.
+ */
+export function rasterizeLayers(
+  layers: GradientLayer[],
+  width: number,
+  height: number,
+  options: RasterOptions = {}
+): RasterImage {
+  const lengthScale = options.lengthScale ?? 1;
+  const enabled = layers
+    .filter((L) => L.enabled && L.stops.length > 0)
+    .reverse();
+  const renderers = enabled.map((layer) => ({
+    mode: layer.blendMode ?? "normal",
+    geometry: createGeometry(layer, width, height, lengthScale),
+    sample: createStopSampler(layer),
+  }));
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  const out: Pixel = [0, 0, 0, 0];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Premultiplied backdrop, starting from a transparent canvas
+      let br = 0;
+      let bg = 0;
+      let bb = 0;
+      let ba = 0;
+
+      for (const layer of renderers) {
+        const [sr, sg, sb, sa] = layer.sample(layer.geometry(x + 0.5, y + 0.5));
+        if (layer.mode === "normal" || ba === 0 || sa === 0) {
+          br = sr + br * (1 - sa);
+          bg = sg + bg * (1 - sa);
+          bb = sb + bb * (1 - sa);
+        } else {
+          const mixed = blendColor(
+            layer.mode,
+            [br / ba, bg / ba, bb / ba],
+            [sr / sa, sg / sa, sb / sa]
+          );
+          br = sr * (1 - ba) + br * (1 - sa) + sa * ba * mixed[0];
+          bg = sg * (1 - ba) + bg * (1 - sa) + sa * ba * mixed[1];
+          bb = sb * (1 - ba) + bb * (1 - sa) + sa * ba * mixed[2];
+        }
+        ba = sa + ba * (1 - sa);
+      }
+
+      out[0] = ba > 0 ? br / ba : 0;
+      out[1] = ba > 0 ? bg / ba : 0;
+      out[2] = ba > 0 ? bb / ba : 0;
+      out[3] = ba;
+
+      const i = (y * width + x) * 4;
+      const offset = options.dither ? BAYER_8[(y % 8) * 8 + (x % 8)] - 0.5 : 0;
+      for (let c = 0; c < 4; c++) {
+        data[i + c] = Math.round(clamp01(out[c]) * 255 + offset);
+      }
+    }
+  }
+
+  return { width, height, data };
+}
@@ -0,0 +1,492 @@
+import { BlendMode, GradientLayer } from "./gradient";
+import { resolveStops } from "./raster";
+import { RampStop, rampStops } from "./stopRamp";
+
+// Fragment shader export of the layer stack, in GLSL ES 1.00 (WebGL,
+// three.js ShaderMaterial) and WGSL (WebGPU). Geometry is evaluated from the
+// resolution uniform like CSS evaluates it for the box; each layer's stops
+// are resampled over one period (see stopRamp.ts) so hints, color spaces
+// and opacity survive plain interpolation; compositing and blend modes
+// follow the rasterizer. Explicit radial radii scale with the canvas width
+// relative to the preview, like image export.
+
+export type ShaderLanguage = "glsl" | "wgsl";
+
+export const SHADER_LANGUAGES: { value: ShaderLanguage; label: string }[] = [
+  { value: "glsl", label: "GLSL (WebGL)" },
+  { value: "wgsl", label: "WGSL (WebGPU)" },
+];
+
+type ValueType = "f" | "v2" | "v3" | "v4";
+
+interface Dialect {
+  types: Record<ValueType, string>;
+  resolution: string;
+  atan2: string;
+  fn: (name: string, params: [string, ValueType][], ret: ValueType) => string;
+  let: (name: string, type: ValueType, expr: string) => string;
+  var: (name: string, type: ValueType, expr: string) => string;
+}
+
+const GLSL: Dialect = {
+  types: { f: "float", v2: "vec2", v3: "vec3", v4: "vec4" },
+  resolution: "u_resolution",
+  atan2: "atan",
+  fn: (name, params, ret) =>
+    `${GLSL.types[ret]} ${name}(${params.map(([n, t]) => `${GLSL.types[t]} ${n}`).join(", ")}) {`,
+  let: (name, type, expr) => `${GLSL.types[type]} ${name} = ${expr};`,
+  var: (name, type, expr) => `${GLSL.types[type]} ${name} = ${expr};`,
+};
+
+const WGSL: Dialect = {
+  types: { f: "f32", v2: "vec2f", v3: "vec3f", v4: "vec4f" },
+  resolution: "resolution",
+  atan2: "atan2",
+  fn: (name, params, ret) =>
+    `fn ${name}(${params.map(([n, t]) => `${n}: ${WGSL.types[t]}`).join(", ")}) -> ${WGSL.types[ret]} {`,
+  let: (name, _type, expr) => `let ${name} = ${expr};`,
+  var: (name, _type, expr) => `var ${name} = ${expr};`,
+};
+
+// Float literal both languages accept, e.g. "1.0" rather than "1"
+function lit(n: number, digits = 6): string {
+  const s = Number(n.toFixed(digits)).toString();
+  return /[.e]/.test(s) ? s : `${s}.0`;
+}
+
+function indent(lines: string[], depth = 2): string[] {
+  return lines.map((line) => (line ? " ".repeat(depth) + line : line));
+}
+
+/**
+ * Piecewise-linear lookup of straight-alpha colors over u in 0-1; hard
+ * stops come out as zero-length segments, which are skipped.
+ */
+function rampFunction(d: Dialect, name: string, stops: RampStop[]): string[] {
+  const color = ({ color: c }: RampStop) =>
+    `${d.types.v4}(${[c.r / 255, c.g / 255, c.b / 255, c.a].map((v) => lit(v, 4)).join(", ")})`;
+  const body: string[] = [];
+  for (let i = 0; i < stops.length - 1; i++) {
+    const o0 = stops[i].offset;
+    const o1 = stops[i + 1].offset;
+    if (o1 - o0 < 1e-6) continue;
+    body.push(
+      `if (u < ${lit(o1)}) { return mix(${color(stops[i])}, ${color(stops[i + 1])}, (u - ${lit(o0)}) / ${lit(o1 - o0)}); }`
+    );
+  }
+  body.push(`return ${color(stops[stops.length - 1])};`);
+  return [d.fn(name, [["u", "f"]], "v4"), ...indent(body), "}"];
+}
+
+// Lines computing `t`, the CSS stop position at pixel p (y down)
+function geometryLines(
+  d: Dialect,
+  layer: GradientLayer,
+  previewW: number
+): string[] {
+  const { v2 } = d.types;
+  const res = d.resolution;
+
+  if (layer.type === "linear") {
+    const rad = (layer.from * Math.PI) / 180;
+    return [
+      d.let(
+        "dir",
+        "v2",
+        `${v2}(${lit(Math.sin(rad))}, ${lit(-Math.cos(rad))})`
+      ),
+      d.let("len", "f", `abs(${res}.x * dir.x) + abs(${res}.y * dir.y)`),
+      d.let("t", "f", `(dot(p - ${res} * 0.5, dir) / len + 0.5) * 100.0`),
+    ];
+  }
+
+  const center = d.let(
+    "c",
+    "v2",
+    `${res} * ${v2}(${lit(layer.at.x / 100)}, ${lit(layer.at.y / 100)})`
+  );
+
+  if (layer.type === "radial") {
+    const shape = layer.shape ?? "ellipse";
+    const size = layer.size ?? { kind: "extent", extent: "farthest-corner" };
+    let radii: string[];
+
+    if (size.kind === "length") {
+      const ry = shape === "circle" ? size.x : size.y;
+      radii = [
+        d.let(
+          "radii",
+          "v2",
+          `${v2}(${lit(size.x)}, ${lit(ry)}) * (${res}.x / ${lit(previewW)})`
+        ),
+      ];
+    } else {
+      // Distances to the closest or farthest sides, as in radialRadii()
+      const closest = size.extent.startsWith("closest");
+      const pick = closest ? "min" : "max";
+      let fromSides: string;
+      if (size.extent.endsWith("side")) {
+        fromSides =
+          shape === "circle" ? `${v2}(${pick}(side.x, side.y))` : "side";
+      } else {
+        fromSides =
+          shape === "circle" ? `${v2}(length(side))` : "side * 1.41421356";
+      }
+      radii = [
+        d.let("side", "v2", `${pick}(abs(c), abs(${res} - c))`),
+        d.let("radii", "v2", fromSides),
+      ];
+    }
+
+    return [
+      center,
+      ...radii,
+      d.let("t", "f", `length((p - c) / max(radii, ${v2}(0.000001))) * 100.0`),
+    ];
+  }
+
+  // Conic: 0deg points up and angles grow clockwise
+  return [
+    center,
+    d.let(
+      "a",
+      "f",
+      `degrees(${d.atan2}(p.x - c.x, c.y - p.y)) - ${lit(layer.from)}`
+    ),
+    d.let("t", "f", "a - 360.0 * floor(a / 360.0)"),
+  ];
+}
+
+function layerFunctions(
+  d: Dialect,
+  layer: GradientLayer,
+  index: number,
+  previewW: number
+): string[] {
+  // One period of stops: from the first to the last stop position
+  const positions = resolveStops(layer).map((s) => s.pos);
+  const lo = positions[0];
+  const hi = Math.max(positions[positions.length - 1], lo + 1e-3);
+  const u = `(t - ${lit(lo)}) / ${lit(hi - lo)}`;
+
+  return [
+    ...rampFunction(d, `ramp${index}`, rampStops(layer, lo, hi)),
+    "",
+    d.fn(`layer${index}`, [["p", "v2"]], "v4"),
+    ...indent([
+      ...geometryLines(d, layer, previewW),
+      `return ramp${index}(${layer.repeating ? `fract(${u})` : `clamp(${u}, 0.0, 1.0)`});`,
+    ]),
+    "}",
+  ];
+}
+
+// Blend functions on straight 0-1 colors (Compositing Level 1)
+function blendFunctions(d: Dialect, modes: Set<BlendMode>): string[] {
+  const { v3 } = d.types;
+  const lines: string[] = [];
+  const add = (
+    name: string,
+    params: [string, ValueType][],
+    ret: ValueType,
+    body: string[]
+  ) => lines.push(d.fn(name, params, ret), ...indent(body), "}", "");
+  const channels: [string, ValueType][] = [
+    ["cb", "f"],
+    ["cs", "f"],
+  ];
+  const colors: [string, ValueType][] = [
+    ["cb", "v3"],
+    ["cs", "v3"],
+  ];
+  const perChannel = (fn: string, a = "cb", b = "cs") =>
+    `return ${v3}(${fn}(${a}.x, ${b}.x), ${fn}(${a}.y, ${b}.y), ${fn}(${a}.z, ${b}.z));`;
+
+  if (modes.has("hard-light") || modes.has("overlay")) {
+    add("hardLight", channels, "f", [
+      "if (cs <= 0.5) { return cb * 2.0 * cs; }",
+      d.let("s", "f", "2.0 * cs - 1.0"),
+      "return cb + s - cb * s;",
+    ]);
+  }
+  if (modes.has("color-dodge")) {
+    add("colorDodge", channels, "f", [
+      "if (cb <= 0.0) { return 0.0; }",
+      "if (cs >= 1.0) { return 1.0; }",
+      "return min(1.0, cb / (1.0 - cs));",
+    ]);
+  }
+  if (modes.has("color-burn")) {
+    add("colorBurn", channels, "f", [
+      "if (cb >= 1.0) { return 1.0; }",
+      "if (cs <= 0.0) { return 0.0; }",
+      "return 1.0 - min(1.0, (1.0 - cb) / cs);",
+    ]);
+  }
+  if (modes.has("soft-light")) {
+    add("softLight", channels, "f", [
+      "if (cs <= 0.5) { return cb - (1.0 - 2.0 * cs) * cb * (1.0 - cb); }",
+      d.var("d", "f", "sqrt(cb)"),
+      "if (cb <= 0.25) { d = ((16.0 * cb - 12.0) * cb + 4.0) * cb; }",
+      "return cb + (2.0 * cs - 1.0) * (d - cb);",
+    ]);
+  }
+
+  const nonSeparable = ["hue", "saturation", "color", "luminosity"].some((m) =>
+    modes.has(m as BlendMode)
+  );
+  if (nonSeparable) {
+    add("lum", [["c", "v3"]], "f", [`return dot(c, ${v3}(0.3, 0.59, 0.11));`]);
+    add("clipColor", [["c", "v3"]], "v3", [
+      d.let("l", "f", "lum(c)"),
+      d.let("n", "f", "min(min(c.x, c.y), c.z)"),
+      d.let("x", "f", "max(max(c.x, c.y), c.z)"),
+      d.var("r", "v3", "c"),
+      "if (n < 0.0) { r = l + (r - l) * l / (l - n); }",
+      "if (x > 1.0) { r = l + (r - l) * (1.0 - l) / (x - l); }",
+      "return r;",
+    ]);
+    add(
+      "setLum",
+      [
+        ["c", "v3"],
+        ["l", "f"],
+      ],
+      "v3",
+      ["return clipColor(c + (l - lum(c)));"]
+    );
+    add("sat", [["c", "v3"]], "f", [
+      "return max(max(c.x, c.y), c.z) - min(min(c.x, c.y), c.z);",
+    ]);
+    add(
+      "setSat",
+      [
+        ["c", "v3"],
+        ["s", "f"],
+      ],
+      "v3",
+      [
+        d.let("n", "f", "min(min(c.x, c.y), c.z)"),
+        d.let("x", "f", "max(max(c.x, c.y), c.z)"),
+        `if (x <= n) { return ${v3}(0.0); }`,
+        "return (c - n) * s / (x - n);",
+      ]
+    );
+  }
+
+  const bodies: Partial<Record<BlendMode, string>> = {
+    multiply: "return cb * cs;",
+    screen: "return cb + cs - cb * cs;",
+    overlay: perChannel("hardLight", "cs", "cb"),
+    darken: "return min(cb, cs);",
+    lighten: "return max(cb, cs);",
+    "color-dodge": perChannel("colorDodge"),
+    "color-burn": perChannel("colorBurn"),
+    "hard-light": perChannel("hardLight"),
+    "soft-light": perChannel("softLight"),
+    difference: "return abs(cb - cs);",
+    exclusion: "return cb + cs - 2.0 * cb * cs;",
+    hue: "return setLum(setSat(cs, sat(cb)), lum(cb));",
+    saturation: "return setLum(setSat(cb, sat(cs)), lum(cb));",
+    color: "return setLum(cs, lum(cb));",
+    luminosity: "return setLum(cb, lum(cs));",
+  };
+  for (const mode of modes) {
+    const body = bodies[mode];
+    if (body) add(blendName(mode), colors, "v3", [body]);
+  }
+  return lines;
+}
+
+// "color-dodge" -> "blendColorDodge"
+function blendName(mode: BlendMode): string {
+  return (
+    "blend" +
+    mode.replace(/(^|-)(\w)/g, (_, _dash: string, c: string) => c.toUpperCase())
+  );
+}
+
+export function generateShader(
+  language: ShaderLanguage,
+  layers: GradientLayer[],
+  previewW: number
+): string {
+  const d = language === "glsl" ? GLSL : WGSL;
+  const { v3, v4 } = d.types;
+  // Bottom-up, like the rasterizer; layers without stops paint nothing
+  const enabled = layers
+    .filter((L) => L.enabled && L.stops.length > 0)
+    .reverse();
+  const modes = new Set(
+    enabled
+      .map((L) => L.blendMode ?? "normal")
+      .filter((m): m is BlendMode => m !== "normal")
+  );
+
+  const header =
+    language === "glsl"
+      ? ["precision highp float;", "", "uniform vec2 u_resolution;"]
+      : ["@group(0) @binding(0) var<uniform> resolution: vec2f;"];
+
+  const straight = [
+    d.fn("straight", [["c", "v4"]], "v3"),
+    ...indent([
+      `if (c.w <= 0.0) { return ${v3}(0.0); }`,
+      "return c.xyz / c.w;",
+    ]),
+    "}",
+    "",
+  ];
+
+  // Source-over with `mixed` (the blended color) where both layers are
+  // present; for normal blending mixed is the straight source color
+  const composite = [
+    d.fn(
+      "composite",
+      [
+        ["b", "v4"],
+        ["s", "v4"],
+        ["mixed", "v3"],
+      ],
+      "v4"
+    ),
+    ...indent([
+      `return ${v4}(s.xyz * (1.0 - b.w) + b.xyz * (1.0 - s.w) + s.w * b.w * mixed, s.w + b.w * (1.0 - s.w));`,
+    ]),
+    "}",
+    "",
+  ];
+
+  const main: string[] = [
+    // Pixel position with y down, as in CSS
+    language === "glsl"
+      ? d.let(
+          "p",
+          "v2",
+          "vec2(gl_FragCoord.x, u_resolution.y - gl_FragCoord.y)"
+        )
+      : d.let("p", "v2", "position.xy"),
+    d.var("b", "v4", `${v4}(0.0)`),
+  ];
+  enabled.forEach((layer, i) => {
+    const mode = layer.blendMode ?? "normal";
+    main.push(
+      d.let(`c${i}`, "v4", `layer${i}(p)`),
+      d.let(`s${i}`, "v4", `${v4}(c${i}.xyz * c${i}.w, c${i}.w)`),
+      mode === "normal"
+        ? `b = composite(b, s${i}, c${i}.xyz);`
+        : `b = composite(b, s${i}, ${blendName(mode)}(straight(b), c${i}.xyz));`
+    );
+  });
+  main.push(
+    language === "glsl"
+      ? "gl_FragColor = vec4(straight(b), b.w);"
+      : "return vec4f(straight(b), b.w);"
+  );
+
+  const entry =
+    language === "glsl"
+      ? "void main() {"
+      : "@fragment\nfn main(@builtin(position) position: vec4f) -> @location(0) vec4f {";
+
+  return [
+    ...header,
+    "",
+    ...enabled.flatMap((layer, i) => [
+      ...layerFunctions(d, layer, i, previewW),
+      "",
+    ]),
+    ...blendFunctions(d, modes),
+    ...straight,
+    ...composite,
+    entry,
+    ...indent(main),
+    "}",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Standalone HTML page that draws the GLSL shader into a full-window canvas
+ * with plain WebGL, redrawing on resize.
+ */
+export function generateShaderHarness(
+  layers: GradientLayer[],
+  previewW: number
+): string {
+  const shader = generateShader("glsl", layers, previewW);
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>Gradient shader</title>
+    <style>
+      html, body { margin: 0; height: 100%; }
+      canvas { display: block; width: 100%; height: 100%; }
+    </style>
+  </head>
+  <body>
+    <canvas id="gradient"></canvas>
+    <script id="fragment-shader" type="x-shader/x-fragment">
+${shader}    </script>
+    <script>
+      const canvas = document.getElementById("gradient");
+      // The shader writes straight (not premultiplied) alpha
+      const gl = canvas.getContext("webgl", { premultipliedAlpha: false });
+
+      function compile(type, source) {
+        const shader = gl.createShader(type);
+        gl.shaderSource(shader, source);
+        gl.compileShader(shader);
+        if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+          throw new Error(gl.getShaderInfoLog(shader));
+        }
+        return shader;
+      }
+
+      const program = gl.createProgram();
+      gl.attachShader(
+        program,
+        compile(
+          gl.VERTEX_SHADER,
+          "attribute vec2 a_position; void main() { gl_Position = vec4(a_position, 0.0, 1.0); }"
+        )
+      );
+      gl.attachShader(
+        program,
+        compile(
+          gl.FRAGMENT_SHADER,
+          document.getElementById("fragment-shader").textContent
+        )
+      );
+      gl.linkProgram(program);
+      gl.useProgram(program);
+
+      // One triangle covering the whole viewport
+      gl.bindBuffer(gl.ARRAY_BUFFER, gl.createBuffer());
+      gl.bufferData(
+        gl.ARRAY_BUFFER,
+        new Float32Array([-1, -1, 3, -1, -1, 3]),
+        gl.STATIC_DRAW
+      );
+      const position = gl.getAttribLocation(program, "a_position");
+      gl.enableVertexAttribArray(position);
+      gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+      const resolution = gl.getUniformLocation(program, "u_resolution");
+
+      function draw() {
+        const scale = window.devicePixelRatio || 1;
+        canvas.width = Math.round(canvas.clientWidth * scale);
+        canvas.height = Math.round(canvas.clientHeight * scale);
+        gl.viewport(0, 0, canvas.width, canvas.height);
+        gl.uniform2f(resolution, canvas.width, canvas.height);
+        gl.drawArrays(gl.TRIANGLES, 0, 3);
+      }
+
+      window.addEventListener("resize", draw);
+      draw();
+    </script>
+  </body>
+</html>
+`;
+}
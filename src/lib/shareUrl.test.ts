@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { DEFAULT_GENERATOR } from "./generate";
+import { GeneratorSettings } from "./gradient";
+import { validateState } from "./shareUrl";
+
+function withGenerator(generator: Partial<GeneratorSettings>) {
+  return validateState({
+    layers: [
+      {
+        id: 1,
+        type: "linear",
+        from: 90,
+        at: { x: 50, y: 50 },
+        stops: [
+          { color: "#ff0000", pos: 0 },
+          { color: "#0000ff", pos: 100 },
+        ],
+        enabled: true,
+        opacity: 1,
+      },
+    ],
+    previewW: 400,
+    previewH: 300,
+    selectedLayerId: 1,
+    generator: { ...DEFAULT_GENERATOR, ...generator },
+  });
+}
+
+describe("validateState generator settings", () => {
+  it("accepts the generator panel's ranges", () => {
+    const result = withGenerator({
+      layerCount: 8,
+      stopCount: 2,
+      lightness: { min: 0, max: 100 },
+    });
+    assert.ok("state" in result, JSON.stringify(result));
+  });
+
+  it("rejects counts the generator panel can't produce", () => {
+    assert.deepEqual(withGenerator({ layerCount: 1e6 }), {
+      error: "generator.layerCount must be an integer from 1 to 8",
+    });
+    assert.deepEqual(withGenerator({ stopCount: 1 }), {
+      error: "generator.stopCount must be an integer from 2 to 8",
+    });
+  });
+
+  it("rejects lightness outside 0 to 100", () => {
+    assert.deepEqual(withGenerator({ lightness: { min: -20, max: 85 } }), {
+      error: "generator.lightness.min must be between 0 and 100",
+    });
+    assert.deepEqual(withGenerator({ lightness: { min: 35, max: 250 } }), {
+      error: "generator.lightness.max must be between 0 and 100",
+    });
+  });
+});
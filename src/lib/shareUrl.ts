@@ -0,0 +1,407 @@
+import { isStopColor } from "./color";
+import { MAX_GENERATED_LAYERS, MAX_GENERATED_STOPS } from "./generate";
+import {
+  ANIMATABLE_PROPERTIES,
+  AnimationTrack,
+  AppState,
+  BLEND_MODES,
+  EASINGS,
+  GeneratorSettings,
+  GradientAnimation,
+  GradientLayer,
+  GradientStop,
+  HARMONIES,
+  HUE_INTERPOLATIONS,
+  INTERPOLATION_SPACES,
+  RADIAL_EXTENTS,
+  convertStopsForType,
+} from "./gradient";
+
+// Share links carry the editor state in the URL hash as
+// "v<version>.<base64url(deflate-raw(JSON))>". Links from before the
+// versioned format are plain btoa(JSON) and are treated as version 1.
+
+export const SHARE_VERSION = 2;
+
+export type ShareDecodeResult = { state: AppState } | { error: string };
+
+// Each migration upgrades raw data from version N to N + 1. Add one here
+// (and bump SHARE_VERSION) whenever the saved model changes shape.
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  // v1 links stored every stop position in degrees; linear and radial
+  // layers now take percentages. Absent layer fields get their v1 defaults.
+  1: (data) => {
+    if (!isRecord(data) || !Array.isArray(data.layers)) return data;
+    return {
+      ...data,
+      layers: data.layers.map((layer) => {
+        if (!isRecord(layer)) return layer;
+        const upgraded = { enabled: true, opacity: 1, type: "conic", ...layer };
+        const { type } = upgraded;
+        const { stops } = layer;
+        // Anything malformed is left for validation to reject
+        if (
+          (type !== "linear" && type !== "radial") ||
+          !Array.isArray(stops) ||
+          !stops.every((s) => isRecord(s) && typeof s.pos === "number")
+        ) {
+          return upgraded;
+        }
+        return {
+          ...upgraded,
+          stops: convertStopsForType(stops as GradientStop[], "conic", type),
+        };
+      }),
+    };
+  },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Binary <-> base64url without the Latin-1 limits of btoa on strings
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function pipeThrough(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const piped = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+}
+
+/**
+ * Encode editor state for a share link (without the leading "#").
+ */
+export async function encodeShareHash(state: AppState): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(state));
+  const compressed = await pipeThrough(
+    json,
+    new CompressionStream("deflate-raw")
+  );
+  return `v${SHARE_VERSION}.${toBase64Url(compressed)}`;
+}
+
+/**
+ * Decode a share hash into validated editor state, migrating older versions.
+ * Returns null for an empty hash, and an error message for a corrupt one.
+ */
+export async function decodeShareHash(
+  hash: string
+): Promise<ShareDecodeResult | null> {
+  const value = hash.replace(/^#/, "");
+  if (!value) return null;
+
+  const match = /^v(\d+)\.(.*)$/.exec(value);
+  const version = match ? Number(match[1]) : 1;
+  if (version > SHARE_VERSION) {
+    return { error: "The link was made with a newer version of the editor" };
+  }
+
+  let data: unknown;
+  try {
+    if (match) {
+      const json = await pipeThrough(
+        fromBase64Url(match[2]),
+        new DecompressionStream("deflate-raw")
+      );
+      data = JSON.parse(new TextDecoder().decode(json));
+    } else {
+      data = JSON.parse(atob(decodeURIComponent(value)));
+    }
+  } catch {
+    return { error: "The link data is truncated or corrupt" };
+  }
+
+  return restoreState(data, version);
+}
+
+/**
+ * Bring state saved at an older schema version up to date and validate it.
+ * Used for share links and for anything else persisted with a version.
+ */
+export function restoreState(
+  data: unknown,
+  version: number
+): ShareDecodeResult {
+  if (version > SHARE_VERSION) {
+    return { error: "The data was saved by a newer version of the editor" };
+  }
+  for (let v = version; v < SHARE_VERSION; v++) {
+    data = MIGRATIONS[v]?.(data) ?? data;
+  }
+  return validateState(data);
+}
+
+// Thrown while validating, with the path of the offending value
+class SchemaError extends Error {}
+
+function expect(ok: boolean, path: string, what: string) {
+  if (!ok) throw new SchemaError(`${path} must be ${what}`);
+}
+
+function finite(value: unknown, path: string): number {
+  expect(typeof value === "number" && Number.isFinite(value), path, "a number");
+  return value as number;
+}
+
+function oneOf<T extends string>(
+  value: unknown,
+  options: readonly T[],
+  path: string
+): T {
+  expect(options.includes(value as T), path, `one of ${options.join(", ")}`);
+  return value as T;
+}
+
+function validateStop(raw: unknown, path: string): GradientStop {
+  expect(isRecord(raw), path, "an object");
+  const s = raw as Record<string, unknown>;
+  expect(
+    typeof s.color === "string" && isStopColor(s.color),
+    `${path}.color`,
+    "a color"
+  );
+
+  return {
+    color: s.color as string,
+    pos: finite(s.pos, `${path}.pos`),
+    ...(s.pos2 != null && { pos2: finite(s.pos2, `${path}.pos2`) }),
+    ...(s.hint != null && { hint: finite(s.hint, `${path}.hint`) }),
+  };
+}
+
+function validateLayer(raw: unknown, path: string): GradientLayer {
+  expect(isRecord(raw), path, "an object");
+  const L = raw as Record<string, unknown>;
+
+  expect(isRecord(L.at), `${path}.at`, "an object");
+  const at = L.at as Record<string, unknown>;
+  expect(
+    Array.isArray(L.stops) && L.stops.length > 0,
+    `${path}.stops`,
+    "a non-empty list"
+  );
+
+  const layer: GradientLayer = {
+    id: finite(L.id, `${path}.id`),
+    type: oneOf(L.type, ["conic", "linear", "radial"] as const, `${path}.type`),
+    from: finite(L.from, `${path}.from`),
+    at: { x: finite(at.x, `${path}.at.x`), y: finite(at.y, `${path}.at.y`) },
+    stops: (L.stops as unknown[]).map((s, i) =>
+      validateStop(s, `${path}.stops[${i}]`)
+    ),
+    enabled: Boolean(L.enabled),
+    opacity: Math.max(0, Math.min(1, finite(L.opacity, `${path}.opacity`))),
+  };
+
+  if (L.shape != null) {
+    layer.shape = oneOf(
+      L.shape,
+      ["circle", "ellipse"] as const,
+      `${path}.shape`
+    );
+  }
+  if (L.size != null) {
+    expect(isRecord(L.size), `${path}.size`, "an object");
+    const size = L.size as Record<string, unknown>;
+    layer.size =
+      size.kind === "length"
+        ? {
+            kind: "length",
+            x: finite(size.x, `${path}.size.x`),
+            y: finite(size.y, `${path}.size.y`),
+          }
+        : {
+            kind: "extent",
+            extent: oneOf(size.extent, RADIAL_EXTENTS, `${path}.size.extent`),
+          };
+  }
+  if (L.repeating) layer.repeating = true;
+  if (L.colorSpace != null) {
+    layer.colorSpace = oneOf(
+      L.colorSpace,
+      INTERPOLATION_SPACES,
+      `${path}.colorSpace`
+    );
+  }
+  if (L.hueInterpolation != null) {
+    layer.hueInterpolation = oneOf(
+      L.hueInterpolation,
+      HUE_INTERPOLATIONS,
+      `${path}.hueInterpolation`
+    );
+  }
+  if (L.blendMode != null) {
+    layer.blendMode = oneOf(L.blendMode, BLEND_MODES, `${path}.blendMode`);
+  }
+  if (typeof L.name === "string" && L.name.trim() !== "") {
+    layer.name = L.name;
+  }
+  if (L.locked) layer.locked = true;
+  return layer;
+}
+
+function validateTrack(raw: unknown, path: string): AnimationTrack {
+  expect(isRecord(raw), path, "an object");
+  const t = raw as Record<string, unknown>;
+  const property = oneOf(t.property, ANIMATABLE_PROPERTIES, `${path}.property`);
+  const isColor = property === "color";
+  expect(Array.isArray(t.keyframes), `${path}.keyframes`, "a list");
+
+  const keyframes = (t.keyframes as unknown[]).map((entry, i) => {
+    const kPath = `${path}.keyframes[${i}]`;
+    expect(isRecord(entry), kPath, "an object");
+    const k = entry as Record<string, unknown>;
+    if (isColor) {
+      expect(
+        typeof k.value === "string" && isStopColor(k.value),
+        `${kPath}.value`,
+        "a color"
+      );
+    }
+    return {
+      offset: Math.max(0, Math.min(100, finite(k.offset, `${kPath}.offset`))),
+      value: isColor ? (k.value as string) : finite(k.value, `${kPath}.value`),
+      easing: oneOf(k.easing, EASINGS, `${kPath}.easing`),
+    };
+  });
+
+  return {
+    id: finite(t.id, `${path}.id`),
+    layerId: finite(t.layerId, `${path}.layerId`),
+    ...(t.stopIndex != null && {
+      stopIndex: finite(t.stopIndex, `${path}.stopIndex`),
+    }),
+    property,
+    keyframes: keyframes.sort((a, b) => a.offset - b.offset),
+  };
+}
+
+function validateAnimation(raw: unknown, path: string): GradientAnimation {
+  expect(isRecord(raw), path, "an object");
+  const a = raw as Record<string, unknown>;
+  const duration = finite(a.duration, `${path}.duration`);
+  expect(duration > 0, `${path}.duration`, "positive");
+  expect(Array.isArray(a.tracks), `${path}.tracks`, "a list");
+
+  return {
+    duration,
+    direction: oneOf(
+      a.direction,
+      ["normal", "alternate"] as const,
+      `${path}.direction`
+    ),
+    tracks: (a.tracks as unknown[]).map((t, i) =>
+      validateTrack(t, `${path}.tracks[${i}]`)
+    ),
+  };
+}
+
+function validateGenerator(raw: unknown, path: string): GeneratorSettings {
+  expect(isRecord(raw), path, "an object");
+  const g = raw as Record<string, unknown>;
+  expect(isRecord(g.lightness), `${path}.lightness`, "an object");
+  const lightness = g.lightness as Record<string, unknown>;
+  expect(Array.isArray(g.types), `${path}.types`, "a list");
+  // The same bounds the generator panel enforces, so a link can't ask for
+  // an unbounded stack
+  const count = (
+    value: unknown,
+    countPath: string,
+    min: number,
+    max: number
+  ) => {
+    const n = finite(value, countPath);
+    expect(
+      Number.isInteger(n) && n >= min && n <= max,
+      countPath,
+      `an integer from ${min} to ${max}`
+    );
+    return n;
+  };
+  const percent = (value: unknown, percentPath: string) => {
+    const n = finite(value, percentPath);
+    expect(n >= 0 && n <= 100, percentPath, "between 0 and 100");
+    return n;
+  };
+
+  return {
+    seed: finite(g.seed, `${path}.seed`),
+    harmony: oneOf(g.harmony, HARMONIES, `${path}.harmony`),
+    layerCount: count(
+      g.layerCount,
+      `${path}.layerCount`,
+      1,
+      MAX_GENERATED_LAYERS
+    ),
+    stopCount: count(g.stopCount, `${path}.stopCount`, 2, MAX_GENERATED_STOPS),
+    lightness: {
+      min: percent(lightness.min, `${path}.lightness.min`),
+      max: percent(lightness.max, `${path}.lightness.max`),
+    },
+    types: (g.types as unknown[]).map((t, i) =>
+      oneOf(t, ["conic", "linear", "radial"] as const, `${path}.types[${i}]`)
+    ),
+  };
+}
+
+/**
+ * Check untrusted data against the AppState schema, keeping only known
+ * fields. A missing or dangling selection falls back to the first layer.
+ */
+export function validateState(data: unknown): ShareDecodeResult {
+  try {
+    expect(isRecord(data), "state", "an object");
+    const d = data as Record<string, unknown>;
+    expect(
+      Array.isArray(d.layers) && d.layers.length > 0,
+      "layers",
+      "a non-empty list"
+    );
+
+    const layers = (d.layers as unknown[]).map((L, i) =>
+      validateLayer(L, `layers[${i}]`)
+    );
+    expect(
+      new Set(layers.map((L) => L.id)).size === layers.length,
+      "layer ids",
+      "unique"
+    );
+    const previewW = finite(d.previewW, "previewW");
+    const previewH = finite(d.previewH, "previewH");
+    expect(previewW >= 1 && previewH >= 1, "preview size", "at least 1px");
+
+    const selectedLayerId = layers.some((L) => L.id === d.selectedLayerId)
+      ? (d.selectedLayerId as number)
+      : layers[0].id;
+
+    const state: AppState = { layers, previewW, previewH, selectedLayerId };
+    if (d.animation != null) {
+      state.animation = validateAnimation(d.animation, "animation");
+    }
+    if (d.generator != null) {
+      state.generator = validateGenerator(d.generator, "generator");
+    }
+    return { state };
+  } catch (e) {
+    if (e instanceof SchemaError) return { error: e.message };
+    throw e;
+  }
+}
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { hueShiftStops, reverseStops, wrapStops } from "./stopOps";
+
+describe("wrapStops", () => {
+  it("drops stops past the closing point so the list stays sorted", () => {
+    const { stops, removed } = wrapStops(
+      [
+        { color: "red", pos: 0 },
+        { color: "blue", pos: 370 },
+        { color: "lime", pos: 380 },
+      ],
+      360
+    );
+    assert.deepEqual(stops, [
+      { color: "red", pos: 0 },
+      { color: "red", pos: 360 },
+    ]);
+    assert.equal(removed, 2);
+  });
+
+  it("recolors a stop already at the closing point", () => {
+    const { stops, removed } = wrapStops(
+      [
+        { color: "red", pos: 10 },
+        { color: "blue", pos: 50, hint: 60 },
+        { color: "lime", pos: 110 },
+      ],
+      100
+    );
+    assert.deepEqual(stops, [
+      { color: "red", pos: 10 },
+      { color: "blue", pos: 50, hint: 60 },
+      { color: "red", pos: 110 },
+    ]);
+    assert.equal(removed, 0);
+  });
+
+  it("cuts split stops short at the closing point", () => {
+    const { stops } = wrapStops(
+      [
+        { color: "red", pos: 0 },
+        { color: "blue", pos: 80, pos2: 120 },
+      ],
+      100
+    );
+    assert.deepEqual(stops, [
+      { color: "red", pos: 0 },
+      { color: "blue", pos: 80, pos2: 100 },
+      { color: "red", pos: 100 },
+    ]);
+  });
+});
+
+describe("reverseStops", () => {
+  it("drops the hints of the reversed stops", () => {
+    const stops = reverseStops(
+      [
+        { color: "red", pos: 0, hint: 20 },
+        { color: "blue", pos: 50 },
+        { color: "lime", pos: 100 },
+      ],
+      [0, 1, 2]
+    );
+    assert.deepEqual(
+      stops.map((s) => [s.color, s.hint]),
+      [
+        ["lime", undefined],
+        ["blue", undefined],
+        ["red", undefined],
+      ]
+    );
+  });
+});
+
+describe("hueShiftStops", () => {
+  const shift = (color: string) =>
+    hueShiftStops([{ color, pos: 0 }], [0], 120)[0].color;
+
+  it("keeps space-separated rgb() syntax", () => {
+    assert.match(shift("rgb(255 0 0 / 50%)"), /^rgb\(\d+ \d+ \d+ \/ 0\.5\)$/);
+    assert.match(shift("rgb(255 0 0)"), /^rgb\(\d+ \d+ \d+\)$/);
+  });
+
+  it("keeps comma-separated rgb() syntax", () => {
+    assert.match(
+      shift("rgba(255, 0, 0, 0.5)"),
+      /^rgba\(\d+, \d+, \d+, 0\.5\)$/
+    );
+    assert.match(shift("#ff0000"), /^#[0-9a-f]{6}$/);
+  });
+});
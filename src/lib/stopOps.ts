@@ -0,0 +1,209 @@
+import {
+  Rgba,
+  colorFormat,
+  formatColor,
+  fromPolar,
+  oklabToRgb,
+  parseColor,
+  rgbToOklab,
+  toPolar,
+} from "./color";
+import { GradientStop } from "./gradient";
+
+// Bulk edits on a layer's stops. Each takes the indices of the stops to
+// work on (every stop, or a multi-selected subset) and returns a new list.
+// Positions are in the layer's own unit, % or deg.
+
+const round = (n: number) => Number(n.toFixed(2));
+
+// Indices ordered by stop position, so "first" and "last" follow the bar
+function byPosition(stops: GradientStop[], indices: number[]): number[] {
+  return [...indices].sort((a, b) => stops[a].pos - stops[b].pos);
+}
+
+function span(stops: GradientStop[], indices: number[]) {
+  const positions = indices.flatMap((i) =>
+    stops[i].pos2 != null ? [stops[i].pos, stops[i].pos2] : [stops[i].pos]
+  );
+  return { lo: Math.min(...positions), hi: Math.max(...positions) };
+}
+
+// Hand the colors of the stops back in the opposite order; positions stay.
+// Their hints are dropped, since they shaped the transitions in the old order.
+export function reverseStops(
+  stops: GradientStop[],
+  indices: number[]
+): GradientStop[] {
+  const ordered = byPosition(stops, indices);
+  const colors = ordered.map((i) => stops[i].color).reverse();
+  const next = [...stops];
+  ordered.forEach((i, k) => {
+    next[i] = { ...stops[i], color: colors[k], hint: undefined };
+  });
+  return next;
+}
+
+/**
+ * Space the stops evenly from `from` to `to`, in their current order. Split
+ * stops keep their width; hints between moved stops are dropped since they
+ * would no longer sit between their stops.
+ */
+export function distributeStops(
+  stops: GradientStop[],
+  indices: number[],
+  from: number,
+  to: number
+): GradientStop[] {
+  const ordered = byPosition(stops, indices);
+  const step = ordered.length > 1 ? (to - from) / (ordered.length - 1) : 0;
+  const next = [...stops];
+  ordered.forEach((i, k) => {
+    const { pos2, ...stop } = stops[i];
+    const pos = round(from + k * step);
+    next[i] = {
+      ...stop,
+      pos,
+      ...(pos2 != null && { pos2: round(pos + pos2 - stop.pos) }),
+      hint: undefined,
+    };
+  });
+  return next;
+}
+
+/**
+ * Squeeze the stops into the first half of their span and repeat them
+ * backwards in the second half, e.g. A B C over 0-360 becomes
+ * A B C B A, for a sweep with no hard edge where it wraps.
+ */
+export function mirrorStops(
+  stops: GradientStop[],
+  indices: number[],
+  bounds = span(stops, indices)
+): GradientStop[] {
+  const { lo, hi } = bounds;
+  const ordered = byPosition(stops, indices);
+  const half = (p: number) => round(lo + (p - lo) / 2);
+  const mirrored = (p: number) => round(hi - (p - lo) / 2);
+
+  const firstHalf = ordered.map((i) => {
+    const s = stops[i];
+    return {
+      ...s,
+      pos: half(s.pos),
+      ...(s.pos2 != null && { pos2: half(s.pos2) }),
+      ...(s.hint != null && { hint: half(s.hint) }),
+    };
+  });
+  // The stop at the middle isn't repeated
+  const end = (i: number) => stops[i].pos2 ?? stops[i].pos;
+  const secondHalf = ordered
+    .filter((i) => mirrored(end(i)) !== half(end(i)))
+    .reverse()
+    .map((i) => {
+      const s = stops[i];
+      return {
+        color: s.color,
+        pos: mirrored(end(i)),
+        ...(s.pos2 != null && { pos2: mirrored(s.pos) }),
+      };
+    });
+
+  const untouched = stops.filter((_, i) => !indices.includes(i));
+  return [...untouched, ...firstHalf, ...secondHalf].sort(
+    (a, b) => a.pos - b.pos
+  );
+}
+
+// Move positions (and hints) of the stops by `delta`
+export function offsetStops(
+  stops: GradientStop[],
+  indices: number[],
+  delta: number
+): GradientStop[] {
+  return stops.map((s, i) =>
+    indices.includes(i)
+      ? {
+          ...s,
+          pos: round(s.pos + delta),
+          ...(s.pos2 != null && { pos2: round(s.pos2 + delta) }),
+          ...(s.hint != null && { hint: round(s.hint + delta) }),
+        }
+      : s
+  );
+}
+
+// Put all stops in position order; hints that no longer fall between their
+// stop and the next one are dropped
+export function sortStops(stops: GradientStop[]): GradientStop[] {
+  const sorted = [...stops].sort((a, b) => a.pos - b.pos);
+  return sorted.map((s, i) => {
+    const next = sorted[i + 1];
+    const valid =
+      s.hint != null &&
+      next != null &&
+      s.hint >= (s.pos2 ?? s.pos) &&
+      s.hint <= next.pos;
+    return s.hint == null || valid ? s : { ...s, hint: undefined };
+  });
+}
+
+/**
+ * Make the last stop repeat the first one a full `range` later, so the
+ * gradient closes seamlessly (a conic sweep, or a repeating gradient's
+ * period). Stops past that point are removed, and split stops reaching
+ * past it are cut short, so the list stays in order; `removed` counts the
+ * stops that were dropped. A stop already at the closing point is
+ * recolored, otherwise one is added.
+ */
+export function wrapStops(
+  stops: GradientStop[],
+  range: number
+): { stops: GradientStop[]; removed: number } {
+  const sorted = sortStops(stops);
+  const first = sorted[0];
+  const end = round(first.pos + range);
+  const kept = sorted
+    .filter((s) => s.pos < end)
+    .map((s) => (s.pos2 != null && s.pos2 > end ? { ...s, pos2: end } : s));
+  return {
+    // Sorting again drops hints that pointed at a removed stop
+    stops: sortStops([...kept, { color: first.color, pos: end }]),
+    // A stop already at the closing point becomes the closing stop
+    removed:
+      sorted.length - kept.length - (sorted.some((s) => s.pos === end) ? 1 : 0),
+  };
+}
+
+// formatColor writes rgb() in the legacy comma syntax; a stop written in
+// the space-separated one keeps it
+function formatLike(c: Rgba, color: string): string {
+  const format = colorFormat(color) ?? "hex";
+  if (format !== "rgb" || color.includes(",")) return formatColor(c, format);
+  const [r, g, b] = [c.r, c.g, c.b].map((v) =>
+    Math.max(0, Math.min(255, Math.round(v)))
+  );
+  const a = Number(c.a.toFixed(3));
+  return `rgb(${r} ${g} ${b}${a < 1 ? ` / ${a}` : ""})`;
+}
+
+// Rotate the hue of the stops' colors by `degrees` in OKLCH, keeping their
+// lightness, chroma, alpha and notation (hex, rgb() with or without commas,
+// hsl() and the other functions, which are written space-separated).
+// Colors that can't be parsed (var() and friends) are left alone.
+export function hueShiftStops(
+  stops: GradientStop[],
+  indices: number[],
+  degrees: number
+): GradientStop[] {
+  return stops.map((s, i) => {
+    if (!indices.includes(i)) return s;
+    const rgba = parseColor(s.color);
+    if (!rgba) return s;
+    const [L, C, h] = toPolar(rgbToOklab(rgba));
+    const shifted = oklabToRgb(
+      fromPolar([L, C, (h + degrees + 360) % 360]),
+      rgba.a
+    );
+    return { ...s, color: formatLike(shifted, s.color) };
+  });
+}
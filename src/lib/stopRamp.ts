@@ -0,0 +1,163 @@
+import { Rgba } from "./color";
+import { GradientLayer } from "./gradient";
+import { Pixel, createStopSampler, resolveStops } from "./raster";
+
+// Resampling of a layer's stops for renderers that only interpolate straight
+// sRGB between stops at 0-1 (SVG, SwiftUI, Compose, Flutter). Stops come
+// from the rasterizer's sampler, so hints, color spaces, premultiplied alpha
+// and repetition are baked in as extra stops.
+
+// Split stop intervals until plain interpolation is within half a step
+const TOLERANCE = 0.5 / 255;
+const MAX_DEPTH = 10;
+// Repeating gradients are unrolled; cap the work for tiny periods
+const MAX_PERIODS = 1000;
+
+export interface Interval {
+  t0: number;
+  t1: number;
+  p0: Pixel;
+  p1: Pixel;
+}
+
+export function pixelError(a: Pixel, b: Pixel): number {
+  return Math.max(
+    Math.abs(a[0] - b[0]),
+    Math.abs(a[1] - b[1]),
+    Math.abs(a[2] - b[2]),
+    Math.abs(a[3] - b[3])
+  );
+}
+
+// Straight-alpha color of a premultiplied pixel; a transparent pixel takes
+// the color of `other`, matching how the stops are written out
+export function straight(p: Pixel, other: Pixel): [number, number, number] {
+  const src = p[3] > 0 ? p : other;
+  const a = src[3] || 1;
+  return [src[0] / a, src[1] / a, src[2] / a];
+}
+
+// What SVG and the native gradient APIs draw between two stops:
+// non-premultiplied sRGB
+function straightMix(p0: Pixel, p1: Pixel, f: number): Pixel {
+  const c0 = straight(p0, p1);
+  const c1 = straight(p1, p0);
+  const a = p0[3] + (p1[3] - p0[3]) * f;
+  return [
+    (c0[0] + (c1[0] - c0[0]) * f) * a,
+    (c0[1] + (c1[1] - c0[1]) * f) * a,
+    (c0[2] + (c1[2] - c0[2]) * f) * a,
+    a,
+  ];
+}
+
+/**
+ * Stop positions (plus the range ends) at which the gradient may change
+ * abruptly, with repeating layers unrolled over [lo, hi].
+ */
+export function breakpoints(
+  layer: GradientLayer,
+  lo: number,
+  hi: number
+): number[] {
+  const positions = resolveStops(layer).map((s) => s.pos);
+  const first = positions[0];
+  const period = positions[positions.length - 1] - first;
+  const points = [lo, hi];
+
+  if (layer.repeating && period > 0 && (hi - lo) / period <= MAX_PERIODS) {
+    const kStart = Math.floor((lo - first) / period) - 1;
+    const kEnd = Math.ceil((hi - first) / period) + 1;
+    for (let k = kStart; k <= kEnd; k++) {
+      positions.forEach((p) => points.push(p + k * period));
+    }
+  } else {
+    points.push(...positions);
+  }
+
+  return Array.from(new Set(points.filter((p) => p >= lo && p <= hi))).sort(
+    (a, b) => a - b
+  );
+}
+
+/**
+ * Cover [lo, hi] with intervals that straight sRGB interpolation reproduces
+ * within TOLERANCE, subdividing where the CSS ramp isn't linear in straight
+ * sRGB.
+ */
+export function rampIntervals(
+  sample: (t: number) => Pixel,
+  points: number[],
+  error: { max: number }
+): Interval[] {
+  const eps = (points[points.length - 1] - points[0]) * 1e-9;
+  const intervals: Interval[] = [];
+
+  const split = (t0: number, t1: number, p0: Pixel, p1: Pixel, depth = 0) => {
+    const checks = [0.25, 0.5, 0.75].map((f) =>
+      pixelError(sample(t0 + (t1 - t0) * f), straightMix(p0, p1, f))
+    );
+    const e = Math.max(...checks);
+    if (e > TOLERANCE && depth < MAX_DEPTH) {
+      const tm = (t0 + t1) / 2;
+      const pm = sample(tm);
+      split(t0, tm, p0, pm, depth + 1);
+      split(tm, t1, pm, p1, depth + 1);
+      return;
+    }
+    error.max = Math.max(error.max, e);
+    intervals.push({ t0, t1, p0, p1 });
+  };
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const t0 = points[i];
+    const t1 = points[i + 1];
+    if (t1 - t0 <= eps) continue;
+    // Right limit at t0 and left limit at t1, so hard stops stay hard
+    split(t0, t1, sample(t0), sample(t1 - eps));
+  }
+  return intervals;
+}
+
+export interface RampStop {
+  // 0-1 along the exported range
+  offset: number;
+  // Straight alpha, layer opacity included
+  color: Rgba;
+}
+
+/**
+ * Stops reproducing the layer over [lo, hi] (deg for conic, % otherwise),
+ * mapped onto offsets 0-1. Hard stops come out as two stops at one offset.
+ */
+export function rampStops(
+  layer: GradientLayer,
+  lo: number,
+  hi: number,
+  error: { max: number } = { max: 0 }
+): RampStop[] {
+  const intervals = rampIntervals(
+    createStopSampler(layer),
+    breakpoints(layer, lo, hi),
+    error
+  );
+  const stops: RampStop[] = [];
+  // Adjacent intervals share their boundary stop (up to the left limit)
+  let last: { t: number; p: Pixel } | null = null;
+  const push = (t: number, p: Pixel, other: Pixel) => {
+    if (last && t - last.t < 1e-6 && pixelError(p, last.p) < TOLERANCE) {
+      return;
+    }
+    last = { t, p };
+    const [r, g, b] = straight(p, other);
+    stops.push({
+      offset: (t - lo) / (hi - lo),
+      color: { r: r * 255, g: g * 255, b: b * 255, a: p[3] },
+    });
+  };
+  for (const { t0, t1, p0, p1 } of intervals) {
+    push(t0, p0, p1);
+    push(t1, p1, p0);
+  }
+  return stops;
+}
@@ -0,0 +1,246 @@
+import { formatColor } from "./color";
+import {
+  GradientLayer,
+  gradientLine,
+  radialRadii,
+  radialReach,
+} from "./gradient";
+import { Pixel, createStopSampler } from "./raster";
+import {
+  Interval,
+  breakpoints,
+  pixelError,
+  rampIntervals,
+  straight,
+} from "./stopRamp";
+
+// SVG export of the layer stack. Stops are resampled (see stopRamp.ts) so
+// hints, color spaces and premultiplied alpha survive SVG's plain sRGB
+// interpolation; conic layers become wedges.
+
+export interface SvgExportOptions {
+  // Wedges per full turn for conic layers; stop angles always get an edge
+  conicSegments?: number;
+}
+
+export interface SvgExport {
+  svg: string;
+  // Largest difference from the CSS rendering found while sampling the
+  // exported gradients, in 8-bit channel steps
+  maxError: number;
+}
+
+export const DEFAULT_CONIC_SEGMENTS = 180;
+
+function round(n: number, digits = 2): string {
+  return Number(n.toFixed(digits)).toString();
+}
+
+function stopElement(offset: number, p: Pixel, other: Pixel): string {
+  const [r, g, b] = straight(p, other);
+  const color = formatColor(
+    { r: r * 255, g: g * 255, b: b * 255, a: 1 },
+    "hex"
+  );
+  const opacity = p[3] < 1 ? ` stop-opacity="${round(p[3], 4)}"` : "";
+  return `<stop offset="${round(offset, 5)}" stop-color="${color}"${opacity}/>`;
+}
+
+// <stop> list for intervals mapped from [lo, hi] onto offsets 0-1
+function stopElements(intervals: Interval[], lo: number, hi: number): string[] {
+  const stops: string[] = [];
+  const offset = (t: number) => (t - lo) / (hi - lo);
+  for (const { t0, t1, p0, p1 } of intervals) {
+    const start = stopElement(offset(t0), p0, p1);
+    if (stops[stops.length - 1] !== start) stops.push(start);
+    stops.push(stopElement(offset(t1), p1, p0));
+  }
+  return stops;
+}
+
+function blendStyle(layer: GradientLayer): string {
+  const mode = layer.blendMode ?? "normal";
+  return mode === "normal" ? "" : ` style="mix-blend-mode:${mode}"`;
+}
+
+function linearLayer(
+  layer: GradientLayer,
+  id: string,
+  width: number,
+  height: number,
+  error: { max: number }
+): { def: string; shape: string } {
+  const { x1, y1, x2, y2 } = gradientLine(layer.from, width, height);
+
+  const intervals = rampIntervals(
+    createStopSampler(layer),
+    breakpoints(layer, 0, 100),
+    error
+  );
+  const def = [
+    `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${round(x1)}" y1="${round(y1)}" x2="${round(x2)}" y2="${round(y2)}">`,
+    ...stopElements(intervals, 0, 100).map((s) => `  ${s}`),
+    `</linearGradient>`,
+  ].join("\n");
+  const shape = `<rect width="${width}" height="${height}" fill="url(#${id})"${blendStyle(layer)}/>`;
+  return { def, shape };
+}
+
+function radialLayer(
+  layer: GradientLayer,
+  id: string,
+  width: number,
+  height: number,
+  error: { max: number }
+): { def: string; shape: string } {
+  const cx = (layer.at.x / 100) * width;
+  const cy = (layer.at.y / 100) * height;
+  const radii = radialRadii(layer, width, height);
+  const rx = Math.max(radii.x, 1e-6);
+  const ry = Math.max(radii.y, 1e-6);
+  const reach = radialReach(layer, width, height);
+
+  const intervals = rampIntervals(
+    createStopSampler(layer),
+    breakpoints(layer, 0, reach),
+    error
+  );
+  // Ellipses are circles of radius rx squashed vertically around the center
+  const transform =
+    rx !== ry
+      ? ` gradientTransform="translate(${round(cx)} ${round(cy)}) scale(1 ${round(ry / rx, 6)}) translate(${round(-cx)} ${round(-cy)})"`
+      : "";
+  const def = [
+    `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${round(cx)}" cy="${round(cy)}" r="${round((rx * reach) / 100)}"${transform}>`,
+    ...stopElements(intervals, 0, reach).map((s) => `  ${s}`),
+    `</radialGradient>`,
+  ].join("\n");
+  const shape = `<rect width="${width}" height="${height}" fill="url(#${id})"${blendStyle(layer)}/>`;
+  return { def, shape };
+}
+
+function conicLayer(
+  layer: GradientLayer,
+  width: number,
+  height: number,
+  segments: number,
+  error: { max: number }
+): { shape: string } {
+  const cx = (layer.at.x / 100) * width;
+  const cy = (layer.at.y / 100) * height;
+  const sample = createStopSampler(layer);
+
+  // Wedge edges: an even split of the turn plus every stop angle
+  const step = 360 / segments;
+  const edges = Array.from(
+    new Set([
+      ...Array.from({ length: segments + 1 }, (_, i) => i * step),
+      ...breakpoints(layer, 0, 360),
+    ])
+  ).sort((a, b) => a - b);
+
+  const reach = Math.max(
+    ...[
+      [0, 0],
+      [width, 0],
+      [0, height],
+      [width, height],
+    ].map(([x, y]) => Math.hypot(x - cx, y - cy))
+  );
+
+  const paths: string[] = [];
+  for (let i = 0; i < edges.length - 1; i++) {
+    const t0 = edges[i];
+    const t1 = edges[i + 1];
+    if (t1 - t0 < 1e-6) continue;
+
+    const fill = sample((t0 + t1) / 2);
+    for (const f of [0, 0.25, 0.75, 1 - 1e-6]) {
+      error.max = Math.max(
+        error.max,
+        pixelError(sample(t0 + (t1 - t0) * f), fill)
+      );
+    }
+    if (fill[3] <= 0) continue;
+
+    // Push the outer edge out so the chord still clears the furthest corner
+    const r = (reach + 1) / Math.cos((((t1 - t0) / 2) * Math.PI) / 180);
+    const point = (t: number) => {
+      const rad = ((layer.from + t) * Math.PI) / 180;
+      return `${round(cx + r * Math.sin(rad))} ${round(cy - r * Math.cos(rad))}`;
+    };
+
+    const [red, green, blue] = straight(fill, fill);
+    const color = formatColor(
+      { r: red * 255, g: green * 255, b: blue * 255, a: 1 },
+      "hex"
+    );
+    // A same-color stroke hides anti-aliasing seams between opaque wedges
+    const paint =
+      fill[3] >= 1
+        ? `fill="${color}" stroke="${color}" stroke-width="0.5"`
+        : `fill="${color}" fill-opacity="${round(fill[3], 4)}"`;
+    paths.push(
+      `  <path d="M${round(cx)} ${round(cy)}L${point(t0)}L${point(t1)}Z" ${paint}/>`
+    );
+  }
+
+  const shape = [`<g${blendStyle(layer)}>`, ...paths, `</g>`].join("\n");
+  return { shape };
+}
+
+/**
+ * Serialize the enabled layers as a standalone SVG of the given size. Layers
+ * are painted bottom-up like CSS backgrounds, inside an isolated group so
+ * blend modes only mix with the gradient below. Layers without stops paint
+ * nothing and are left out.
+ */
+export function generateSvg(
+  layers: GradientLayer[],
+  width: number,
+  height: number,
+  options: SvgExportOptions = {}
+): SvgExport {
+  const segments = Math.max(
+    4,
+    Math.round(options.conicSegments ?? DEFAULT_CONIC_SEGMENTS)
+  );
+  const error = { max: 0 };
+  const defs: string[] = [];
+  const shapes: string[] = [];
+
+  layers
+    .filter((L) => L.enabled && L.stops.length > 0)
+    .reverse()
+    .forEach((layer, i) => {
+      const id = `gradient-${i + 1}`;
+      if (layer.type === "conic") {
+        shapes.push(conicLayer(layer, width, height, segments, error).shape);
+        return;
+      }
+      const { def, shape } =
+        layer.type === "linear"
+          ? linearLayer(layer, id, width, height, error)
+          : radialLayer(layer, id, width, height, error);
+      defs.push(def);
+      shapes.push(shape);
+    });
+
+  const indent = (block: string) =>
+    block
+      .split("\n")
+      .map((line) => `    ${line}`)
+      .join("\n");
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    ...(defs.length ? ["  <defs>", ...defs.map(indent), "  </defs>"] : []),
+    `  <g style="isolation:isolate">`,
+    ...shapes.map(indent),
+    `  </g>`,
+    `</svg>`,
+    "",
+  ].join("\n");
+
+  return { svg, maxError: Math.round(error.max * 255 * 10) / 10 };
+}
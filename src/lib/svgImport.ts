@@ -0,0 +1,462 @@
+import { convertToRgba, parseColor } from "./color";
+import { GradientLayer, GradientStop } from "./gradient";
+
+// Converts <linearGradient>/<radialGradient> definitions from SVG markup into
+// layers. Gradient geometry is mapped from the SVG's viewBox onto the preview
+// box; objectBoundingBox gradients are taken to cover the whole box.
+
+export interface SvgImportOptions {
+  width: number;
+  height: number;
+  firstId?: number;
+}
+
+export interface SvgImportResult {
+  layers: GradientLayer[];
+  // Problems and approximations worth telling the user about
+  errors: string[];
+}
+
+// 2D affine transform [a, b, c, d, e, f] as in SVG's matrix()
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function apply(m: Matrix, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+// Parse an SVG transform list such as "rotate(45 .5 .5) scale(2)"
+export function parseTransform(text: string): Matrix {
+  let result = IDENTITY;
+  const re = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = re.exec(text))) {
+    const args = match[2]
+      .trim()
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map(Number);
+    const [p0 = 0, p1, p2] = args;
+    const rad = (p0 * Math.PI) / 180;
+    let m: Matrix;
+
+    switch (match[1]) {
+      case "matrix":
+        m = args.length === 6 ? (args as Matrix) : IDENTITY;
+        break;
+      case "translate":
+        m = [1, 0, 0, 1, p0, p1 ?? 0];
+        break;
+      case "scale":
+        m = [p0, 0, 0, p1 ?? p0, 0, 0];
+        break;
+      case "rotate": {
+        const cos = Math.cos(rad);
+        const sin = Math.sin(rad);
+        m = [cos, sin, -sin, cos, 0, 0];
+        if (p1 != null && p2 != null) {
+          m = multiply(multiply([1, 0, 0, 1, p1, p2], m), [
+            1,
+            0,
+            0,
+            1,
+            -p1,
+            -p2,
+          ]);
+        }
+        break;
+      }
+      case "skewX":
+        m = [1, 0, Math.tan(rad), 1, 0, 0];
+        break;
+      default:
+        m = [1, Math.tan(rad), 0, 1, 0, 0];
+    }
+    result = multiply(result, m);
+  }
+  return result;
+}
+
+// Gradient attributes that can be inherited through href
+const INHERITED_ATTRIBUTES = [
+  "gradientUnits",
+  "gradientTransform",
+  "spreadMethod",
+  "x1",
+  "y1",
+  "x2",
+  "y2",
+  "cx",
+  "cy",
+  "r",
+  "fx",
+  "fy",
+];
+
+interface ResolvedGradient {
+  id: string;
+  type: "linear" | "radial";
+  attrs: Record<string, string>;
+  stops: Element[];
+}
+
+function hrefOf(el: Element): string | null {
+  const href =
+    el.getAttribute("href") ??
+    el.getAttributeNS("http://www.w3.org/1999/xlink", "href") ??
+    el.getAttribute("xlink:href");
+  return href?.startsWith("#") ? href.slice(1) : null;
+}
+
+function idOf(el: Element): string {
+  return el.getAttribute("id") ?? "";
+}
+
+function childStops(el: Element): Element[] {
+  return Array.from(el.children).filter((c) => c.localName === "stop");
+}
+
+/**
+ * Follow the href chain of a gradient: its own attributes win, then each
+ * referenced gradient's; stops come from the first gradient that has any.
+ */
+function resolveGradient(
+  el: Element,
+  byId: Map<string, Element>,
+  errors: string[]
+): ResolvedGradient {
+  const type = el.localName === "linearGradient" ? "linear" : "radial";
+  const attrs: Record<string, string> = {};
+  let stops: Element[] = [];
+  const seen = new Set<Element>();
+
+  for (let cur: Element | undefined = el; cur;) {
+    if (seen.has(cur)) {
+      errors.push(`Gradient "${idOf(el)}" has a circular href`);
+      break;
+    }
+    seen.add(cur);
+
+    // Geometry attributes only carry over between gradients of one type
+    const sameType = cur.localName === el.localName;
+    for (const name of INHERITED_ATTRIBUTES) {
+      const value = cur.getAttribute(name);
+      const isGeometry =
+        !name.startsWith("gradient") && name !== "spreadMethod";
+      if (value != null && !(name in attrs) && (sameType || !isGeometry)) {
+        attrs[name] = value;
+      }
+    }
+    if (stops.length === 0) stops = childStops(cur);
+
+    const href = hrefOf(cur);
+    cur = href ? byId.get(href) : undefined;
+  }
+
+  return { id: idOf(el), type, attrs, stops };
+}
+
+// Value of a presentation property, from the style attribute or attribute
+function property(el: Element, name: string): string | null {
+  const style = el.getAttribute("style") ?? "";
+  const match = new RegExp(`(?:^|;)\\s*${name}\\s*:\\s*([^;]+)`).exec(style);
+  return match ? match[1].trim() : el.getAttribute(name);
+}
+
+function parseOffset(value: string | null): number {
+  if (!value) return 0;
+  const n = parseFloat(value);
+  if (Number.isNaN(n)) return 0;
+  return value.trim().endsWith("%") ? n / 100 : n;
+}
+
+interface SvgStop {
+  offset: number;
+  color: string;
+}
+
+function parseStops(stops: Element[]): SvgStop[] {
+  let max = 0;
+  return stops.map((stop) => {
+    // Offsets are clamped to 0-1 and may not go backwards
+    const offset = Math.max(
+      max,
+      Math.min(1, parseOffset(stop.getAttribute("offset")))
+    );
+    max = offset;
+
+    let color = property(stop, "stop-color") ?? "black";
+    if (!parseColor(color)) color = "#000000";
+    const opacity = parseFloat(property(stop, "stop-opacity") ?? "1");
+    if (!Number.isNaN(opacity) && opacity < 1) {
+      color = convertToRgba(color, Math.max(0, opacity));
+    }
+    return { offset, color };
+  });
+}
+
+// Spread methods: reflect becomes a repeating gradient of the stops and
+// their mirror image
+function applySpread(stops: SvgStop[], spread: string | undefined) {
+  if (spread === "reflect") {
+    const mirrored = [...stops]
+      .reverse()
+      .map((s) => ({ ...s, offset: 2 - s.offset }));
+    return { stops: [...stops, ...mirrored], repeating: true };
+  }
+  return { stops, repeating: spread === "repeat" };
+}
+
+interface Viewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function viewportOf(svg: Element, fallback: Viewport): Viewport {
+  const viewBox = svg
+    .getAttribute("viewBox")
+    ?.trim()
+    .split(/[\s,]+/)
+    .map(Number);
+  if (viewBox?.length === 4 && viewBox.every((n) => !Number.isNaN(n))) {
+    const [x, y, width, height] = viewBox;
+    if (width > 0 && height > 0) return { x, y, width, height };
+  }
+  const width = parseFloat(svg.getAttribute("width") ?? "");
+  const height = parseFloat(svg.getAttribute("height") ?? "");
+  if (width > 0 && height > 0) return { x: 0, y: 0, width, height };
+  return fallback;
+}
+
+/**
+ * Parse SVG markup and convert every gradient that is painted with (or, if
+ * nothing references gradients, every gradient that isn't just an href
+ * template) into a layer. The first layer is the last gradient in the file,
+ * matching SVG paint order.
+ */
+export function parseSvgGradients(
+  text: string,
+  options: SvgImportOptions
+): SvgImportResult {
+  const errors: string[] = [];
+  const layers: GradientLayer[] = [];
+  let nextId = options.firstId ?? Date.now();
+
+  const doc = new DOMParser().parseFromString(text, "image/svg+xml");
+  const svg = doc.documentElement;
+  if (
+    svg.localName !== "svg" ||
+    doc.getElementsByTagName("parsererror").length
+  ) {
+    return { layers, errors: ["The text isn't well-formed SVG markup"] };
+  }
+
+  const all = Array.from(doc.getElementsByTagName("*")).filter(
+    (el) =>
+      el.localName === "linearGradient" || el.localName === "radialGradient"
+  );
+  const byId = new Map(all.filter(idOf).map((el) => [idOf(el), el]));
+
+  const painted = new Set(
+    Array.from(text.matchAll(/url\(\s*['"]?#([^'")\s]+)/g), (m) => m[1])
+  );
+  const templates = new Set(
+    all.map(hrefOf).filter((id): id is string => id != null)
+  );
+  const selected = all.filter((el) =>
+    painted.size > 0 ? painted.has(idOf(el)) : !templates.has(idOf(el))
+  );
+
+  const W = options.width;
+  const H = options.height;
+  const viewport = viewportOf(svg, { x: 0, y: 0, width: W, height: H });
+
+  for (const el of selected.reverse()) {
+    const gradient = resolveGradient(el, byId, errors);
+    const name = gradient.id ? `"${gradient.id}"` : `#${all.indexOf(el) + 1}`;
+    const svgStops = parseStops(gradient.stops);
+    if (svgStops.length === 0) {
+      errors.push(`Gradient ${name} has no stops and was skipped`);
+      continue;
+    }
+    if (svgStops.length === 1) svgStops.push({ ...svgStops[0], offset: 1 });
+
+    const { attrs } = gradient;
+    const userSpace = attrs.gradientUnits === "userSpaceOnUse";
+    // Lengths: fractions of the bounding box, or user units where percents
+    // refer to the viewport
+    const length = (
+      value: string | undefined,
+      fallback: string,
+      axis: "x" | "y" | "r"
+    ) => {
+      const raw = (value ?? fallback).trim();
+      const n = parseFloat(raw);
+      if (Number.isNaN(n)) return 0;
+      if (!raw.endsWith("%")) return n;
+      if (!userSpace) return n / 100;
+      const size =
+        axis === "x"
+          ? viewport.width
+          : axis === "y"
+            ? viewport.height
+            : Math.hypot(viewport.width, viewport.height) / Math.SQRT2;
+      return (n / 100) * size;
+    };
+
+    // Gradient space -> preview pixels
+    const toBox: Matrix = userSpace
+      ? [
+          W / viewport.width,
+          0,
+          0,
+          H / viewport.height,
+          (-viewport.x * W) / viewport.width,
+          (-viewport.y * H) / viewport.height,
+        ]
+      : [W, 0, 0, H, 0, 0];
+    const m = multiply(toBox, parseTransform(attrs.gradientTransform ?? ""));
+    const { stops, repeating } = applySpread(svgStops, attrs.spreadMethod);
+
+    if (gradient.type === "linear") {
+      const x1 = length(attrs.x1, "0%", "x");
+      const y1 = length(attrs.y1, "0%", "y");
+      const x2 = length(attrs.x2, "100%", "x");
+      const y2 = length(attrs.y2, "0%", "y");
+      layers.push(
+        linearLayer(nextId++, m, [x1, y1], [x2, y2], stops, repeating, W, H)
+      );
+    } else {
+      const cx = length(attrs.cx, "50%", "x");
+      const cy = length(attrs.cy, "50%", "y");
+      const r = length(attrs.r, "50%", "r");
+      const fx = attrs.fx != null ? length(attrs.fx, "", "x") : cx;
+      const fy = attrs.fy != null ? length(attrs.fy, "", "y") : cy;
+      if (Math.abs(fx - cx) > 1e-6 || Math.abs(fy - cy) > 1e-6) {
+        errors.push(
+          `Gradient ${name}: the focal point isn't supported in CSS and was centered`
+        );
+      }
+
+      const [px, py] = apply(m, cx, cy);
+      const rx = r * Math.hypot(m[0], m[1]);
+      const ry = r * Math.hypot(m[2], m[3]);
+      if (
+        (Math.abs(m[1]) > 1e-6 || Math.abs(m[2]) > 1e-6) &&
+        Math.abs(rx - ry) > 1e-6
+      ) {
+        errors.push(
+          `Gradient ${name}: a rotated ellipse was approximated without rotation`
+        );
+      }
+      const round = (n: number) => Number(n.toFixed(2));
+      layers.push({
+        id: nextId++,
+        type: "radial",
+        from: 0,
+        at: { x: round((px / W) * 100), y: round((py / H) * 100) },
+        shape: Math.abs(rx - ry) < 1e-6 ? "circle" : "ellipse",
+        size: { kind: "length", x: round(rx), y: round(ry) },
+        ...(repeating && { repeating }),
+        stops: stops.map((s) => ({
+          color: s.color,
+          pos: round(s.offset * 100),
+        })),
+        enabled: true,
+        opacity: 1,
+      });
+    }
+  }
+
+  if (layers.length === 0 && errors.length === 0) {
+    errors.push("No linearGradient or radialGradient found");
+  }
+  return { layers, errors };
+}
+
+/**
+ * A linear gradient from p1 to p2 in gradient space, seen through `m`.
+ * Its isolines are perpendicular to A^-T(p2 - p1) in pixel space (A being
+ * the linear part of `m`), which gives the CSS angle; offsets are then
+ * re-expressed along the CSS gradient line through the box center.
+ */
+function linearLayer(
+  id: number,
+  m: Matrix,
+  p1: [number, number],
+  p2: [number, number],
+  stops: SvgStop[],
+  repeating: boolean,
+  width: number,
+  height: number
+): GradientLayer {
+  const round = (n: number) => Number(n.toFixed(2));
+  const dx = p2[0] - p1[0];
+  const dy = p2[1] - p1[1];
+  const lengthSq = dx * dx + dy * dy;
+  const det = m[0] * m[3] - m[1] * m[2];
+
+  // Degenerate vectors paint the last stop's color
+  if (lengthSq === 0 || det === 0) {
+    const color = stops[stops.length - 1].color;
+    return {
+      id,
+      type: "linear",
+      from: 180,
+      at: { x: 50, y: 50 },
+      stops: [
+        { color, pos: 0 },
+        { color, pos: 100 },
+      ],
+      enabled: true,
+      opacity: 1,
+    };
+  }
+
+  // n = A^-T d
+  const nx = (m[3] * dx - m[1] * dy) / det;
+  const ny = (-m[2] * dx + m[0] * dy) / det;
+  const nLength = Math.hypot(nx, ny);
+  const ux = nx / nLength;
+  const uy = ny / nLength;
+  const angle = (Math.atan2(ux, -uy) * 180) / Math.PI;
+
+  // SVG offset s = alpha * f + beta, f being the CSS fraction along its line
+  const lineLength = Math.abs(width * ux) + Math.abs(height * uy);
+  const [P1x, P1y] = apply(m, p1[0], p1[1]);
+  const scale = nLength / lengthSq;
+  const alpha = scale * lineLength;
+  const beta =
+    scale * ((width / 2 - P1x) * ux + (height / 2 - P1y) * uy - lineLength / 2);
+
+  const cssStops: GradientStop[] = stops.map((s) => ({
+    color: s.color,
+    pos: round(((s.offset - beta) / alpha) * 100),
+  }));
+
+  return {
+    id,
+    type: "linear",
+    from: round(((angle % 360) + 360) % 360),
+    at: { x: 50, y: 50 },
+    ...(repeating && { repeating }),
+    stops: cssStops,
+    enabled: true,
+    opacity: 1,
+  };
+}
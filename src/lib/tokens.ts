@@ -0,0 +1,287 @@
+import { Rgba, convertToRgba, isStopColor, parseColor } from "./color";
+import { parseCssGradient } from "./cssParser";
+import {
+  AppState,
+  GradientLayer,
+  blendModeList,
+  generateCss,
+  layerToCss,
+  stopRange,
+} from "./gradient";
+import { SHARE_VERSION, restoreState } from "./shareUrl";
+
+// Design-token export (W3C DTCG JSON, CSS custom properties, SCSS) and
+// import of gradient tokens from DTCG JSON. DTCG gradients only describe
+// stops, so exported tokens also carry the full editor state under
+// $extensions; tokens from other tools load as plain layers.
+
+export type TokenFormat = "dtcg" | "css" | "scss";
+
+export const TOKEN_FORMATS: { value: TokenFormat; label: string }[] = [
+  { value: "dtcg", label: "DTCG JSON" },
+  { value: "css", label: "CSS variables" },
+  { value: "scss", label: "SCSS" },
+];
+
+const EXTENSION_KEY = "gradient-playground";
+
+export interface GradientToken {
+  // Dot-separated path in the token file, e.g. "gradient.brand"
+  path: string;
+  description?: string;
+  state: AppState;
+}
+
+export interface TokenImportResult {
+  tokens: GradientToken[];
+  errors: string[];
+}
+
+// "Brand Hero" -> "brand-hero"
+export function tokenSlug(name: string): string {
+  return (
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "gradient"
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// DTCG colors are #rrggbb, or #rrggbbaa when translucent
+function tokenHex(c: Rgba): string {
+  const bytes = [c.r, c.g, c.b];
+  if (c.a < 1) bytes.push(c.a * 255);
+  return (
+    "#" +
+    bytes
+      .map((v) =>
+        Math.round(Math.max(0, Math.min(255, v)))
+          .toString(16)
+          .padStart(2, "0")
+      )
+      .join("")
+  );
+}
+
+// The top enabled layer's stops as a DTCG gradient value (positions 0-1)
+function dtcgStops(layer: GradientLayer | undefined) {
+  if (!layer) return [];
+  const range = stopRange(layer.type);
+  const position = (pos: number) =>
+    Number(Math.max(0, Math.min(1, pos / range)).toFixed(4));
+  return layer.stops.flatMap((s) => {
+    const parsed = parseColor(convertToRgba(s.color, layer.opacity));
+    const color = parsed ? tokenHex(parsed) : s.color;
+    const stops = [{ color, position: position(s.pos) }];
+    if (s.pos2 != null) stops.push({ color, position: position(s.pos2) });
+    return stops;
+  });
+}
+
+export function generateTokens(
+  format: TokenFormat,
+  state: AppState,
+  name: string
+): string {
+  const slug = tokenSlug(name);
+  const enabled = state.layers.filter((L) => L.enabled);
+  const background = enabled.map((L) => layerToCss(L)).join(", ");
+  const modes = blendModeList(state.layers)?.join(", ");
+
+  if (format === "dtcg") {
+    const token = {
+      $type: "gradient",
+      $value: dtcgStops(enabled[0]),
+      $description: generateCss(state.layers).replace(/\n/g, " "),
+      $extensions: {
+        [EXTENSION_KEY]: { version: SHARE_VERSION, state },
+      },
+    };
+    return JSON.stringify({ gradient: { [slug]: token } }, null, 2) + "\n";
+  }
+
+  if (format === "css") {
+    return [
+      ":root {",
+      `  --gradient-${slug}: ${background};`,
+      ...(modes ? [`  --gradient-${slug}-blend-mode: ${modes};`] : []),
+      "}",
+      "",
+    ].join("\n");
+  }
+
+  // SCSS: a variable per layer, the stack built from them, and a mixin
+  const layerVars = enabled.map((L, i) => ({
+    name: `$gradient-${slug}-layer-${i + 1}`,
+    css: layerToCss(L),
+  }));
+  return [
+    ...layerVars.map((v) => `${v.name}: ${v.css};`),
+    `$gradient-${slug}: ${layerVars.map((v) => v.name).join(", ")};`,
+    ...(modes ? [`$gradient-${slug}-blend-mode: ${modes};`] : []),
+    "",
+    `@mixin gradient-${slug} {`,
+    `  background: $gradient-${slug};`,
+    ...(modes
+      ? [`  background-blend-mode: $gradient-${slug}-blend-mode;`]
+      : []),
+    "}",
+    "",
+  ].join("\n");
+}
+
+// DTCG color objects: { colorSpace, components, alpha?, hex? }. Colors that
+// aren't safe to write into CSS are rejected like unreadable ones.
+function tokenColor(value: unknown): string | null {
+  if (typeof value === "string") return isStopColor(value) ? value : null;
+  if (!isRecord(value)) return null;
+  const alpha = typeof value.alpha === "number" ? value.alpha : 1;
+  if (typeof value.hex === "string") {
+    return isStopColor(value.hex) ? convertToRgba(value.hex, alpha) : null;
+  }
+  const components = Array.isArray(value.components) ? value.components : [];
+  if (typeof value.colorSpace !== "string" || components.length !== 3) {
+    return null;
+  }
+  const channels = components
+    .map((c) => (typeof c === "number" ? c : "none"))
+    .join(" ");
+  const suffix = alpha < 1 ? ` / ${alpha}` : "";
+  const color = `color(${value.colorSpace} ${channels}${suffix})`;
+  return isStopColor(color) ? color : null;
+}
+
+/**
+ * List the gradient tokens in a DTCG JSON file, with aliases ("{a.b}")
+ * resolved and $type inherited from groups. Tokens exported by this editor
+ * restore their full state; others become a single top-to-bottom linear
+ * layer (or the layers of a CSS gradient string).
+ */
+export function parseGradientTokens(
+  text: string,
+  preview: { width: number; height: number }
+): TokenImportResult {
+  const errors: string[] = [];
+  let root: unknown;
+  try {
+    root = JSON.parse(text);
+  } catch {
+    return { tokens: [], errors: ["The file isn't valid JSON"] };
+  }
+
+  // Every token by path, plus the gradient ones in file order
+  const all = new Map<string, Record<string, unknown>>();
+  const gradients: { path: string; token: Record<string, unknown> }[] = [];
+  const walk = (node: unknown, path: string[], type: unknown) => {
+    if (!isRecord(node)) return;
+    const ownType = node.$type ?? type;
+    if ("$value" in node) {
+      all.set(path.join("."), node);
+      if (ownType === "gradient") {
+        gradients.push({ path: path.join("."), token: node });
+      }
+      return;
+    }
+    for (const [key, child] of Object.entries(node)) {
+      if (!key.startsWith("$")) walk(child, [...path, key], ownType);
+    }
+  };
+  walk(root, [], undefined);
+
+  const resolve = (value: unknown, depth = 0): unknown => {
+    if (typeof value !== "string") return value;
+    const alias = /^\{([^}]+)\}$/.exec(value.trim());
+    if (!alias || depth > 10) return value;
+    const target = all.get(alias[1]);
+    return target ? resolve(target.$value, depth + 1) : value;
+  };
+
+  const tokens: GradientToken[] = [];
+  let nextId = Date.now();
+
+  for (const { path, token } of gradients) {
+    const description =
+      typeof token.$description === "string" ? token.$description : undefined;
+
+    const saved = isRecord(token.$extensions)
+      ? token.$extensions[EXTENSION_KEY]
+      : undefined;
+    if (isRecord(saved) && typeof saved.version === "number") {
+      const restored = restoreState(saved.state, saved.version);
+      if ("state" in restored) {
+        tokens.push({ path, description, state: restored.state });
+        continue;
+      }
+      errors.push(`${path}: ${restored.error}; loading its stops instead`);
+    }
+
+    const value = resolve(token.$value);
+    let layers: GradientLayer[] = [];
+
+    if (typeof value === "string") {
+      const parsed = parseCssGradient(value, {
+        ...preview,
+        firstId: nextId,
+      });
+      layers = parsed.layers;
+      if (parsed.errors.length > 0) {
+        errors.push(`${path}: ${parsed.errors[0].message}`);
+      }
+    } else if (Array.isArray(value)) {
+      const stops = value.flatMap((raw) => {
+        const stop = resolve(raw);
+        if (!isRecord(stop)) return [];
+        const color = tokenColor(resolve(stop.color));
+        const position = Number(resolve(stop.position));
+        if (!color || !Number.isFinite(position)) return [];
+        return [
+          {
+            color,
+            pos: Number((Math.max(0, Math.min(1, position)) * 100).toFixed(2)),
+          },
+        ];
+      });
+      if (stops.length > 0) {
+        layers = [
+          {
+            id: nextId,
+            type: "linear",
+            from: 180,
+            at: { x: 50, y: 50 },
+            stops,
+            enabled: true,
+            opacity: 1,
+          },
+        ];
+      } else {
+        errors.push(`${path}: no readable stops`);
+      }
+    } else {
+      errors.push(`${path}: unsupported gradient value`);
+    }
+
+    nextId += layers.length;
+    if (layers.length > 0) {
+      tokens.push({
+        path,
+        description,
+        state: {
+          layers,
+          previewW: preview.width,
+          previewH: preview.height,
+          selectedLayerId: layers[0].id,
+        },
+      });
+    }
+  }
+
+  if (gradients.length === 0) {
+    errors.push('No tokens with $type "gradient" found');
+  }
+  return { tokens, errors };
+}